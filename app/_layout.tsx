@@ -1,8 +1,12 @@
 import React from 'react';
 import { Stack, Redirect } from 'expo-router';
 import { View } from 'react-native';
+import { useNotifications } from '@/hooks/useNotifications';
 
 export default function Layout() {
+  // 后台通知与点击通知后的跳转
+  useNotifications();
+
   return (
     <>
       <Stack
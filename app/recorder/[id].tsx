@@ -1,8 +1,37 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, Pressable, ScrollView, TextInput, KeyboardAvoidingView, Platform } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, Pressable, ScrollView, TextInput, KeyboardAvoidingView, Platform, Alert } from 'react-native';
 import { Stack, useLocalSearchParams, router } from 'expo-router';
 import storageService from '../../services/storage/index';
 import { TimeRecord } from '../../services/storage/interfaces';
+import {
+  advancePomodoro,
+  applyTimerCommand,
+  attachRecord,
+  detachRecord,
+  EMPTY_HISTORY,
+  findRecordById,
+  findRecordPath,
+  getBudgetProgress,
+  getPomodoroStatus,
+  recordCommand,
+  redoCommand,
+  refreshElapsedTime,
+  saveTimerTree,
+  undoCommand,
+  updateRecordById,
+  TimerCommand,
+} from '../../services/timer';
+import { loadTags, resolveTags, saveTags, Tag, toggleTagId } from '../../services/tags';
+import TagPickerModal from '@/components/TagPickerModal';
+import MoveTargetModal, { MoveTarget } from '@/components/MoveTargetModal';
+import DragHandle, { getDropIndex } from '@/components/DragHandle';
+import IntervalEditorModal from '@/components/IntervalEditorModal';
+import BudgetBar from '@/components/BudgetBar';
+import IdleTimerModal from '@/components/IdleTimerModal';
+import { useIdleDetection } from '@/hooks/useIdleDetection';
+import { AppSettings, DEFAULT_SETTINGS, loadSettings } from '@/services/settings';
+import { createTemplate, loadTemplates, saveTemplates } from '@/services/templates';
+import { Ionicons } from '@expo/vector-icons';
 
 
 /**
@@ -30,15 +59,41 @@ const generateRandomColor = () => {
  */
 export default function RecorderExecutionScreen() {
   // 从URL参数中获取记录ID
-  const { id } = useLocalSearchParams<{ id: string }>();
+  const { id, focus } = useLocalSearchParams<{ id: string; focus?: string }>();
   // 使用状态钩子管理记录列表
   const [timeRecords, setTimeRecords] = useState<TimeRecord[]>([]);
+  // 最近一次渲染的记录树，供事件处理函数记录撤销快照
+  const timeRecordsRef = useRef<TimeRecord[]>([]);
+  timeRecordsRef.current = timeRecords;
+  // 撤销/重做历史，以及开始编辑标题或笔记时的快照
+  const [history, setHistory] = useState(EMPTY_HISTORY);
+  const editSnapshotRef = useRef<TimeRecord[] | null>(null);
   // 添加 ScrollView 的 ref
   const scrollViewRef = useRef<ScrollView>(null);
   // 添加当前正在编辑的记录ID状态
   const [editingRecordId, setEditingRecordId] = useState<string | null>(null);
   // 添加记录视图引用的映射
   const recordRefs = useRef<{ [key: string]: View | null }>({});
+  // 保存请求计数，与记录树在同一次渲染中更新，由下面的 effect 统一写入存储
+  const [saveRequest, setSaveRequest] = useState(0);
+  const savedRequestRef = useRef(0);
+  // 最近一次保存的记录树，用来判断保存时是否开始了新的计时
+  const savedTreeRef = useRef<TimeRecord | null>(null);
+  // 标签定义和正在选择标签的记录
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [taggingRecordId, setTaggingRecordId] = useState<string | null>(null);
+  // 从搜索结果进入时需要滚动到并高亮的记录
+  const [highlightedRecordId, setHighlightedRecordId] = useState<string | null>(null);
+  // 正在移动的记录，以及可以作为目标的其他未归档根记录
+  const [movingRecordId, setMovingRecordId] = useState<string | null>(null);
+  const [otherRoots, setOtherRoots] = useState<TimeRecord[]>([]);
+  // 开始番茄钟时使用的设置
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  // 正在编辑计时段的记录
+  const [timingRecordId, setTimingRecordId] = useState<string | null>(null);
+  // 拖动排序：正在拖动的记录和拖动距离，以及各记录的高度
+  const [drag, setDrag] = useState<{ recordId: string; dy: number } | null>(null);
+  const recordHeights = useRef<{ [key: string]: number }>({});
 
   /**
    * 初始化根记录
@@ -50,25 +105,18 @@ export default function RecorderExecutionScreen() {
       const existingRecord = await storageService.loadRecord(id);
 
       if (existingRecord) {
+        savedTreeRef.current = existingRecord;
         // 递归更新所有记录的时间
-        const updateElapsedTime = (record: TimeRecord): TimeRecord => {
-          if (record.isRunning && record.startTime) {
-            const now = Date.now();
-            const elapsedSeconds = Math.floor((now - record.startTime) / 1000);
-            return {
-              ...record,
-              time: record.baseTime + elapsedSeconds,
-              children: record.children.map(child => updateElapsedTime(child))
-            };
-          }
-          return {
-            ...record,
-            children: record.children.map(child => updateElapsedTime(child))
-          };
-        };
-
-        const updatedRecord = updateElapsedTime(existingRecord);
-        setTimeRecords([updatedRecord]);
+        let updatedRecords = [refreshElapsedTime(existingRecord, Date.now())];
+        // 展开目标记录的所有祖先，保证它能被渲染出来
+        const focusPath = focus ? findRecordPath(updatedRecords, focus) : null;
+        if (focusPath) {
+          focusPath.slice(0, -1).forEach(ancestor => {
+            updatedRecords = updateRecordById(updatedRecords, ancestor.id, record => ({ ...record, isCollapsed: false }));
+          });
+          setHighlightedRecordId(focus!);
+        }
+        setTimeRecords(updatedRecords);
       } else {
         // 如果找不到记录，返回首页
         router.replace("/recorder/");
@@ -76,41 +124,27 @@ export default function RecorderExecutionScreen() {
     };
 
     initializeRecord();
-  }, [id]);
+    loadTags(storageService).then(setTags);
+    loadSettings(storageService).then(setSettings);
+  }, [id, focus]);
 
   /**
    * 更新记录时间
    * 每秒更新所有正在运行的记录的时间
    */
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-    let lastUpdateTime = Date.now();
-    
     const updateTimes = () => {
       const now = Date.now();
-      const deltaTime = now - lastUpdateTime;
-      lastUpdateTime = now;
-
-      setTimeRecords(prev => {
-        // 递归更新记录树中的时间
-        const updateRecordTime = (record: TimeRecord): TimeRecord => {
-          if (record.isRunning && record.startTime) {
-            const elapsedSeconds = Math.floor((now - record.startTime) / 1000);
-            return {
-              ...record,
-              time: record.baseTime + elapsedSeconds,
-              children: record.children.map(child => updateRecordTime(child))
-            };
-          }
-          return {
-            ...record,
-            children: record.children.map(child => updateRecordTime(child))
-          };
-        };
-
-        const updatedRecords = prev.map(record => updateRecordTime(record));
-        return updatedRecords;
-      });
+      // 番茄钟阶段结束时切换阶段并保存，阶段按存储的时间戳计算，应用被关闭后也能补上
+      const advanced = advancePomodoro(timeRecordsRef.current, now);
+      if (advanced !== timeRecordsRef.current) {
+        timeRecordsRef.current = advanced;
+        setTimeRecords(advanced.map(record => refreshElapsedTime(record, now)));
+        setSaveRequest(prev => prev + 1);
+        return;
+      }
+      // 递归更新记录树中的时间
+      setTimeRecords(prev => prev.map(record => refreshElapsedTime(record, now)));
     };
 
     // 使用 requestAnimationFrame 来实现更平滑的更新
@@ -128,6 +162,21 @@ export default function RecorderExecutionScreen() {
     };
   }, []);
 
+  /**
+   * 保存记录树
+   * 在状态提交后执行，避免在 setState 的更新函数中产生副作用
+   * 开始了新的计时且只允许一个计时时，由 saveTimerTree 停止其他记录中的计时
+   */
+  useEffect(() => {
+    if (saveRequest !== savedRequestRef.current && timeRecords.length > 0) {
+      savedRequestRef.current = saveRequest;
+      const previous = savedTreeRef.current;
+      savedTreeRef.current = timeRecords[0];
+      saveTimerTree(storageService, timeRecords[0], previous, Date.now())
+        .catch(error => console.error('Error saving record:', error));
+    }
+  }, [saveRequest, timeRecords]);
+
   /**
    * 格式化时间的辅助函数
    * 将秒数转换为 "分:秒" 格式，添加平滑过渡效果
@@ -141,194 +190,139 @@ export default function RecorderExecutionScreen() {
   }, []);
 
   /**
-   * 切换记录的运行状态
-   * 实现了互斥性：同一层级只能有一个记录在运行
-   * 父节点的运行状态会影响子节点
-   * @param recordId - 要切换状态的记录ID
+   * 执行计时树命令并保存结果
+   * 所有会改变持久化状态的操作都通过这里，并记入撤销历史
+   * @param command - 要执行的命令
+   * @param before - 撤销时恢复的记录树，为 null 时不记入历史
    */
-  const toggleRecord = useCallback(async (recordId: string) => {
+  const dispatchCommand = useCallback((command: TimerCommand, before: TimeRecord[] | null = timeRecordsRef.current) => {
     const now = Date.now();
+    setTimeRecords(prev => applyTimerCommand(prev, command, now));
+    if (before) {
+      setHistory(prev => recordCommand(prev, command, before));
+    }
+    setSaveRequest(prev => prev + 1);
+  }, []);
 
-    // 递归更新记录树中的执行状态
-    const updateRecordStatus = (records: TimeRecord[]): TimeRecord[] => {
-      // 检查是否有目标记录在当前层级
-      const hasTargetInLevel = records.some(record => record.id === recordId);
-      
-      return records.map(record => {
-        if (record.id === recordId) {
-          // 更新当前记录的状态
-          const newIsRunning = !record.isRunning;
-          const updatedRecord = {
-            ...record,
-            isRunning: newIsRunning,
-            children: newIsRunning ? record.children : updateChildrenStatus(record.children, false)
-          };
-
-          if (newIsRunning) {
-            // 开始计时：记录开始时间和基础时间
-            updatedRecord.startTime = now;
-            updatedRecord.baseTime = record.time || 0;
-          } else {
-            // 停止计时：更新基础时间，清除开始时间
-            const elapsedSeconds = Math.floor((now - (record.startTime || now)) / 1000);
-            updatedRecord.baseTime = (record.baseTime || 0) + elapsedSeconds;
-            updatedRecord.startTime = undefined;
-            updatedRecord.time = updatedRecord.baseTime;
-          }
-          return updatedRecord;
-        } else if (hasTargetInLevel) {
-          // 如果目标记录在当前层级，暂停其他同级记录
-          return {
-            ...record,
-            isRunning: false,
-            startTime: undefined,
-            time: record.baseTime || 0,
-            children: updateChildrenStatus(record.children, false)
-          };
-        } else if (record.children.length > 0) {
-          const updatedChildren = updateRecordStatus(record.children);
-          // 检查是否是目标记录的父节点
-          const targetChild = findRecordById(updatedChildren, recordId);
-          if (targetChild) {
-            // 如果子节点开始计时，父节点也要开始计时
-            return {
-              ...record,
-              isRunning: targetChild.isRunning,
-              startTime: targetChild.isRunning ? now : undefined,
-              baseTime: record.time || 0,
-              children: updatedChildren
-            };
-          }
-          return {
-            ...record,
-            children: updatedChildren
-          };
-        }
-        return record;
-      });
-    };
-
-    // 递归设置所有子记录的状态
-    const updateChildrenStatus = (records: TimeRecord[], status: boolean): TimeRecord[] => {
-      return records.map(record => ({
-        ...record,
-        isRunning: status,
-        children: updateChildrenStatus(record.children, status)
-      }));
-    };
+  /**
+   * 撤销上一条命令，恢复命令执行前的记录树并保存
+   * 误停的计时器会从原来的开始时间继续计时
+   */
+  const handleUndo = useCallback(() => {
+    const step = undoCommand(history);
+    if (!step) {
+      return;
+    }
+    editSnapshotRef.current = null;
+    setTimeRecords(step.records.map(record => refreshElapsedTime(record, Date.now())));
+    setHistory(step.history);
+    setSaveRequest(prev => prev + 1);
+  }, [history]);
 
-    // 查找特定ID的记录
-    const findRecordById = (records: TimeRecord[], targetId: string): TimeRecord | null => {
-      for (const record of records) {
-        if (record.id === targetId) return record;
-        if (record.children.length > 0) {
-          const found = findRecordById(record.children, targetId);
-          if (found) return found;
-        }
-      }
-      return null;
-    };
+  /**
+   * 重做上一条被撤销的命令
+   */
+  const handleRedo = useCallback(() => {
+    const step = redoCommand(history, timeRecordsRef.current, Date.now());
+    if (!step) {
+      return;
+    }
+    editSnapshotRef.current = null;
+    setTimeRecords(step.records);
+    setHistory(step.history);
+    setSaveRequest(prev => prev + 1);
+  }, [history]);
 
-    // 更新当前显示的记录
-    setTimeRecords(prev => {
-      const updatedRecords = updateRecordStatus(prev);
-      // 直接保存更新后的记录
-      storageService.saveRecord(updatedRecords[0]);
-      return updatedRecords;
-    });
-  }, [id]);
+  /**
+   * 切换记录的运行状态
+   * 互斥和父节点联动规则由记录的计时规则决定，见 services/timer
+   * @param recordId - 要切换状态的记录ID
+   */
+  const toggleRecord = useCallback((recordId: string) => {
+    dispatchCommand({ type: 'toggle', recordId });
+  }, [dispatchCommand]);
 
   /**
-   * 添加新记录
-   * 可以添加根记录或子记录
-   * @param parentId - 父记录ID，为null时添加根记录
+   * 添加子记录
+   * @param parentId - 父记录ID
    */
-  const addNewRecord = useCallback(async (parentId: string | null) => {
-    const newId = Date.now().toString();
-
-    const newRecord: TimeRecord = {
-      id: newId,
-      time: 0,
-      baseTime: 0,  // 初始化基础时间为0
-      isRunning: false,
-      label: 'todo',  // Changed from `Recording ${newId}` to 'todo'
-      children: [],
-      parentId: parentId,
-      isCollapsed: false,
+  const addNewRecord = useCallback((parentId: string) => {
+    dispatchCommand({
+      type: 'addChild',
+      parentId,
+      id: Date.now().toString(),
       avatarColor: generateRandomColor(),
-      createdAt: new Date(),
-      isEditing: false,
-      note: '',
-      isEditingNote: false,
-    };
-
-    // 递归更新记录树中的添加操作
-    const updateRecordTree = (records: TimeRecord[]): TimeRecord[] => {
-      return records.map(record => {
-        if (record.id === parentId) {
-          // 找到父记录，添加新的子记录
-          return {
-            ...record,
-            children: [...record.children, newRecord]
-          };
-        } else if (record.children.length > 0) {
-          // 递归检查子记录
-          return {
-            ...record,
-            children: updateRecordTree(record.children)
-          };
-        }
-        return record;
-      });
-    };
-
-    // 更新当前显示的记录
-    setTimeRecords(prev => {
-      if (parentId === null) {
-        // 如果是添加根记录
-        return [...prev, newRecord];
-      }
-      // 如果是添加子记录
-      return updateRecordTree(prev);
     });
+  }, [dispatchCommand]);
+
+  /**
+   * 添加休息记录
+   * @param parentId - 父记录ID
+   */
+  const addBreakRecord = useCallback((parentId: string) => {
+    dispatchCommand({ type: 'addBreak', parentId, id: Date.now().toString() });
+  }, [dispatchCommand]);
 
-    // 如果是添加到根记录，直接保存新记录
-    if (parentId === null) {
-      await storageService.saveRecord(newRecord);
+  /**
+   * 开始或结束番茄钟模式
+   * @param record - 要切换的记录
+   */
+  const togglePomodoro = useCallback((record: TimeRecord) => {
+    if (record.pomodoro) {
+      dispatchCommand({ type: 'stopPomodoro', recordId: record.id });
     } else {
-      // 如果是添加子记录，只保存当前记录
-      await storageService.saveRecord(timeRecords[0]);
+      dispatchCommand({ type: 'startPomodoro', recordId: record.id, settings: settings.pomodoro });
     }
-  }, [timeRecords]);
+  }, [dispatchCommand, settings]);
+
+  /**
+   * 渲染番茄钟状态：当前阶段、剩余时间和完成的周期数
+   * @param record - 处于番茄钟模式的记录
+   */
+  const renderPomodoroStatus = (record: TimeRecord) => {
+    const status = getPomodoroStatus(record, Date.now());
+    if (!status || !record.pomodoro) {
+      return null;
+    }
+    const phaseLabel = status.phase === 'work' ? 'Focus'
+      : status.phase === 'break' ? 'Break'
+      : status.phase === 'longBreak' ? 'Long break'
+      : 'Ready';
+    return (
+      <View style={styles.pomodoroRow}>
+        <Text style={styles.pomodoroText}>
+          🍅 {phaseLabel}
+          {status.remainingSeconds !== null && ` · ${formatTime(status.remainingSeconds)} left`}
+          {status.phase === 'work' && !record.isRunning && ' (paused)'}
+          {` · ${status.completedCycles} done`}
+        </Text>
+        {status.phase !== 'work' && (
+          <TouchableOpacity
+            onPress={() => dispatchCommand({ type: 'startPomodoro', recordId: record.id, settings: record.pomodoro!.settings })}
+          >
+            <Text style={styles.pomodoroAction}>Start focus</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  /**
+   * 渲染预估时间进度条，没有预估时不显示
+   * @param record - 要显示的记录
+   */
+  const renderBudget = (record: TimeRecord) => {
+    const progress = getBudgetProgress(record, Date.now());
+    return progress ? <BudgetBar progress={progress} /> : null;
+  };
 
   /**
    * 切换记录的折叠状态
    * @param recordId - 要切换折叠状态的记录ID
    */
   const toggleCollapse = useCallback((recordId: string) => {
-    setTimeRecords(prev => {
-      const updateCollapse = (records: TimeRecord[]): TimeRecord[] => {
-        return records.map(record => {
-          if (record.id === recordId) {
-            return {
-              ...record,
-              isCollapsed: !record.isCollapsed,
-              children: record.children
-            };
-          }
-          return {
-            ...record,
-            children: updateCollapse(record.children)
-          };
-        });
-      };
-      const newRecords = updateCollapse(prev);
-      
-      // 保存更新后的记录
-      storageService.saveRecord(newRecords[0]);
-      return newRecords;
-    });
-  }, []);
+    dispatchCommand({ type: 'toggleCollapse', recordId });
+  }, [dispatchCommand]);
 
   /**
    * 更新记录标题
@@ -336,30 +330,220 @@ export default function RecorderExecutionScreen() {
    * @param newLabel - 新标题
    */
   const updateRecordLabel = useCallback((recordId: string, newLabel: string) => {
-    setTimeRecords(prev => {
-      const updateLabel = (records: TimeRecord[]): TimeRecord[] => {
-        return records.map(record => {
-          if (record.id === recordId) {
-            return {
-              ...record,
-              label: newLabel,
-              isEditing: false // 退出编辑状态
-            };
-          }
-          return {
-            ...record,
-            children: updateLabel(record.children)
-          };
-        });
-      };
-      const newRecords = updateLabel(prev);
-      
-      // 保存更新后的记录
-      storageService.saveRecord(newRecords[0]);
-      return newRecords;
-    });
+    // 输入过程中标题已经改变，撤销时恢复开始编辑时的快照；标题没变则不记入历史
+    const before = editSnapshotRef.current ?? timeRecordsRef.current;
+    editSnapshotRef.current = null;
+    const isChanged = findRecordById(before, recordId)?.label !== newLabel;
+    dispatchCommand({ type: 'rename', recordId, label: newLabel }, isChanged ? before : null);
+  }, [dispatchCommand]);
+
+  /**
+   * 保存笔记并退出编辑状态
+   * @param recordId - 正在编辑笔记的记录ID
+   */
+  const finishEditingNote = useCallback((recordId: string) => {
+    // 笔记在输入时已经写入记录树，这里只把整次编辑记入历史
+    const before = editSnapshotRef.current;
+    editSnapshotRef.current = null;
+    const note = findRecordById(timeRecordsRef.current, recordId)?.note ?? '';
+    if (before && (findRecordById(before, recordId)?.note ?? '') !== note) {
+      setHistory(prev => recordCommand(prev, { type: 'setNote', recordId, note }, before));
+    }
+    setTimeRecords(prev => updateRecordById(prev, recordId, record => ({ ...record, isEditingNote: false })));
+    setSaveRequest(prev => prev + 1);
+  }, []);
+
+  /**
+   * 切换正在选择标签的记录上的某个标签
+   * @param tagId - 要添加或移除的标签ID
+   */
+  const toggleRecordTag = useCallback((tagId: string) => {
+    const record = taggingRecordId ? findRecordById(timeRecords, taggingRecordId) : null;
+    if (record) {
+      dispatchCommand({ type: 'setTags', recordId: record.id, tagIds: toggleTagId(record.tagIds, tagId) });
+    }
+  }, [taggingRecordId, timeRecords, dispatchCommand]);
+
+  /**
+   * 保存标签管理中修改后的标签列表
+   * @param nextTags - 新的标签列表
+   */
+  const updateTags = useCallback((nextTags: Tag[]) => {
+    setTags(nextTags);
+    saveTags(storageService, nextTags);
+  }, []);
+
+  // 回到应用时检查忘记停止的计时，记录树还没加载时从存储读取
+  const { idleTimer, dismissIdleTimer } = useIdleDetection(async () => {
+    if (timeRecordsRef.current.length > 0) {
+      return timeRecordsRef.current;
+    }
+    const record = await storageService.loadRecord(id);
+    return record ? [record] : [];
+  });
+
+  /**
+   * 确认删除子记录
+   * 可以选择把它的时间并入父记录，或连同时间一起删除
+   * @param record - 要删除的记录
+   */
+  const confirmDeleteRecord = useCallback((record: TimeRecord) => {
+    Alert.alert(
+      "Delete Subtask",
+      record.children.length > 0
+        ? `Delete "${record.label}" and its subtasks?`
+        : `Delete "${record.label}"?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete, keep time in parent",
+          onPress: () => dispatchCommand({ type: 'delete', recordId: record.id, foldIntoParent: true })
+        },
+        {
+          text: "Delete with its time",
+          style: "destructive",
+          onPress: () => dispatchCommand({ type: 'delete', recordId: record.id, foldIntoParent: false })
+        }
+      ]
+    );
+  }, [dispatchCommand]);
+
+  /**
+   * 打开移动目标选择，同时加载其他未归档的根记录
+   * @param recordId - 要移动的记录ID
+   */
+  const startMovingRecord = useCallback(async (recordId: string) => {
+    setMovingRecordId(recordId);
+    const roots = await storageService.loadRootRecords();
+    setOtherRoots(roots.filter(root => root.id !== id && root.archivedAt === undefined));
+  }, [id]);
+
+  /**
+   * 把记录及其子记录保存为模板，模板名称默认使用记录标题
+   * @param record - 要保存的记录
+   */
+  const saveAsTemplate = useCallback(async (record: TimeRecord) => {
+    try {
+      const templates = await loadTemplates(storageService);
+      await saveTemplates(storageService, [...templates, createTemplate(Date.now().toString(), record.label, record, Date.now())]);
+      Alert.alert("Template Saved", `Create recordings from "${record.label}" with the + button on the home screen.`);
+    } catch (error) {
+      console.error('Error saving template:', error);
+      Alert.alert("Error", "Failed to save the template. Please try again.");
+    }
+  }, []);
+
+  /**
+   * 记录的更多操作，根记录只能保存为模板（移动和删除在首页进行）
+   * @param record - 要操作的记录
+   * @param isRoot - 是否为根记录
+   */
+  const showRecordActions = useCallback((record: TimeRecord, isRoot: boolean) => {
+    Alert.alert(
+      record.label,
+      undefined,
+      [
+        { text: "Save as Template", onPress: () => saveAsTemplate(record) },
+        ...(isRoot ? [] : [
+          { text: "Move…", onPress: () => startMovingRecord(record.id) },
+          { text: "Delete…", style: "destructive" as const, onPress: () => confirmDeleteRecord(record) },
+        ]),
+        { text: "Cancel", style: "cancel" }
+      ]
+    );
+  }, [saveAsTemplate, startMovingRecord, confirmDeleteRecord]);
+
+  /**
+   * 列出可以移动到的位置：当前树中除自身子树和当前父记录外的记录、其他根记录、顶层
+   */
+  const buildMoveTargets = (): MoveTarget[] => {
+    const record = movingRecordId ? findRecordById(timeRecords, movingRecordId) : null;
+    if (!record) {
+      return [];
+    }
+    const nodes: MoveTarget[] = [];
+    const visit = (node: TimeRecord, depth: number) => {
+      if (node.id === record.id) {
+        return;
+      }
+      if (node.id !== record.parentId) {
+        nodes.push({ kind: 'node', id: node.id, label: node.label, depth });
+      }
+      node.children.forEach(child => visit(child, depth + 1));
+    };
+    timeRecords.forEach(root => visit(root, 0));
+
+    return [
+      ...nodes,
+      ...otherRoots.map((root): MoveTarget => ({ kind: 'root', id: root.id, label: root.label, depth: 0 })),
+      { kind: 'newRoot', id: null, label: 'New recording', depth: 0 },
+    ];
+  };
+
+  /**
+   * 把记录移到另一棵树或作为新的根记录
+   * 两棵树一起写入，中途失败也不会丢掉移走的记录
+   * 撤销历史只针对当前树，跨树移动后清空
+   * @param recordId - 要移动的记录ID
+   * @param targetRootId - 目标根记录ID，为 null 时成为新的根记录
+   */
+  const moveToOtherTree = useCallback(async (recordId: string, targetRootId: string | null) => {
+    try {
+      const target = targetRootId ? await storageService.loadRecord(targetRootId) : null;
+      if (targetRootId && !target) {
+        throw new Error(`Record ${targetRootId} not found`);
+      }
+      const now = Date.now();
+      const result = detachRecord(timeRecordsRef.current, recordId, now);
+      if (!result || result.records.length === 0) {
+        return;
+      }
+      setTimeRecords(result.records);
+      setHistory(EMPTY_HISTORY);
+      savedTreeRef.current = result.records[0];
+      await storageService.saveRecords([
+        result.records[0],
+        target ? attachRecord([target], result.detached, target.id, now)[0] : { ...result.detached, parentId: null },
+      ]);
+    } catch (error) {
+      console.error('Error moving record:', error);
+      Alert.alert("Error", "Failed to move the recording. Please try again.");
+    }
   }, []);
 
+  /**
+   * 执行选中的移动
+   * @param target - 选中的目标
+   */
+  const handleMoveTarget = useCallback((target: MoveTarget) => {
+    const recordId = movingRecordId;
+    setMovingRecordId(null);
+    if (!recordId) {
+      return;
+    }
+    if (target.kind === 'node') {
+      dispatchCommand({ type: 'move', recordId, parentId: target.id });
+    } else {
+      moveToOtherTree(recordId, target.id);
+    }
+  }, [movingRecordId, dispatchCommand, moveToOtherTree]);
+
+  /**
+   * 拖动结束，根据拖动距离调整兄弟记录的顺序
+   * @param record - 被拖动的记录
+   * @param siblings - 同一父记录下的所有记录
+   * @param index - 被拖动记录原来的位置
+   * @param dy - 垂直拖动距离
+   */
+  const finishDrag = useCallback((record: TimeRecord, siblings: TimeRecord[], index: number, dy: number) => {
+    setDrag(null);
+    const heights = siblings.map(sibling => recordHeights.current[sibling.id] ?? 0);
+    const targetIndex = getDropIndex(heights, index, dy);
+    if (targetIndex !== index) {
+      dispatchCommand({ type: 'move', recordId: record.id, parentId: record.parentId, index: targetIndex });
+    }
+  }, [dispatchCommand]);
+
   /**
    * 格式化日期
    * @param date - 要格式化的日期对象
@@ -390,43 +574,29 @@ export default function RecorderExecutionScreen() {
     }
   }, []);
 
+  // 滚动到高亮的记录，几秒后取消高亮
+  useEffect(() => {
+    if (!highlightedRecordId) {
+      return;
+    }
+    scrollToEditingRecord(highlightedRecordId);
+    const timeout = setTimeout(() => setHighlightedRecordId(null), 2500);
+    return () => clearTimeout(timeout);
+  }, [highlightedRecordId, scrollToEditingRecord]);
+
   // 修改开始编辑记录的处理函数
   const startEditingRecord = useCallback((recordId: string) => {
     setEditingRecordId(recordId);
-    setTimeRecords(prev => {
-      const updateEditing = (records: TimeRecord[]): TimeRecord[] => {
-        return records.map(record => {
-          if (record.id === recordId) {
-            return { ...record, isEditing: true };
-          }
-          return {
-            ...record,
-            children: updateEditing(record.children)
-          };
-        });
-      };
-      return updateEditing(prev);
-    });
+    editSnapshotRef.current = timeRecordsRef.current;
+    setTimeRecords(prev => updateRecordById(prev, recordId, record => ({ ...record, isEditing: true })));
     scrollToEditingRecord(recordId);
   }, [scrollToEditingRecord]);
 
   // 修改开始编辑笔记的处理函数
   const startEditingNote = useCallback((recordId: string) => {
     setEditingRecordId(recordId);
-    setTimeRecords(prev => {
-      const updateEditingNote = (records: TimeRecord[]): TimeRecord[] => {
-        return records.map(record => {
-          if (record.id === recordId) {
-            return { ...record, isEditingNote: true };
-          }
-          return {
-            ...record,
-            children: updateEditingNote(record.children)
-          };
-        });
-      };
-      return updateEditingNote(prev);
-    });
+    editSnapshotRef.current = timeRecordsRef.current;
+    setTimeRecords(prev => updateRecordById(prev, recordId, record => ({ ...record, isEditingNote: true })));
     scrollToEditingRecord(recordId);
   }, [scrollToEditingRecord]);
 
@@ -437,20 +607,41 @@ export default function RecorderExecutionScreen() {
   const renderTimeRecord = ({ 
     item,
     depth = 0,
-    isLastChild = false 
+    isLastChild = false,
+    siblings = [],
+    index = 0
   }: {
     item: TimeRecord;
     depth?: number;
     isLastChild?: boolean;
+    siblings?: TimeRecord[];
+    index?: number;
   }) => (
     <View 
       key={item.id} 
       ref={ref => recordRefs.current[item.id] = ref}
-      style={styles.recordContainer}
+      style={[
+        styles.recordContainer,
+        drag?.recordId === item.id && [styles.draggingRecord, { transform: [{ translateY: drag.dy }] }]
+      ]}
       collapsable={false}
+      onLayout={event => recordHeights.current[item.id] = event.nativeEvent.layout.height}
     >
-      <View style={[styles.recordItem, { marginLeft: depth * 24 }]}>
+      <View style={[
+        styles.recordItem,
+        { marginLeft: depth * 24 },
+        item.id === highlightedRecordId && styles.highlightedRecordItem
+      ]}>
         <View style={styles.recordHeader}>
+          {/* 拖动排序手柄，只有存在兄弟记录时显示 */}
+          {siblings.length > 1 && (
+            <DragHandle
+              onDragStart={() => setDrag({ recordId: item.id, dy: 0 })}
+              onDragMove={dy => setDrag({ recordId: item.id, dy })}
+              onDragEnd={dy => finishDrag(item, siblings, index, dy)}
+            />
+          )}
+
           {/* 折叠按钮移到这里 */}
           {item.children.length > 0 && (
             <TouchableOpacity 
@@ -481,20 +672,7 @@ export default function RecorderExecutionScreen() {
                   style={styles.labelInput}
                   value={item.label}
                   onChangeText={(text) => {
-                    setTimeRecords(prev => {
-                      const updateLabel = (records: TimeRecord[]): TimeRecord[] => {
-                        return records.map(record => {
-                          if (record.id === item.id) {
-                            return { ...record, label: text };
-                          }
-                          return {
-                            ...record,
-                            children: updateLabel(record.children)
-                          };
-                        });
-                      };
-                      return updateLabel(prev);
-                    });
+                    setTimeRecords(prev => updateRecordById(prev, item.id, record => ({ ...record, label: text })));
                   }}
                   placeholder="Enter title..."
                   autoFocus
@@ -511,6 +689,23 @@ export default function RecorderExecutionScreen() {
               )}
             </TouchableOpacity>
 
+            {/* 标签 */}
+            {resolveTags(item.tagIds, tags).length > 0 && (
+              <View style={styles.tagRow}>
+                {resolveTags(item.tagIds, tags).map(tag => (
+                  <View key={tag.id} style={[styles.tagChip, { backgroundColor: tag.color }]}>
+                    <Text style={styles.tagChipText}>{tag.name}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {/* 预估时间进度 */}
+            {renderBudget(item)}
+
+            {/* 番茄钟状态 */}
+            {item.pomodoro && renderPomodoroStatus(item)}
+
             {/* 添加感想部分 */}
             <TouchableOpacity 
               style={styles.noteContainer}
@@ -521,71 +716,14 @@ export default function RecorderExecutionScreen() {
                   style={styles.noteInput}
                   value={item.note}
                   onChangeText={(text) => {
-                    setTimeRecords(prev => {
-                      const updateNote = (records: TimeRecord[]): TimeRecord[] => {
-                        return records.map(record => {
-                          if (record.id === item.id) {
-                            return { ...record, note: text };
-                          }
-                          return {
-                            ...record,
-                            children: updateNote(record.children)
-                          };
-                        });
-                      };
-                      return updateNote(prev);
-                    });
+                    setTimeRecords(prev => applyTimerCommand(prev, { type: 'setNote', recordId: item.id, note: text }));
                   }}
                   placeholder="Add your thoughts..."
                   multiline
                   autoFocus
                   blurOnSubmit={true}
-                  onBlur={() => {
-                    // 创建一个保存并退出编辑状态的函数
-                    const saveAndExitEdit = () => {
-                      setTimeRecords(prev => {
-                        const updateNote = (records: TimeRecord[]): TimeRecord[] => {
-                          return records.map(record => {
-                            if (record.id === item.id) {
-                              return { ...record, isEditingNote: false };
-                            }
-                            return {
-                              ...record,
-                              children: updateNote(record.children)
-                            };
-                          });
-                        };
-                        const newRecords = updateNote(prev);
-                        // 保存更新后的记录
-                        storageService.saveRecord(newRecords[0]);
-                        return newRecords;
-                      });
-                    };
-                    saveAndExitEdit();
-                  }}
-                  onSubmitEditing={() => {
-                    // 在提交时也调用相同的保存和退出编辑状态的逻辑
-                    const saveAndExitEdit = () => {
-                      setTimeRecords(prev => {
-                        const updateNote = (records: TimeRecord[]): TimeRecord[] => {
-                          return records.map(record => {
-                            if (record.id === item.id) {
-                              return { ...record, isEditingNote: false };
-                            }
-                            return {
-                              ...record,
-                              children: updateNote(record.children)
-                            };
-                          });
-                        };
-                        const newRecords = updateNote(prev);
-                        // 保存更新后的记录
-                        storageService.saveRecord(newRecords[0]);
-                        return newRecords;
-                      });
-                    };
-                    saveAndExitEdit();
-                  }}
+                  onBlur={() => finishEditingNote(item.id)}
+                  onSubmitEditing={() => finishEditingNote(item.id)}
                 />
               ) : (
                 <View style={styles.noteDisplay}>
@@ -628,48 +766,42 @@ export default function RecorderExecutionScreen() {
               {/* 添加休息按钮 */}
               <TouchableOpacity 
                 style={[styles.addButton, styles.breakButton]}
-                onPress={() => {
-                  const newId = Date.now().toString();
-                  const newRecord: TimeRecord = {
-                    id: newId,
-                    time: 0,
-                    baseTime: 0,  // 初始化基础时间为0
-                    isRunning: false,
-                    label: 'Break',
-                    children: [],
-                    parentId: item.id,
-                    isCollapsed: false,
-                    avatarColor: '#FFB6C1', // 使用柔和的粉色作为休息记录的标识色
-                    createdAt: new Date(),
-                    isEditing: false,
-                    note: '',
-                    isEditingNote: false,
-                  };
-
-                  setTimeRecords(prev => {
-                    const updateRecordTree = (records: TimeRecord[]): TimeRecord[] => {
-                      return records.map(record => {
-                        if (record.id === item.id) {
-                          return {
-                            ...record,
-                            children: [...record.children, newRecord]
-                          };
-                        }
-                        return {
-                          ...record,
-                          children: updateRecordTree(record.children)
-                        };
-                      });
-                    };
-                    const newRecords = updateRecordTree(prev);
-                    // 保存更新后的记录
-                    storageService.saveRecord(newRecords[0]);
-                    return newRecords;
-                  });
-                }}
+                onPress={() => addBreakRecord(item.id)}
               >
                 <Text style={styles.addButtonText}>☕</Text>
               </TouchableOpacity>
+
+              {/* 番茄钟按钮 */}
+              <TouchableOpacity 
+                style={[styles.addButton, item.pomodoro && styles.pomodoroButtonActive]}
+                onPress={() => togglePomodoro(item)}
+              >
+                <Text style={styles.addButtonText}>🍅</Text>
+              </TouchableOpacity>
+
+              {/* 标签按钮 */}
+              <TouchableOpacity 
+                style={styles.addButton}
+                onPress={() => setTaggingRecordId(item.id)}
+              >
+                <Text style={styles.addButtonText}>🏷</Text>
+              </TouchableOpacity>
+
+              {/* 编辑计时段按钮 */}
+              <TouchableOpacity 
+                style={styles.addButton}
+                onPress={() => setTimingRecordId(item.id)}
+              >
+                <Text style={styles.addButtonText}>🕘</Text>
+              </TouchableOpacity>
+
+              {/* 更多操作（保存为模板、移动、删除），根记录在首页删除 */}
+              <TouchableOpacity 
+                style={styles.addButton}
+                onPress={() => showRecordActions(item, depth === 0)}
+              >
+                <Text style={styles.addButtonText}>⋯</Text>
+              </TouchableOpacity>
             </View>
           </View>
         </View>
@@ -682,7 +814,9 @@ export default function RecorderExecutionScreen() {
             renderTimeRecord({
               item: child,
               depth: depth + 1, // 增加子项的深度
-              isLastChild: index === item.children.length - 1
+              isLastChild: index === item.children.length - 1,
+              siblings: item.children,
+              index
             })
           )}
         </View>
@@ -720,6 +854,24 @@ export default function RecorderExecutionScreen() {
                 <Text style={styles.headerButtonText}>Back</Text>
               </TouchableOpacity>
             ),
+            headerRight: () => (
+              <View style={styles.headerActions}>
+                <TouchableOpacity
+                  onPress={handleUndo}
+                  disabled={history.past.length === 0}
+                  style={styles.headerIconButton}
+                >
+                  <Ionicons name="arrow-undo" size={22} color={history.past.length > 0 ? '#2196F3' : '#ccc'} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={handleRedo}
+                  disabled={history.future.length === 0}
+                  style={styles.headerIconButton}
+                >
+                  <Ionicons name="arrow-redo" size={22} color={history.future.length > 0 ? '#2196F3' : '#ccc'} />
+                </TouchableOpacity>
+              </View>
+            ),
           }}
         />
 
@@ -729,6 +881,7 @@ export default function RecorderExecutionScreen() {
           style={styles.scrollView}
           contentContainerStyle={styles.scrollViewContent}
           keyboardShouldPersistTaps="handled"
+          scrollEnabled={drag === null}
         >
           <View style={styles.content}>
             <View style={styles.recordsList}>
@@ -736,6 +889,48 @@ export default function RecorderExecutionScreen() {
             </View>
           </View>
         </ScrollView>
+
+        {/* 标签选择弹窗 */}
+        <TagPickerModal
+          visible={taggingRecordId !== null}
+          tags={tags}
+          selectedIds={(taggingRecordId && findRecordById(timeRecords, taggingRecordId)?.tagIds) || []}
+          onToggle={toggleRecordTag}
+          onChangeTags={updateTags}
+          onClose={() => setTaggingRecordId(null)}
+        />
+
+        {/* 计时段编辑弹窗 */}
+        <IntervalEditorModal
+          visible={timingRecordId !== null}
+          record={timingRecordId ? findRecordById(timeRecords, timingRecordId) : null}
+          onAdd={interval => dispatchCommand({ type: 'addInterval', recordId: timingRecordId!, interval })}
+          onUpdate={(index, interval) => dispatchCommand({ type: 'updateInterval', recordId: timingRecordId!, index, interval })}
+          onDelete={index => dispatchCommand({ type: 'deleteInterval', recordId: timingRecordId!, index })}
+          onStopAt={time => dispatchCommand({ type: 'stopAt', recordId: timingRecordId!, time })}
+          onSetEstimate={estimate => dispatchCommand({ type: 'setEstimate', recordId: timingRecordId!, estimate })}
+          onSetPolicy={policy => dispatchCommand({ type: 'setPolicy', recordId: timingRecordId!, policy })}
+          onClose={() => setTimingRecordId(null)}
+        />
+
+        {/* 忘记停止的计时 */}
+        <IdleTimerModal
+          idleTimer={idleTimer}
+          onResolve={(decision, keptUntil) => {
+            dispatchCommand({ type: 'resolveIdle', recordId: idleTimer!.recordId, decision, keptUntil });
+            dismissIdleTimer();
+          }}
+          onClose={dismissIdleTimer}
+        />
+
+        {/* 移动目标选择弹窗 */}
+        <MoveTargetModal
+          visible={movingRecordId !== null}
+          recordLabel={(movingRecordId && findRecordById(timeRecords, movingRecordId)?.label) || ''}
+          targets={buildMoveTargets()}
+          onSelect={handleMoveTarget}
+          onClose={() => setMovingRecordId(null)}
+        />
       </View>
     </KeyboardAvoidingView>
   );
@@ -771,6 +966,14 @@ const styles = StyleSheet.create({
     color: '#2196F3',
     fontSize: 16,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerIconButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+  },
 
   // 记录列表样式
   recordsList: {
@@ -781,6 +984,11 @@ const styles = StyleSheet.create({
   recordContainer: {
     marginBottom: 8,
   },
+  draggingRecord: {
+    zIndex: 10,
+    elevation: 4,
+    opacity: 0.9,
+  },
 
   // 记录项样式
   recordItem: {
@@ -793,6 +1001,11 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     gap: 8,
   },
+  highlightedRecordItem: {
+    backgroundColor: '#FFF8E1',
+    borderWidth: 1,
+    borderColor: '#FFC107',
+  },
 
   // 头像样式
   avatar: {
@@ -965,4 +1178,42 @@ const styles = StyleSheet.create({
   breakButton: {
     backgroundColor: '#FFF0F5', // 使用柔和的粉色背景
   },
+
+  // 标签样式
+  tagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+    marginBottom: 4,
+  },
+  tagChip: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  tagChipText: {
+    fontSize: 12,
+    color: '#fff',
+    fontWeight: '500',
+  },
+  pomodoroRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+    marginBottom: 4,
+  },
+  pomodoroText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#E53935',
+  },
+  pomodoroAction: {
+    fontSize: 13,
+    color: '#2196F3',
+    fontWeight: '500',
+  },
+  pomodoroButtonActive: {
+    backgroundColor: '#FFCDD2',
+  },
 }); 
\ No newline at end of file
@@ -0,0 +1,239 @@
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Alert, Switch } from 'react-native';
+import { Stack } from 'expo-router';
+import { useState } from 'react';
+import storageService from '@/services/storage/index';
+import { BACKUP_MIME_TYPE, BackupValidationError, exportBackup, importBackup, ImportMode } from '@/services/backup';
+import { pickTextFile, shareTextFile } from '@/services/files';
+import { CSV_MIME_TYPE, exportCsv, exportIcs, ICS_MIME_TYPE } from '@/services/export';
+import { TimeRange } from '@/services/timer';
+import { loadTags } from '@/services/tags';
+
+type ExportPeriod = 'all' | 'today' | 'week' | 'month';
+
+const EXPORT_PERIODS: { key: ExportPeriod; label: string }[] = [
+  { key: 'all', label: 'All time' },
+  { key: 'today', label: 'Today' },
+  { key: 'week', label: '7 days' },
+  { key: 'month', label: '30 days' },
+];
+
+// 导出时间段对应的时间范围，从若干天前的零点到现在
+const periodRange = (period: ExportPeriod): TimeRange | undefined => {
+  if (period === 'all') {
+    return undefined;
+  }
+  const days = period === 'today' ? 1 : period === 'week' ? 7 : 30;
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - (days - 1));
+  return { start: start.getTime(), end: Date.now() };
+};
+
+// 生成带日期的导出文件名，例如 recorder-backup-2025-01-31.json
+const datedFileName = (prefix: string, extension: string) =>
+  `${prefix}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+export default function DataScreen() {
+  const [isBusy, setIsBusy] = useState(false);
+  const [exportPeriod, setExportPeriod] = useState<ExportPeriod>('all');
+  const [includeBreaks, setIncludeBreaks] = useState(true);
+
+  // 执行耗时操作，期间禁用按钮并统一处理错误
+  const runTask = async (task: () => Promise<void>, errorMessage: string) => {
+    setIsBusy(true);
+    try {
+      await task();
+    } catch (error) {
+      console.error(errorMessage, error);
+      Alert.alert(
+        "Error",
+        error instanceof BackupValidationError ? error.message : errorMessage
+      );
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // 导出完整备份
+  const handleExportBackup = () => runTask(async () => {
+    const json = await exportBackup(storageService);
+    await shareTextFile(datedFileName('recorder-backup', 'json'), json, BACKUP_MIME_TYPE);
+  }, "Failed to export the backup. Please try again.");
+
+  // 导出表格文件
+  const handleExportCsv = () => runTask(async () => {
+    const tags = await loadTags(storageService);
+    const csv = await exportCsv(storageService, { range: periodRange(exportPeriod), includeBreaks, tags });
+    await shareTextFile(datedFileName('recorder-time', 'csv'), csv, CSV_MIME_TYPE);
+  }, "Failed to export the spreadsheet. Please try again.");
+
+  // 导出日历文件
+  const handleExportIcs = () => runTask(async () => {
+    const ics = await exportIcs(storageService, { range: periodRange(exportPeriod), includeBreaks });
+    await shareTextFile(datedFileName('recorder-sessions', 'ics'), ics, ICS_MIME_TYPE);
+  }, "Failed to export the calendar. Please try again.");
+
+  // 导入备份文件
+  const importWithMode = (json: string, mode: ImportMode) => runTask(async () => {
+    const count = await importBackup(storageService, json, mode);
+    Alert.alert("Import Complete", `Imported ${count} recording${count === 1 ? '' : 's'}.`);
+  }, "Failed to import the backup. Please try again.");
+
+  const handleImportBackup = () => runTask(async () => {
+    const json = await pickTextFile(BACKUP_MIME_TYPE);
+    if (!json) {
+      return;
+    }
+    Alert.alert(
+      "Import Backup",
+      "Merge keeps your current recordings, tags, templates, schedules and goals and overwrites those with the same ID; your settings stay as they are. Replace deletes all of them, including the Trash, and restores the backup's settings.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Merge", onPress: () => importWithMode(json, 'merge') },
+        { text: "Replace", style: "destructive", onPress: () => importWithMode(json, 'replace') }
+      ]
+    );
+  }, "Failed to read the backup file.");
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen
+        options={{
+          title: 'Data',
+          headerShown: true,
+        }}
+      />
+
+      <ScrollView contentContainerStyle={styles.scrollViewContent}>
+        {/* 备份与恢复 */}
+        <Text style={styles.sectionTitle}>Backup</Text>
+        <View style={styles.section}>
+          <TouchableOpacity
+            style={[styles.actionButton, isBusy && styles.disabledButton]}
+            disabled={isBusy}
+            onPress={handleExportBackup}
+          >
+            <Text style={styles.actionButtonText}>Export backup</Text>
+            <Text style={styles.actionDescription}>Save every recording to a JSON file</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, isBusy && styles.disabledButton]}
+            disabled={isBusy}
+            onPress={handleImportBackup}
+          >
+            <Text style={styles.actionButtonText}>Import backup</Text>
+            <Text style={styles.actionDescription}>Restore recordings from a backup file</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* 表格与日历导出 */}
+        <Text style={styles.sectionTitle}>Export</Text>
+        <View style={styles.section}>
+          <View style={styles.chipRow}>
+            {EXPORT_PERIODS.map(period => (
+              <TouchableOpacity
+                key={period.key}
+                style={[styles.chip, exportPeriod === period.key && styles.chipSelected]}
+                onPress={() => setExportPeriod(period.key)}
+              >
+                <Text style={[styles.chipText, exportPeriod === period.key && styles.chipTextSelected]}>
+                  {period.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.optionRow}>
+            <Text style={styles.optionLabel}>Include breaks</Text>
+            <Switch value={includeBreaks} onValueChange={setIncludeBreaks} />
+          </View>
+          <TouchableOpacity
+            style={[styles.actionButton, isBusy && styles.disabledButton]}
+            disabled={isBusy}
+            onPress={handleExportCsv}
+          >
+            <Text style={styles.actionButtonText}>Export CSV</Text>
+            <Text style={styles.actionDescription}>One row per task with its path, note and tracked seconds</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, isBusy && styles.disabledButton]}
+            disabled={isBusy}
+            onPress={handleExportIcs}
+          >
+            <Text style={styles.actionButtonText}>Export calendar</Text>
+            <Text style={styles.actionDescription}>One .ics event per work session, to show next to your meetings</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  scrollViewContent: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  section: {
+    gap: 12,
+    marginBottom: 16,
+  },
+  actionButton: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    padding: 12,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  actionButtonText: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#2196F3',
+    marginBottom: 4,
+  },
+  actionDescription: {
+    fontSize: 12,
+    color: '#666',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f8f9fa',
+  },
+  chipSelected: {
+    backgroundColor: '#2196F3',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  optionLabel: {
+    fontSize: 16,
+    color: '#333',
+  },
+});
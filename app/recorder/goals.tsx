@@ -0,0 +1,385 @@
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Alert } from 'react-native';
+import { Stack, useFocusEffect } from 'expo-router';
+import { useState, useCallback } from 'react';
+import storageService, { TimeRecord } from '@/services/storage/index';
+import {
+  ALL_WEEKDAYS,
+  Goal,
+  GoalScope,
+  getGoalHistory,
+  loadGoals,
+  resolveGoalScope,
+  saveGoals,
+  WORKDAYS,
+} from '@/services/goals';
+import { formatDuration, ReportPeriod } from '@/services/reports';
+import { loadTags, Tag } from '@/services/tags';
+import { Ionicons } from '@expo/vector-icons';
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// 每日与每周目标的可调范围（分钟）
+const TARGET_STEPS: Record<ReportPeriod, { min: number; max: number; step: number; initial: number }> = {
+  day: { min: 15, max: 16 * 60, step: 15, initial: 4 * 60 },
+  week: { min: 60, max: 80 * 60, step: 60, initial: 20 * 60 },
+};
+
+// 目标的简要描述，例如 "4h 00m a day · Mon, Tue, Wed"
+const describeGoal = (goal: Goal) => {
+  const target = `${formatDuration(goal.targetMinutes * 60)} a ${goal.period}`;
+  if (goal.period === 'week' || !goal.weekdays || goal.weekdays.length === ALL_WEEKDAYS.length) {
+    return target;
+  }
+  const days = ALL_WEEKDAYS.filter(day => goal.weekdays?.includes(day)).map(day => WEEKDAY_NAMES[day]);
+  return `${target} · ${days.join(', ')}`;
+};
+
+// 目标范围的唯一键，用于列表 key 和比较
+const scopeKey = (scope: GoalScope) =>
+  scope.type === 'all' ? 'all' : scope.type === 'tag' ? `tag-${scope.tagId}` : `root-${scope.rootId}`;
+
+export default function GoalsScreen() {
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [trees, setTrees] = useState<TimeRecord[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  // 新目标的草稿
+  const [scope, setScope] = useState<GoalScope>({ type: 'all' });
+  const [period, setPeriod] = useState<ReportPeriod>('day');
+  const [targetMinutes, setTargetMinutes] = useState(TARGET_STEPS.day.initial);
+  const [weekdays, setWeekdays] = useState<number[]>(WORKDAYS);
+
+  // 每次进入页面时重新加载目标、记录和标签
+  useFocusEffect(
+    useCallback(() => {
+      loadGoals(storageService).then(setGoals);
+      storageService.loadRecords().then(setTrees);
+      loadTags(storageService).then(setTags);
+    }, [])
+  );
+
+  const updateGoals = (next: Goal[]) => {
+    setGoals(next);
+    saveGoals(storageService, next).catch(error => {
+      console.error('Error saving goals:', error);
+      Alert.alert("Error", "Failed to save goals. Please try again.");
+    });
+  };
+
+  const changePeriod = (next: ReportPeriod) => {
+    setPeriod(next);
+    setTargetMinutes(TARGET_STEPS[next].initial);
+  };
+
+  const changeTarget = (delta: number) => {
+    const { min, max } = TARGET_STEPS[period];
+    setTargetMinutes(Math.min(max, Math.max(min, targetMinutes + delta)));
+  };
+
+  const toggleWeekday = (day: number) =>
+    setWeekdays(weekdays.includes(day) ? weekdays.filter(item => item !== day) : [...weekdays, day]);
+
+  const handleAddGoal = () => {
+    if (period === 'day' && weekdays.length === 0) {
+      Alert.alert("No Days Selected", "Pick at least one day for this goal.");
+      return;
+    }
+    const goal: Goal = {
+      id: Date.now().toString(),
+      scope,
+      period,
+      targetMinutes,
+      // 每天都适用时不保存星期
+      weekdays: period === 'day' && weekdays.length < ALL_WEEKDAYS.length ? weekdays : undefined,
+    };
+    updateGoals([...goals, goal]);
+  };
+
+  const handleDeleteGoal = (goal: Goal, label: string) => {
+    Alert.alert(
+      "Delete Goal",
+      `Delete the goal for "${label}"?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Delete", style: "destructive", onPress: () => updateGoals(goals.filter(item => item.id !== goal.id)) }
+      ]
+    );
+  };
+
+  const scopeOptions: GoalScope[] = [
+    { type: 'all' },
+    ...tags.map(tag => ({ type: 'tag' as const, tagId: tag.id })),
+    ...trees.map(tree => ({ type: 'root' as const, rootId: tree.id })),
+  ];
+
+  const renderGoal = (goal: Goal) => {
+    const resolved = resolveGoalScope(goal.scope, trees, tags);
+    const label = resolved?.label ?? 'Deleted';
+    // 最近 7 个周期，从早到晚
+    const history = getGoalHistory(trees, goal, Date.now(), 7).reverse();
+    return (
+      <View key={goal.id} style={styles.goalItem}>
+        <View style={styles.goalHeader}>
+          <View style={[styles.colorDot, { backgroundColor: resolved?.color ?? '#ccc' }]} />
+          <View style={styles.goalText}>
+            <Text style={[styles.goalLabel, !resolved && styles.deletedLabel]} numberOfLines={1}>{label}</Text>
+            <Text style={styles.goalDescription}>{describeGoal(goal)}</Text>
+          </View>
+          <TouchableOpacity onPress={() => handleDeleteGoal(goal, label)}>
+            <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+          </TouchableOpacity>
+        </View>
+        <View style={styles.historyRow}>
+          {history.map(result => (
+            <View
+              key={result.range.start}
+              style={[
+                styles.historyDot,
+                result.isMet && styles.historyDotMet,
+                !result.isActive && styles.historyDotInactive,
+              ]}
+            />
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen
+        options={{
+          title: 'Goals',
+          headerShown: true,
+        }}
+      />
+
+      <ScrollView contentContainerStyle={styles.scrollViewContent}>
+        {/* 已有目标 */}
+        {goals.length === 0 && (
+          <Text style={styles.emptyText}>No goals yet. Add one below to track it on the home screen.</Text>
+        )}
+        {goals.map(renderGoal)}
+
+        {/* 新建目标 */}
+        <Text style={styles.sectionTitle}>New goal</Text>
+        <View style={styles.section}>
+          <Text style={styles.optionDescription}>Count time spent on:</Text>
+          <View style={styles.chipRow}>
+            {scopeOptions.map(option => {
+              const resolved = resolveGoalScope(option, trees, tags);
+              const selected = scopeKey(option) === scopeKey(scope);
+              return resolved && (
+                <TouchableOpacity
+                  key={scopeKey(option)}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => setScope(option)}
+                >
+                  {option.type === 'tag' && <View style={[styles.colorDot, { backgroundColor: resolved.color }]} />}
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]} numberOfLines={1}>
+                    {resolved.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <View style={styles.chipRow}>
+            {(['day', 'week'] as ReportPeriod[]).map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, period === option && styles.chipSelected]}
+                onPress={() => changePeriod(option)}
+              >
+                <Text style={[styles.chipText, period === option && styles.chipTextSelected]}>
+                  {option === 'day' ? 'Daily' : 'Weekly'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.optionRow}>
+            <Text style={styles.optionLabel}>Target</Text>
+            <View style={styles.stepper}>
+              <TouchableOpacity style={styles.stepperButton} onPress={() => changeTarget(-TARGET_STEPS[period].step)}>
+                <Text style={styles.stepperButtonText}>−</Text>
+              </TouchableOpacity>
+              <Text style={styles.stepperValue}>{formatDuration(targetMinutes * 60)}</Text>
+              <TouchableOpacity style={styles.stepperButton} onPress={() => changeTarget(TARGET_STEPS[period].step)}>
+                <Text style={styles.stepperButtonText}>+</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          {period === 'day' && (
+            <View style={styles.chipRow}>
+              {ALL_WEEKDAYS.map(day => (
+                <TouchableOpacity
+                  key={day}
+                  style={[styles.chip, weekdays.includes(day) && styles.chipSelected]}
+                  onPress={() => toggleWeekday(day)}
+                >
+                  <Text style={[styles.chipText, weekdays.includes(day) && styles.chipTextSelected]}>
+                    {WEEKDAY_NAMES[day]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          <TouchableOpacity style={styles.addButton} onPress={handleAddGoal}>
+            <Text style={styles.addButtonText}>Add Goal</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  scrollViewContent: {
+    padding: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    marginBottom: 16,
+  },
+  goalItem: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+    gap: 8,
+  },
+  goalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  goalText: {
+    flex: 1,
+  },
+  goalLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+  },
+  deletedLabel: {
+    fontStyle: 'italic',
+    color: '#999',
+  },
+  goalDescription: {
+    fontSize: 12,
+    color: '#666',
+  },
+  historyRow: {
+    flexDirection: 'row',
+    gap: 6,
+    marginLeft: 18,
+  },
+  historyDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: '#e9ecef',
+  },
+  historyDotMet: {
+    backgroundColor: '#4CAF50',
+  },
+  historyDotInactive: {
+    opacity: 0.3,
+  },
+  colorDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  section: {
+    gap: 12,
+    marginBottom: 16,
+  },
+  optionDescription: {
+    fontSize: 14,
+    color: '#666',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    maxWidth: '100%',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f8f9fa',
+  },
+  chipSelected: {
+    backgroundColor: '#2196F3',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  optionLabel: {
+    fontSize: 16,
+    color: '#333',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#f8f9fa',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperButtonText: {
+    fontSize: 18,
+    color: '#2196F3',
+  },
+  stepperValue: {
+    minWidth: 72,
+    textAlign: 'center',
+    fontSize: 15,
+    color: '#333',
+  },
+  addButton: {
+    backgroundColor: '#2196F3',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
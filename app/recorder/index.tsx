@@ -1,10 +1,23 @@
-import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Alert } from 'react-native';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Alert, AppState } from 'react-native';
 import { Stack, useRouter, useFocusEffect } from 'expo-router';
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import storageService, { TimeRecord } from '@/services/storage/index';
+import { ActiveTimer, advanceStoredPomodoros, applyTimerCommand, createTimeRecord, getActiveTimers, getBudgetProgress, getElapsedTime, stopTree } from '@/services/timer';
+import { loadTags, resolveTags, subtreeHasTag, Tag } from '@/services/tags';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import Swipeable from 'react-native-gesture-handler/Swipeable';
 import { Ionicons } from '@expo/vector-icons';
+import { useIdleDetection } from '@/hooks/useIdleDetection';
+import IdleTimerModal from '@/components/IdleTimerModal';
+import BudgetBar from '@/components/BudgetBar';
+import GoalCard from '@/components/GoalCard';
+import { Goal, getGoalProgress, loadGoals, resolveGoalScope } from '@/services/goals';
+import { loadSettings } from '@/services/settings';
+import { instantiateTemplate, loadTemplates, RecordTemplate, saveTemplates } from '@/services/templates';
+import TemplatePickerModal from '@/components/TemplatePickerModal';
+import ActiveTimerBanner from '@/components/ActiveTimerBanner';
+import { createScheduledRecords } from '@/services/schedules';
+import { IdleDecision } from '@/services/storage/interfaces';
 
 
 // 使用与 [id].tsx 相同的 TimeRecord 接口
@@ -15,6 +28,16 @@ export default function Home() {
   const [rootRecords, setRootRecords] = useState<TimeRecord[]>([]);
   const swipeableRefs = useRef<{ [key: string]: Swipeable | null }>({});
   const [currentTime, setCurrentTime] = useState<number>(Date.now());
+  // 标签筛选：选中的标签
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [selectedTagId, setSelectedTagId] = useState<string | null>(null);
+  const activeTagId = tags.some(tag => tag.id === selectedTagId) ? selectedTagId : null;
+  const [goals, setGoals] = useState<Goal[]>([]);
+  // 是否显示已归档的记录
+  const [showArchived, setShowArchived] = useState(false);
+  // 模板：有模板时点击 + 先选择模板
+  const [templates, setTemplates] = useState<RecordTemplate[]>([]);
+  const [isPickingTemplate, setIsPickingTemplate] = useState(false);
 
   // Update timer for running records
   useEffect(() => {
@@ -27,11 +50,7 @@ export default function Home() {
 
   // Update records time calculation
   const getUpdatedTime = useCallback((record: TimeRecord) => {
-    if (record.isRunning && record.startTime) {
-      const elapsedSeconds = Math.floor((Date.now() - record.startTime) / 1000);
-      return record.baseTime + elapsedSeconds;
-    }
-    return record.time || 0;
+    return getElapsedTime(record, Date.now());
   }, []);
 
   // 格式化时间
@@ -40,31 +59,42 @@ export default function Home() {
     const secs = Math.floor(seconds % 60);
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
-  const handleAddRecorder = async () => {
+  const handleAddRecorder = () => {
+    if (templates.length > 0) {
+      setIsPickingTemplate(true);
+    } else {
+      createRecorder(null);
+    }
+  };
+
+  // 新建空记录，或按模板创建整棵记录树
+  const createRecorder = async (template: RecordTemplate | null) => {
+    setIsPickingTemplate(false);
     const newId = Date.now().toString();
-    const existingRecords = await storageService.loadRecords();
     
     // Create new record
-    const newRecord = {
-      id: newId,
-      time: 0,
-      isRunning: false,
-      label: 'Todo...',
-      children: [],
-      parentId: null,
-      isCollapsed: false,
-      avatarColor: generateRandomColor(),
-      createdAt: new Date(),
-      isEditing: false,
-      baseTime: 0
-    };
+    const newRecord = template
+      ? instantiateTemplate(template, newId, new Date())
+      : createTimeRecord({
+          id: newId,
+          label: 'Todo...',
+          parentId: null,
+          avatarColor: generateRandomColor(),
+          createdAt: new Date(),
+        });
  
-    await storageService.saveRecords([...existingRecords, newRecord]);
+    await storageService.saveRecord(newRecord);
     
     // Navigate to recorder page
     router.push(`/recorder/${newId}`);
   };
 
+  // 重命名或删除模板后保存
+  const updateTemplates = (next: RecordTemplate[]) => {
+    setTemplates(next);
+    saveTemplates(storageService, next).catch(error => console.error('Error saving templates:', error));
+  };
+
   // 格式化日期
   const formatDate = (date: Date) => {
     return new Date(date).toLocaleDateString('en-US', {
@@ -76,49 +106,155 @@ export default function Home() {
     });
   };
 
-  // 当页面获得焦点时重新加载记录
+  // 加载根记录及其子记录，预估汇总和标签筛选都需要完整的记录树
+  const loadSavedRecords = useCallback(async () => {
+    // 先补上应用关闭期间结束的番茄钟阶段
+    await advanceStoredPomodoros(storageService, Date.now())
+      .catch(error => console.error('Error advancing Pomodoro timers:', error));
+    // 按定时计划创建到期的记录
+    await createScheduledRecords(storageService, Date.now())
+      .catch(error => console.error('Error creating scheduled records:', error));
+    // 永久删除回收站中超过保留天数的记录
+    const { trashRetentionDays } = await loadSettings(storageService);
+    if (trashRetentionDays > 0) {
+      await storageService.purgeTrash(Date.now() - trashRetentionDays * 24 * 60 * 60 * 1000)
+        .catch(error => console.error('Error purging trash:', error));
+    }
+    const savedRecords = await storageService.loadRecords();
+    // Update elapsed time for running records
+    const now = Date.now();
+
+    // 更新运行中的记录时间
+    const updatedRecords = savedRecords.map(record => ({
+      ...record,
+      time: getElapsedTime(record, now)
+    }));
+
+    // 对记录进行排序
+    const sortedRecords = updatedRecords.sort((a, b) => {
+      // 首先按照运行状态排序（正在运行的排在前面）
+      const aRunning = isTreeRunning(a);
+      const bRunning = isTreeRunning(b);
+      if (aRunning && !bRunning) return -1;
+      if (!aRunning && bRunning) return 1;
+      
+      // 如果运行状态相同，按照创建时间排序（最新的排在前面）
+      return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+    });
+
+    setRootRecords(sortedRecords);
+  }, []);
+
+  // 当页面获得焦点或应用回到前台时重新加载记录
   useFocusEffect(
     useCallback(() => {
-      const loadSavedRecords = async () => {
-        const savedRecords = await storageService.loadRecords();
-        // Update elapsed time for running records
-        const updateElapsedTime = (record: TimeRecord): TimeRecord => {
-          if (record.isRunning && record.startTime) {
-            const now = Date.now();
-            const elapsedSeconds = Math.floor((now - record.startTime) / 1000);
-            return {
-              ...record,
-              time: record.baseTime + elapsedSeconds
-            };
-          }
-          return record;
-        };
-
-        // 更新运行中的记录时间
-        const updatedRecords = savedRecords.map(record => updateElapsedTime(record));
-
-        // 对记录进行排序
-        const sortedRecords = updatedRecords.sort((a, b) => {
-          // 首先按照运行状态排序（正在运行的排在前面）
-          if (a.isRunning && !b.isRunning) return -1;
-          if (!a.isRunning && b.isRunning) return 1;
-          
-          // 如果运行状态相同，按照创建时间排序（最新的排在前面）
-          return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-        });
+      const subscription = AppState.addEventListener('change', state => {
+        if (state === 'active') {
+          loadSavedRecords();
+        }
+      });
+      loadSavedRecords();
+      loadTags(storageService).then(setTags);
+      loadGoals(storageService).then(setGoals);
+      loadTemplates(storageService).then(setTemplates);
+      return () => subscription.remove();
+    }, [loadSavedRecords])
+  );
 
-        setRootRecords(sortedRecords);
-      };
+  // 回到应用时检查忘记停止的计时，需要完整的记录树才能找到正在运行的子记录
+  const { idleTimer, dismissIdleTimer } = useIdleDetection(() => storageService.loadRecords());
 
-      loadSavedRecords();
-    }, [])
+  // 按用户的选择处理闲置计时并保存
+  const resolveIdleTimer = async (decision: IdleDecision, keptUntil?: number) => {
+    if (!idleTimer) {
+      return;
+    }
+    dismissIdleTimer();
+    try {
+      const tree = await storageService.loadRecord(idleTimer.rootId);
+      if (!tree) {
+        return;
+      }
+      const [updated] = applyTimerCommand(
+        [tree],
+        { type: 'resolveIdle', recordId: idleTimer.recordId, decision, keptUntil },
+        Date.now()
+      );
+      await storageService.saveRecord(updated);
+      await loadSavedRecords();
+    } catch (error) {
+      console.error('Error resolving idle timer:', error);
+      Alert.alert("Error", "Failed to update the timer. Please try again.");
+    }
+  };
+
+  // 目标进度每分钟更新一次，连续达标需要遍历历史记录；根记录或标签已删除的目标不显示
+  const currentMinute = Math.floor(currentTime / 60000);
+  const goalProgress = useMemo(
+    () => goals.flatMap(goal => {
+      const scope = resolveGoalScope(goal.scope, rootRecords, tags);
+      return scope ? [{ ...scope, progress: getGoalProgress(rootRecords, goal, currentMinute * 60000) }] : [];
+    }),
+    [goals, rootRecords, tags, currentMinute]
   );
 
+  // 按标签筛选，子记录带有标签的根记录也会显示；归档的记录默认隐藏
+  const archivedCount = rootRecords.filter(record => record.archivedAt !== undefined).length;
+  const visibleRecords = rootRecords
+    .filter(record => showArchived || record.archivedAt === undefined)
+    .filter(record => !activeTagId || subtreeHasTag(record, activeTagId));
+
+  // 所有记录中正在计时的任务，显示在顶部横幅
+  const activeTimers = useMemo(() => getActiveTimers(rootRecords), [rootRecords]);
+
+  // 从横幅停止计时，按停止的时刻结束计时段并保存
+  const handleStopActiveTimer = async (timer: ActiveTimer) => {
+    try {
+      const tree = await storageService.loadRecord(timer.rootId);
+      if (tree) {
+        const [stopped] = applyTimerCommand([tree], { type: 'stop', recordId: timer.record.id }, Date.now());
+        await storageService.saveRecord(stopped);
+      }
+      await loadSavedRecords();
+    } catch (error) {
+      console.error('Error stopping timer:', error);
+      Alert.alert("Error", "Failed to stop the timer. Please try again.");
+    }
+  };
+
+  // 归档或移入回收站前停止整棵树的计时，避免隐藏的记录继续计时
+  const stopRunningRecord = async (record: TimeRecord) => {
+    if (!isTreeRunning(record)) {
+      return;
+    }
+    const tree = await storageService.loadRecord(record.id);
+    if (tree) {
+      await storageService.saveRecord(stopTree(tree, Date.now()));
+    }
+  };
+
+  // 归档或取消归档
+  const handleArchiveRecord = async (record: TimeRecord) => {
+    swipeableRefs.current[record.id]?.close();
+    try {
+      if (record.archivedAt === undefined) {
+        await stopRunningRecord(record);
+        await storageService.archiveRecord(record.id, Date.now());
+      } else {
+        await storageService.unarchiveRecord(record.id);
+      }
+      await loadSavedRecords();
+    } catch (error) {
+      console.error('Error archiving record:', error);
+      Alert.alert("Error", "Failed to update the recording. Please try again.");
+    }
+  };
+
   // Handle delete record
-  const handleDeleteRecord = async (recordId: string) => {
+  const handleDeleteRecord = async (record: TimeRecord) => {
     Alert.alert(
       "Delete Recording",
-      "Are you sure you want to delete this recording?",
+      "Move this recording to the Trash? You can restore it from Settings → Trash.",
       [
         {
           text: "Cancel",
@@ -129,12 +265,13 @@ export default function Home() {
           style: "destructive",
           onPress: async () => {
             try {
-              // 从存储中删除记录
-              await storageService.deleteRecord(recordId);
+              // 移入回收站，到期后才永久删除
+              await stopRunningRecord(record);
+              await storageService.trashRecord(record.id, Date.now());
               
               // 更新本地状态
               setRootRecords(prevRecords => 
-                prevRecords.filter(record => record.id !== recordId)
+                prevRecords.filter(item => item.id !== record.id)
               );
             } catch (error) {
               console.error('Error deleting record:', error);
@@ -149,24 +286,38 @@ export default function Home() {
     );
   };
 
-  // Render right actions (delete button)
-  const renderRightActions = (recordId: string) => {
+  // Render right actions (archive and delete buttons)
+  const renderRightActions = (record: TimeRecord) => {
     return (
-      <TouchableOpacity
-        style={styles.deleteButton}
-        onPress={() => handleDeleteRecord(recordId)}
-      >
-        <Text style={styles.deleteButtonText}>Delete</Text>
-      </TouchableOpacity>
+      <View style={styles.rightActions}>
+        <TouchableOpacity
+          style={styles.archiveButton}
+          onPress={() => handleArchiveRecord(record)}
+        >
+          <Text style={styles.deleteButtonText}>{record.archivedAt === undefined ? 'Archive' : 'Unarchive'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.deleteButton}
+          onPress={() => handleDeleteRecord(record)}
+        >
+          <Text style={styles.deleteButtonText}>Delete</Text>
+        </TouchableOpacity>
+      </View>
     );
   };
 
   // 渲染单个记录项
+  // 预估时间进度条，没有预估时不显示
+  const renderBudget = (record: TimeRecord) => {
+    const progress = getBudgetProgress(record, currentTime);
+    return progress ? <BudgetBar progress={progress} /> : null;
+  };
+
   const renderRecordItem = (record: TimeRecord) => (
     <Swipeable
       key={record.id}
       ref={ref => swipeableRefs.current[record.id] = ref}
-      renderRightActions={() => renderRightActions(record.id)}
+      renderRightActions={() => renderRightActions(record)}
       onSwipeableOpen={() => {
         // Close other open swipeables
         Object.entries(swipeableRefs.current).forEach(([key, ref]) => {
@@ -177,7 +328,7 @@ export default function Home() {
       }}
     >
       <TouchableOpacity
-        style={styles.recordItem}
+        style={[styles.recordItem, record.archivedAt !== undefined && styles.archivedItem]}
         onPress={() => router.push(`/recorder/${record.id}`)}
       >
         {/* 记录头部 */}
@@ -199,6 +350,19 @@ export default function Home() {
                 <Text style={styles.recordDate}>
                   {formatDate(record.createdAt)}
                 </Text>
+                {record.scheduledAt !== undefined && (
+                  <View style={styles.scheduledBadge}>
+                    <Ionicons name="repeat" size={12} color="#2196F3" />
+                    <Text style={styles.scheduledText}>Scheduled</Text>
+                  </View>
+                )}
+                {resolveTags(record.tagIds, tags).length > 0 && (
+                  <View style={styles.tagDots}>
+                    {resolveTags(record.tagIds, tags).map(tag => (
+                      <View key={tag.id} style={[styles.tagDot, { backgroundColor: tag.color }]} />
+                    ))}
+                  </View>
+                )}
               </View>
               <Text style={[
                 styles.recordTime,
@@ -207,6 +371,7 @@ export default function Home() {
                 {formatTime(getUpdatedTime(record))}
               </Text>
             </View>
+            {renderBudget(record)}
           </View>
         </View>
       </TouchableOpacity>
@@ -220,17 +385,103 @@ export default function Home() {
           title: 'Voice Recorder',
           headerShown: true,
           headerBackVisible: false,
+          headerRight: () => (
+            <View style={styles.headerActions}>
+              <TouchableOpacity
+                style={styles.headerButton}
+                onPress={() => router.push('/recorder/search')}
+              >
+                <Ionicons name="search-outline" size={22} color="#2196F3" />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.headerButton}
+                onPress={() => router.push('/recorder/summary')}
+              >
+                <Ionicons name="stats-chart-outline" size={22} color="#2196F3" />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.headerButton}
+                onPress={() => router.push('/recorder/data')}
+              >
+                <Ionicons name="folder-open-outline" size={22} color="#2196F3" />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.headerButton}
+                onPress={() => router.push('/recorder/settings')}
+              >
+                <Ionicons name="settings-outline" size={22} color="#2196F3" />
+              </TouchableOpacity>
+            </View>
+          ),
         }}
       />
 
+      {/* 正在计时 */}
+      <ActiveTimerBanner
+        timers={activeTimers}
+        now={currentTime}
+        onOpen={timer => router.push({
+          pathname: '/recorder/[id]',
+          params: { id: timer.rootId, focus: timer.record.id },
+        })}
+        onStop={handleStopActiveTimer}
+      />
+
       {/* Main content area */}
       <ScrollView 
         style={styles.scrollView}
         contentContainerStyle={styles.scrollViewContent}
       >
+        {/* 今日目标 */}
+        {goalProgress.length > 0 && (
+          <View style={styles.goalList}>
+            {goalProgress.map(({ label, color, progress }) => (
+              <GoalCard
+                key={progress.goal.id}
+                progress={progress}
+                label={label}
+                color={color}
+                onPress={() => router.push('/recorder/goals')}
+              />
+            ))}
+          </View>
+        )}
+
+        {/* 标签筛选 */}
+        {tags.length > 0 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+            <TouchableOpacity
+              style={[styles.filterChip, !activeTagId && styles.filterChipSelected]}
+              onPress={() => setSelectedTagId(null)}
+            >
+              <Text style={[styles.filterChipText, !activeTagId && styles.filterChipTextSelected]}>All</Text>
+            </TouchableOpacity>
+            {tags.map(tag => (
+              <TouchableOpacity
+                key={tag.id}
+                style={[styles.filterChip, activeTagId === tag.id && { backgroundColor: tag.color }]}
+                onPress={() => setSelectedTagId(activeTagId === tag.id ? null : tag.id)}
+              >
+                <Text style={[styles.filterChipText, activeTagId === tag.id && styles.filterChipTextSelected]}>
+                  {tag.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+
         <View style={styles.recordsList}>
-          {rootRecords.map(record => renderRecordItem(record))}
+          {visibleRecords.map(record => renderRecordItem(record))}
         </View>
+
+        {/* 显示或隐藏已归档的记录 */}
+        {archivedCount > 0 && (
+          <TouchableOpacity style={styles.archivedToggle} onPress={() => setShowArchived(!showArchived)}>
+            <Text style={styles.archivedToggleText}>
+              {showArchived ? 'Hide archived' : `Show archived (${archivedCount})`}
+            </Text>
+          </TouchableOpacity>
+        )}
       </ScrollView>
 
       {/* Floating Add Button */}
@@ -240,10 +491,30 @@ export default function Home() {
       >
         <Ionicons name="add" size={32} color="#fff" />
       </TouchableOpacity>
+
+      {/* 从模板新建 */}
+      <TemplatePickerModal
+        visible={isPickingTemplate}
+        templates={templates}
+        onSelectEmpty={() => createRecorder(null)}
+        onSelect={createRecorder}
+        onChangeTemplates={updateTemplates}
+        onClose={() => setIsPickingTemplate(false)}
+      />
+
+      {/* 忘记停止的计时 */}
+      <IdleTimerModal
+        idleTimer={idleTimer}
+        onResolve={resolveIdleTimer}
+        onClose={dismissIdleTimer}
+      />
     </GestureHandlerRootView>
   );
 }
 
+// 树中是否有计时器在运行，包括暂停的根记录下正在进行的休息
+const isTreeRunning = (tree: TimeRecord) => getActiveTimers([tree]).length > 0;
+
 const generateRandomColor = () => {
   const colors = [
     '#FF6B6B', '#4ECDC4', '#45B7D1', '#96CEB4',
@@ -257,6 +528,14 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#fff',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+  },
   scrollView: {
     flex: 1,
   },
@@ -267,6 +546,50 @@ const styles = StyleSheet.create({
   recordsList: {
     gap: 12,
   },
+  goalList: {
+    gap: 8,
+    marginBottom: 12,
+  },
+  filterRow: {
+    gap: 8,
+    paddingBottom: 12,
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f1f3f5',
+  },
+  filterChipSelected: {
+    backgroundColor: '#2196F3',
+  },
+  filterChipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  filterChipTextSelected: {
+    color: '#fff',
+  },
+  scheduledBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+  },
+  scheduledText: {
+    fontSize: 12,
+    color: '#2196F3',
+  },
+  tagDots: {
+    flexDirection: 'row',
+    gap: 4,
+    marginTop: 4,
+  },
+  tagDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
   recordItem: {
     backgroundColor: '#f8f9fa',
     borderRadius: 8,
@@ -322,6 +645,28 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: 'bold',
   },
+  archivedItem: {
+    opacity: 0.6,
+  },
+  archivedToggle: {
+    alignItems: 'center',
+    paddingTop: 16,
+    paddingBottom: 88, // 留出悬浮添加按钮的位置
+  },
+  archivedToggleText: {
+    fontSize: 14,
+    color: '#2196F3',
+  },
+  rightActions: {
+    flexDirection: 'row',
+  },
+  archiveButton: {
+    backgroundColor: '#8E8E93',
+    justifyContent: 'center',
+    alignItems: 'center',
+    width: 90,
+    height: '100%',
+  },
   deleteButton: {
     backgroundColor: '#FF3B30',
     justifyContent: 'center',
@@ -0,0 +1,332 @@
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Alert, TextInput } from 'react-native';
+import { Stack, useFocusEffect } from 'expo-router';
+import { useState, useCallback } from 'react';
+import storageService from '@/services/storage/index';
+import { loadSchedules, Recurrence, saveSchedules, Schedule } from '@/services/schedules';
+import { loadTemplates, RecordTemplate } from '@/services/templates';
+import { ALL_WEEKDAYS } from '@/services/goals';
+import { Ionicons } from '@expo/vector-icons';
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+type RepeatOption = Recurrence['type'];
+
+const REPEAT_OPTIONS: { key: RepeatOption; label: string }[] = [
+  { key: 'daily', label: 'Every day' },
+  { key: 'weekdays', label: 'Weekdays' },
+  { key: 'weekly', label: 'Pick days' },
+];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// 计划的简要描述，例如 "Mon, Thu at 09:30"
+const describeSchedule = (schedule: Schedule) => {
+  const time = `${pad(schedule.hour)}:${pad(schedule.minute)}`;
+  const { recurrence } = schedule;
+  switch (recurrence.type) {
+    case 'daily':
+      return `Every day at ${time}`;
+    case 'weekdays':
+      return `Weekdays at ${time}`;
+    case 'weekly':
+      return `${ALL_WEEKDAYS.filter(day => recurrence.weekdays.includes(day)).map(day => WEEKDAY_NAMES[day]).join(', ')} at ${time}`;
+  }
+};
+
+// 解析 "HH:mm"，格式不对时返回 null
+const parseTimeOfDay = (text: string): { hour: number; minute: number } | null => {
+  const match = text.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+  const [hour, minute] = match.slice(1).map(Number);
+  return hour < 24 && minute < 60 ? { hour, minute } : null;
+};
+
+export default function SchedulesScreen() {
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [templates, setTemplates] = useState<RecordTemplate[]>([]);
+  // 新计划的草稿
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [repeat, setRepeat] = useState<RepeatOption>('weekdays');
+  const [weekdays, setWeekdays] = useState<number[]>([1, 4]);
+  const [time, setTime] = useState('09:00');
+
+  // 每次进入页面时重新加载计划和模板
+  useFocusEffect(
+    useCallback(() => {
+      loadSchedules(storageService).then(setSchedules);
+      loadTemplates(storageService).then(setTemplates);
+    }, [])
+  );
+
+  const selectedTemplateId = templates.some(template => template.id === templateId)
+    ? templateId
+    : templates[0]?.id ?? null;
+
+  const updateSchedules = (next: Schedule[]) => {
+    setSchedules(next);
+    saveSchedules(storageService, next).catch(error => {
+      console.error('Error saving schedules:', error);
+      Alert.alert("Error", "Failed to save schedules. Please try again.");
+    });
+  };
+
+  const toggleWeekday = (day: number) =>
+    setWeekdays(weekdays.includes(day) ? weekdays.filter(item => item !== day) : [...weekdays, day]);
+
+  const handleAddSchedule = () => {
+    const timeOfDay = parseTimeOfDay(time);
+    if (!selectedTemplateId) {
+      return;
+    }
+    if (!timeOfDay) {
+      Alert.alert("Invalid Time", "Use the format HH:mm, for example 09:30.");
+      return;
+    }
+    if (repeat === 'weekly' && weekdays.length === 0) {
+      Alert.alert("No Days Selected", "Pick at least one day for this schedule.");
+      return;
+    }
+    // 只创建添加之后到期的记录
+    updateSchedules([...schedules, {
+      id: Date.now().toString(),
+      templateId: selectedTemplateId,
+      recurrence: repeat === 'weekly' ? { type: 'weekly', weekdays } : { type: repeat },
+      ...timeOfDay,
+      createdAt: Date.now(),
+    }]);
+  };
+
+  const handleDeleteSchedule = (schedule: Schedule) => {
+    Alert.alert(
+      "Delete Schedule",
+      "Stop creating recordings from this schedule? Recordings it already created are kept.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Delete", style: "destructive", onPress: () => updateSchedules(schedules.filter(item => item.id !== schedule.id)) }
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen
+        options={{
+          title: 'Schedules',
+          headerShown: true,
+        }}
+      />
+
+      <ScrollView contentContainerStyle={styles.scrollViewContent}>
+        {/* 已有计划 */}
+        {schedules.length === 0 && (
+          <Text style={styles.emptyText}>
+            No schedules yet. Recordings from a schedule are created when you open the app.
+          </Text>
+        )}
+        {schedules.map(schedule => {
+          const template = templates.find(item => item.id === schedule.templateId);
+          return (
+            <View key={schedule.id} style={styles.scheduleItem}>
+              <View style={[styles.colorDot, { backgroundColor: template?.root.avatarColor ?? '#ccc' }]} />
+              <View style={styles.scheduleText}>
+                <Text style={[styles.scheduleLabel, !template && styles.deletedLabel]} numberOfLines={1}>
+                  {template?.name ?? 'Deleted template'}
+                </Text>
+                <Text style={styles.scheduleDescription}>{describeSchedule(schedule)}</Text>
+              </View>
+              <TouchableOpacity onPress={() => handleDeleteSchedule(schedule)}>
+                <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+              </TouchableOpacity>
+            </View>
+          );
+        })}
+
+        {/* 新建计划 */}
+        <Text style={styles.sectionTitle}>New schedule</Text>
+        {templates.length === 0 ? (
+          <Text style={styles.optionDescription}>
+            Save a recording as a template first: open it and choose ⋯ → Save as Template.
+          </Text>
+        ) : (
+          <View style={styles.section}>
+            <Text style={styles.optionDescription}>Create a recording from:</Text>
+            <View style={styles.chipRow}>
+              {templates.map(template => (
+                <TouchableOpacity
+                  key={template.id}
+                  style={[styles.chip, selectedTemplateId === template.id && styles.chipSelected]}
+                  onPress={() => setTemplateId(template.id)}
+                >
+                  <Text style={[styles.chipText, selectedTemplateId === template.id && styles.chipTextSelected]} numberOfLines={1}>
+                    {template.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.chipRow}>
+              {REPEAT_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option.key}
+                  style={[styles.chip, repeat === option.key && styles.chipSelected]}
+                  onPress={() => setRepeat(option.key)}
+                >
+                  <Text style={[styles.chipText, repeat === option.key && styles.chipTextSelected]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {repeat === 'weekly' && (
+              <View style={styles.chipRow}>
+                {ALL_WEEKDAYS.map(day => (
+                  <TouchableOpacity
+                    key={day}
+                    style={[styles.chip, weekdays.includes(day) && styles.chipSelected]}
+                    onPress={() => toggleWeekday(day)}
+                  >
+                    <Text style={[styles.chipText, weekdays.includes(day) && styles.chipTextSelected]}>
+                      {WEEKDAY_NAMES[day]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
+            <View style={styles.optionRow}>
+              <Text style={styles.optionLabel}>At</Text>
+              <TextInput
+                style={styles.input}
+                value={time}
+                onChangeText={setTime}
+                placeholder="HH:mm"
+                keyboardType="numbers-and-punctuation"
+                autoCorrect={false}
+              />
+            </View>
+
+            <TouchableOpacity style={styles.addButton} onPress={handleAddSchedule}>
+              <Text style={styles.addButtonText}>Add Schedule</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  scrollViewContent: {
+    padding: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    marginBottom: 16,
+  },
+  scheduleItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  scheduleText: {
+    flex: 1,
+  },
+  scheduleLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+  },
+  deletedLabel: {
+    fontStyle: 'italic',
+    color: '#999',
+  },
+  scheduleDescription: {
+    fontSize: 12,
+    color: '#666',
+  },
+  colorDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  section: {
+    gap: 12,
+    marginBottom: 16,
+  },
+  optionDescription: {
+    fontSize: 14,
+    color: '#666',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    maxWidth: '100%',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f8f9fa',
+  },
+  chipSelected: {
+    backgroundColor: '#2196F3',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  optionLabel: {
+    fontSize: 16,
+    color: '#333',
+  },
+  input: {
+    minWidth: 88,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    textAlign: 'center',
+  },
+  addButton: {
+    backgroundColor: '#2196F3',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,148 @@
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, TextInput } from 'react-native';
+import { Stack, useRouter, useFocusEffect } from 'expo-router';
+import { useState, useCallback, useMemo } from 'react';
+import storageService, { TimeRecord } from '@/services/storage/index';
+import { getNoteSnippet, searchRecords } from '@/services/search';
+import { PATH_SEPARATOR } from '@/services/export';
+import { Ionicons } from '@expo/vector-icons';
+
+// 格式化时间，与首页一致
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+export default function SearchScreen() {
+  const router = useRouter();
+  const [trees, setTrees] = useState<TimeRecord[]>([]);
+  const [query, setQuery] = useState('');
+
+  // 每次进入页面时重新加载全部记录，包括所有层级的子记录
+  useFocusEffect(
+    useCallback(() => {
+      storageService.loadRecords().then(setTrees);
+    }, [])
+  );
+
+  const results = useMemo(() => searchRecords(trees, query, Date.now()), [trees, query]);
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen
+        options={{
+          title: 'Search',
+          headerShown: true,
+        }}
+      />
+
+      <View style={styles.searchBar}>
+        <Ionicons name="search" size={18} color="#999" />
+        <TextInput
+          style={styles.searchInput}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search titles and notes..."
+          autoFocus
+          autoCorrect={false}
+          clearButtonMode="while-editing"
+        />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollViewContent} keyboardShouldPersistTaps="handled">
+        {query.trim().length > 0 && results.length === 0 && (
+          <Text style={styles.emptyText}>No matching recordings.</Text>
+        )}
+        {results.map(result => (
+          <TouchableOpacity
+            key={result.recordId}
+            style={styles.resultItem}
+            onPress={() => router.push({
+              pathname: '/recorder/[id]',
+              params: { id: result.rootId, focus: result.recordId },
+            })}
+          >
+            <View style={styles.titleRow}>
+              <Text style={styles.resultLabel} numberOfLines={1}>{result.label}</Text>
+              <Text style={styles.resultTime}>{formatTime(result.totalSeconds)}</Text>
+            </View>
+            {result.path.length > 0 && (
+              <Text style={styles.resultPath} numberOfLines={1}>
+                {result.path.join(PATH_SEPARATOR)}
+              </Text>
+            )}
+            {result.matchedNote && (
+              <Text style={styles.resultNote} numberOfLines={2}>
+                {getNoteSnippet(result.note, query)}
+              </Text>
+            )}
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    margin: 16,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#f1f3f5',
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    paddingVertical: 10,
+  },
+  scrollViewContent: {
+    padding: 16,
+    paddingTop: 8,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  resultItem: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    padding: 12,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  resultLabel: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+  },
+  resultTime: {
+    fontSize: 14,
+    color: '#666',
+  },
+  resultPath: {
+    fontSize: 12,
+    color: '#2196F3',
+    marginTop: 4,
+  },
+  resultNote: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,290 @@
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Switch } from 'react-native';
+import { Stack, useFocusEffect, useRouter } from 'expo-router';
+import { useState, useCallback } from 'react';
+import storageService from '@/services/storage/index';
+import { AppSettings, DEFAULT_SETTINGS, loadSettings, NotificationSettings, saveSettings } from '@/services/settings';
+import { PomodoroSettings } from '@/services/storage/interfaces';
+import { Ionicons } from '@expo/vector-icons';
+
+const IDLE_THRESHOLDS: { minutes: number; label: string }[] = [
+  { minutes: 0, label: 'Off' },
+  { minutes: 30, label: '30 min' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 120, label: '2 hours' },
+  { minutes: 240, label: '4 hours' },
+];
+
+const RUNNING_REMINDERS: { minutes: number; label: string }[] = [
+  { minutes: 0, label: 'Off' },
+  { minutes: 30, label: '30 min' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 120, label: '2 hours' },
+];
+
+const TRASH_RETENTION: { days: number; label: string }[] = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 0, label: 'Never' },
+];
+
+// 番茄钟的各项时长及可调范围
+const POMODORO_OPTIONS: { key: keyof PomodoroSettings; label: string; unit: string; min: number; max: number; step: number }[] = [
+  { key: 'workMinutes', label: 'Focus', unit: 'min', min: 5, max: 120, step: 5 },
+  { key: 'breakMinutes', label: 'Short break', unit: 'min', min: 1, max: 30, step: 1 },
+  { key: 'longBreakMinutes', label: 'Long break', unit: 'min', min: 5, max: 60, step: 5 },
+  { key: 'cyclesPerLongBreak', label: 'Long break every', unit: 'cycles', min: 2, max: 8, step: 1 },
+];
+
+export default function SettingsScreen() {
+  const router = useRouter();
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+
+  // 每次进入页面时重新加载设置
+  useFocusEffect(
+    useCallback(() => {
+      loadSettings(storageService).then(setSettings);
+    }, [])
+  );
+
+  // 修改一项设置并立即保存
+  const updateSettings = (changes: Partial<AppSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveSettings(storageService, next).catch(error => console.error('Error saving settings:', error));
+  };
+
+  // 修改通知设置
+  const updateNotifications = (changes: Partial<NotificationSettings>) =>
+    updateSettings({ notifications: { ...settings.notifications, ...changes } });
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen
+        options={{
+          title: 'Settings',
+          headerShown: true,
+        }}
+      />
+
+      <ScrollView contentContainerStyle={styles.scrollViewContent}>
+        {/* 目标 */}
+        <Text style={styles.sectionTitle}>Goals</Text>
+        <View style={styles.section}>
+          <TouchableOpacity style={styles.optionRow} onPress={() => router.push('/recorder/goals')}>
+            <Text style={styles.optionLabel}>Daily and weekly goals</Text>
+            <Ionicons name="chevron-forward" size={20} color="#999" />
+          </TouchableOpacity>
+        </View>
+
+        {/* 定时计划 */}
+        <Text style={styles.sectionTitle}>Schedules</Text>
+        <View style={styles.section}>
+          <TouchableOpacity style={styles.optionRow} onPress={() => router.push('/recorder/schedules')}>
+            <Text style={styles.optionLabel}>Recurring recordings</Text>
+            <Ionicons name="chevron-forward" size={20} color="#999" />
+          </TouchableOpacity>
+        </View>
+
+        {/* 计时 */}
+        <Text style={styles.sectionTitle}>Timers</Text>
+        <View style={styles.section}>
+          <View style={styles.optionRow}>
+            <Text style={styles.optionLabel}>One timer at a time</Text>
+            <Switch
+              value={settings.singleActiveTimer}
+              onValueChange={singleActiveTimer => updateSettings({ singleActiveTimer })}
+            />
+          </View>
+          <Text style={styles.optionDescription}>
+            Starting a timer stops the timers running in every other recording. Their time so far is kept.
+          </Text>
+        </View>
+
+        {/* 闲置检测 */}
+        <Text style={styles.sectionTitle}>Forgotten timers</Text>
+        <View style={styles.section}>
+          <Text style={styles.optionDescription}>
+            Ask what to do with the time when you come back to the app and a timer has been running longer than:
+          </Text>
+          <View style={styles.chipRow}>
+            {IDLE_THRESHOLDS.map(option => (
+              <TouchableOpacity
+                key={option.minutes}
+                style={[styles.chip, settings.idleThresholdMinutes === option.minutes && styles.chipSelected]}
+                onPress={() => updateSettings({ idleThresholdMinutes: option.minutes })}
+              >
+                <Text style={[styles.chipText, settings.idleThresholdMinutes === option.minutes && styles.chipTextSelected]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {/* 通知 */}
+        <Text style={styles.sectionTitle}>Notifications</Text>
+        <View style={styles.section}>
+          <Text style={styles.optionDescription}>Remind me when a timer has been running for:</Text>
+          <View style={styles.chipRow}>
+            {RUNNING_REMINDERS.map(option => (
+              <TouchableOpacity
+                key={option.minutes}
+                style={[styles.chip, settings.notifications.runningReminderMinutes === option.minutes && styles.chipSelected]}
+                onPress={() => updateNotifications({ runningReminderMinutes: option.minutes })}
+              >
+                <Text style={[styles.chipText, settings.notifications.runningReminderMinutes === option.minutes && styles.chipTextSelected]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.optionRow}>
+            <Text style={styles.optionLabel}>Goal reached</Text>
+            <Switch
+              value={settings.notifications.goals}
+              onValueChange={goals => updateNotifications({ goals })}
+            />
+          </View>
+          <View style={styles.optionRow}>
+            <Text style={styles.optionLabel}>Pomodoro phase ends</Text>
+            <Switch
+              value={settings.notifications.pomodoro}
+              onValueChange={pomodoro => updateNotifications({ pomodoro })}
+            />
+          </View>
+        </View>
+
+        {/* 番茄钟 */}
+        <Text style={styles.sectionTitle}>Pomodoro</Text>
+        <View style={styles.section}>
+          {POMODORO_OPTIONS.map(option => {
+            const value = settings.pomodoro[option.key];
+            const change = (delta: number) => updateSettings({
+              pomodoro: {
+                ...settings.pomodoro,
+                [option.key]: Math.min(option.max, Math.max(option.min, value + delta)),
+              },
+            });
+            return (
+              <View key={option.key} style={styles.optionRow}>
+                <Text style={styles.optionLabel}>{option.label}</Text>
+                <View style={styles.stepper}>
+                  <TouchableOpacity style={styles.stepperButton} onPress={() => change(-option.step)}>
+                    <Text style={styles.stepperButtonText}>−</Text>
+                  </TouchableOpacity>
+                  <Text style={styles.stepperValue}>{value} {option.unit}</Text>
+                  <TouchableOpacity style={styles.stepperButton} onPress={() => change(option.step)}>
+                    <Text style={styles.stepperButtonText}>+</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            );
+          })}
+        </View>
+
+        {/* 回收站 */}
+        <Text style={styles.sectionTitle}>Trash</Text>
+        <View style={styles.section}>
+          <Text style={styles.optionDescription}>Permanently delete recordings in the trash after:</Text>
+          <View style={styles.chipRow}>
+            {TRASH_RETENTION.map(option => (
+              <TouchableOpacity
+                key={option.days}
+                style={[styles.chip, settings.trashRetentionDays === option.days && styles.chipSelected]}
+                onPress={() => updateSettings({ trashRetentionDays: option.days })}
+              >
+                <Text style={[styles.chipText, settings.trashRetentionDays === option.days && styles.chipTextSelected]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TouchableOpacity style={styles.optionRow} onPress={() => router.push('/recorder/trash')}>
+            <Text style={styles.optionLabel}>Open Trash</Text>
+            <Ionicons name="chevron-forward" size={20} color="#999" />
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  scrollViewContent: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  section: {
+    gap: 12,
+    marginBottom: 16,
+  },
+  optionDescription: {
+    fontSize: 14,
+    color: '#666',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f8f9fa',
+  },
+  chipSelected: {
+    backgroundColor: '#2196F3',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  optionLabel: {
+    fontSize: 16,
+    color: '#333',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#f8f9fa',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperButtonText: {
+    fontSize: 18,
+    color: '#2196F3',
+  },
+  stepperValue: {
+    minWidth: 72,
+    textAlign: 'center',
+    fontSize: 15,
+    color: '#333',
+  },
+});
@@ -0,0 +1,390 @@
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView } from 'react-native';
+import { Stack, useFocusEffect } from 'expo-router';
+import { useState, useCallback, useMemo } from 'react';
+import storageService, { TimeRecord } from '@/services/storage/index';
+import {
+  buildPeriodReport,
+  EstimateAccuracy,
+  formatDuration,
+  getChangeRatio,
+  getRootAccuracy,
+  getTagAccuracy,
+  ReportPeriod,
+} from '@/services/reports';
+import { loadTags, Tag } from '@/services/tags';
+import { Ionicons } from '@expo/vector-icons';
+
+// 日期标题，例如 "Wed, Jan 15" 或 "Jan 13 – Jan 19"
+const formatPeriodTitle = (period: ReportPeriod, start: number, end: number) => {
+  const format = (timestamp: number) =>
+    new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  if (period === 'day') {
+    return new Date(start).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+  }
+  return `${format(start)} – ${format(end - 1)}`;
+};
+
+// 与上一周期的对比，例如 "+25% vs yesterday"
+const formatChange = (current: number, previous: number, period: ReportPeriod) => {
+  const label = period === 'day' ? 'yesterday' : 'last week';
+  const ratio = getChangeRatio(current, previous);
+  if (ratio === null) {
+    return current > 0 ? `No time tracked ${label}` : '';
+  }
+  const percent = Math.round(ratio * 100);
+  return `${percent >= 0 ? '+' : ''}${percent}% vs ${label}`;
+};
+
+// 实际用时占预估的比例，例如 "2h 00m of 1h 40m · 120%"
+const formatAccuracy = (accuracy: EstimateAccuracy) =>
+  `${formatDuration(accuracy.actualSeconds)} of ${formatDuration(accuracy.estimateSeconds)} · ${Math.round(accuracy.ratio * 100)}%`;
+
+export default function SummaryScreen() {
+  const [trees, setTrees] = useState<TimeRecord[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [period, setPeriod] = useState<ReportPeriod>('day');
+  const [anchor, setAnchor] = useState(() => new Date());
+
+  // 每次进入页面时重新加载全部记录
+  useFocusEffect(
+    useCallback(() => {
+      storageService.loadRecords().then(setTrees);
+      loadTags(storageService).then(setTags);
+    }, [])
+  );
+
+  const report = useMemo(
+    () => buildPeriodReport(trees, period, anchor, Date.now()),
+    [trees, period, anchor]
+  );
+  const { current, previous } = report;
+  // 已删除的标签不再显示
+  const tagTotals = current.tags.filter(total => total.tagId === null || tags.some(tag => tag.id === total.tagId));
+  // 预估准确度按全部时间计算，不随周期切换
+  const rootAccuracy = useMemo(() => getRootAccuracy(trees, Date.now()), [trees]);
+  const tagAccuracy = useMemo(() => getTagAccuracy(trees, tags, Date.now()), [trees, tags]);
+
+  // 切换到上一个或下一个周期
+  const shiftPeriod = (direction: -1 | 1) => {
+    const next = new Date(anchor);
+    next.setDate(next.getDate() + direction * (period === 'day' ? 1 : 7));
+    setAnchor(next);
+  };
+
+  const isCurrentPeriod = current.range.end > Date.now();
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen
+        options={{
+          title: 'Summary',
+          headerShown: true,
+        }}
+      />
+
+      <ScrollView contentContainerStyle={styles.scrollViewContent}>
+        {/* 日 / 周切换 */}
+        <View style={styles.segmentedControl}>
+          {(['day', 'week'] as ReportPeriod[]).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.segment, period === option && styles.segmentSelected]}
+              onPress={() => setPeriod(option)}
+            >
+              <Text style={[styles.segmentText, period === option && styles.segmentTextSelected]}>
+                {option === 'day' ? 'Day' : 'Week'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* 周期导航 */}
+        <View style={styles.periodRow}>
+          <TouchableOpacity style={styles.periodButton} onPress={() => shiftPeriod(-1)}>
+            <Ionicons name="chevron-back" size={22} color="#2196F3" />
+          </TouchableOpacity>
+          <Text style={styles.periodTitle}>
+            {formatPeriodTitle(period, current.range.start, current.range.end)}
+          </Text>
+          <TouchableOpacity
+            style={styles.periodButton}
+            disabled={isCurrentPeriod}
+            onPress={() => shiftPeriod(1)}
+          >
+            <Ionicons name="chevron-forward" size={22} color={isCurrentPeriod ? '#ccc' : '#2196F3'} />
+          </TouchableOpacity>
+        </View>
+
+        {/* 总计 */}
+        <View style={styles.totalsCard}>
+          <Text style={styles.totalTime}>{formatDuration(current.totalSeconds)}</Text>
+          <Text style={styles.changeText}>
+            {formatChange(current.totalSeconds, previous.totalSeconds, period)}
+          </Text>
+          <View style={styles.splitRow}>
+            <View style={styles.splitItem}>
+              <Text style={styles.splitLabel}>Work</Text>
+              <Text style={styles.splitValue}>{formatDuration(current.workSeconds)}</Text>
+              <Text style={styles.splitChange}>
+                {formatChange(current.workSeconds, previous.workSeconds, period)}
+              </Text>
+            </View>
+            <View style={styles.splitItem}>
+              <Text style={styles.splitLabel}>Breaks</Text>
+              <Text style={styles.splitValue}>{formatDuration(current.breakSeconds)}</Text>
+              <Text style={styles.splitChange}>
+                {formatChange(current.breakSeconds, previous.breakSeconds, period)}
+              </Text>
+            </View>
+          </View>
+        </View>
+
+        {/* 按标签细分 */}
+        {tagTotals.some(total => total.tagId !== null) && (
+          <>
+            <Text style={styles.sectionTitle}>By tag</Text>
+            <View style={styles.rootItem}>
+              {tagTotals.map(total => {
+                const tag = tags.find(item => item.id === total.tagId);
+                const previousTotal = previous.tags.find(item => item.tagId === total.tagId);
+                return (
+                  <View key={total.tagId ?? 'untagged'} style={styles.tagTotalRow}>
+                    <View style={styles.taskRow}>
+                      <View style={[styles.colorDot, { backgroundColor: tag?.color ?? '#ccc' }]} />
+                      <Text style={[styles.childLabel, !tag && styles.otherLabel]} numberOfLines={1}>
+                        {tag?.name ?? 'Untagged'}
+                      </Text>
+                      <Text style={styles.childTime}>{formatDuration(total.totalSeconds)}</Text>
+                    </View>
+                    <Text style={styles.rootChange}>
+                      {formatChange(total.totalSeconds, previousTotal?.totalSeconds ?? 0, period)}
+                    </Text>
+                  </View>
+                );
+              })}
+            </View>
+          </>
+        )}
+
+        {/* 按任务细分 */}
+        <Text style={styles.sectionTitle}>By task</Text>
+        {current.roots.length === 0 && (
+          <Text style={styles.emptyText}>Nothing tracked in this period.</Text>
+        )}
+        {current.roots.map(root => {
+          const previousRoot = previous.roots.find(item => item.id === root.id);
+          return (
+            <View key={root.id} style={styles.rootItem}>
+              <View style={styles.taskRow}>
+                <View style={[styles.colorDot, { backgroundColor: root.avatarColor }]} />
+                <Text style={styles.rootLabel} numberOfLines={1}>{root.label}</Text>
+                <Text style={styles.rootTime}>{formatDuration(root.totalSeconds)}</Text>
+              </View>
+              <Text style={styles.rootChange}>
+                {formatChange(root.totalSeconds, previousRoot?.totalSeconds ?? 0, period)}
+              </Text>
+              {root.children.map(child => (
+                <View key={child.id} style={styles.childRow}>
+                  <View style={[styles.colorDot, styles.childDot, { backgroundColor: child.avatarColor }]} />
+                  <Text style={styles.childLabel} numberOfLines={1}>{child.label}</Text>
+                  <Text style={styles.childTime}>{formatDuration(child.totalSeconds)}</Text>
+                </View>
+              ))}
+              {root.children.length > 0 && root.ownSeconds > 0 && (
+                <View style={styles.childRow}>
+                  <View style={[styles.colorDot, styles.childDot, { backgroundColor: '#ccc' }]} />
+                  <Text style={[styles.childLabel, styles.otherLabel]}>Not in a subtask</Text>
+                  <Text style={styles.childTime}>{formatDuration(root.ownSeconds)}</Text>
+                </View>
+              )}
+            </View>
+          );
+        })}
+
+        {/* 预估与实际用时对比 */}
+        {rootAccuracy.length + tagAccuracy.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Estimates (all time)</Text>
+            <View style={styles.rootItem}>
+              {[...rootAccuracy.map(item => ({ key: `root-${item.id}`, item, color: trees.find(tree => tree.id === item.id)?.avatarColor })),
+                ...tagAccuracy.map(item => ({ key: `tag-${item.id}`, item, color: tags.find(tag => tag.id === item.id)?.color }))]
+                .map(({ key, item, color }) => (
+                  <View key={key} style={styles.tagTotalRow}>
+                    <View style={styles.taskRow}>
+                      <View style={[styles.colorDot, { backgroundColor: color ?? '#ccc' }]} />
+                      <Text style={styles.childLabel} numberOfLines={1}>{item.label}</Text>
+                    </View>
+                    <Text style={[styles.rootChange, item.ratio > 1 && styles.overEstimate]}>
+                      {formatAccuracy(item)}
+                    </Text>
+                  </View>
+                ))}
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  scrollViewContent: {
+    padding: 16,
+  },
+  segmentedControl: {
+    flexDirection: 'row',
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    padding: 2,
+  },
+  segment: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  segmentSelected: {
+    backgroundColor: '#2196F3',
+  },
+  segmentText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  segmentTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  periodRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginVertical: 12,
+  },
+  periodButton: {
+    padding: 8,
+  },
+  periodTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  totalsCard: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  totalTime: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  changeText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  splitRow: {
+    flexDirection: 'row',
+    marginTop: 16,
+    alignSelf: 'stretch',
+  },
+  splitItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  splitLabel: {
+    fontSize: 12,
+    color: '#666',
+  },
+  splitValue: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 2,
+  },
+  splitChange: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 2,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+  },
+  rootItem: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  taskRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  colorDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  rootLabel: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+  },
+  rootTime: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  rootChange: {
+    fontSize: 11,
+    color: '#999',
+    marginLeft: 20,
+    marginBottom: 4,
+  },
+  childRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginLeft: 20,
+    marginTop: 6,
+  },
+  childDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  childLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#555',
+  },
+  otherLabel: {
+    fontStyle: 'italic',
+  },
+  tagTotalRow: {
+    marginBottom: 4,
+  },
+  childTime: {
+    fontSize: 14,
+    color: '#555',
+  },
+  overEstimate: {
+    color: '#FF3B30',
+  },
+});
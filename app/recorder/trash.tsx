@@ -0,0 +1,218 @@
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Alert } from 'react-native';
+import { Stack, useFocusEffect } from 'expo-router';
+import { useState, useCallback } from 'react';
+import storageService, { TimeRecord } from '@/services/storage/index';
+import { loadSettings } from '@/services/settings';
+import { formatDuration } from '@/services/reports';
+import { getElapsedTime } from '@/services/timer';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// 删除时间及剩余保留天数，例如 "Deleted 3 days ago · removed in 27 days"
+const formatDeletedAt = (deletedAt: number, retentionDays: number) => {
+  const daysAgo = Math.floor((Date.now() - deletedAt) / DAY);
+  const deleted = daysAgo === 0 ? 'Deleted today' : `Deleted ${daysAgo} day${daysAgo === 1 ? '' : 's'} ago`;
+  if (retentionDays === 0) {
+    return deleted;
+  }
+  const daysLeft = Math.max(0, retentionDays - daysAgo);
+  return `${deleted} · removed in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`;
+};
+
+export default function TrashScreen() {
+  const [records, setRecords] = useState<TimeRecord[]>([]);
+  const [retentionDays, setRetentionDays] = useState(0);
+
+  const loadTrash = useCallback(async () => {
+    setRecords(await storageService.loadTrashedRecords());
+  }, []);
+
+  // 每次进入页面时重新加载回收站
+  useFocusEffect(
+    useCallback(() => {
+      loadTrash();
+      loadSettings(storageService).then(settings => setRetentionDays(settings.trashRetentionDays));
+    }, [loadTrash])
+  );
+
+  // 恢复到首页列表
+  const handleRestore = async (record: TimeRecord) => {
+    try {
+      await storageService.restoreRecord(record.id);
+      await loadTrash();
+    } catch (error) {
+      console.error('Error restoring record:', error);
+      Alert.alert("Error", "Failed to restore the recording. Please try again.");
+    }
+  };
+
+  // 永久删除前确认
+  const handleDelete = (record: TimeRecord) => {
+    Alert.alert(
+      "Delete Permanently",
+      `Delete "${record.label}" and all of its time for good? This cannot be undone.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await storageService.deleteRecord(record.id);
+              await loadTrash();
+            } catch (error) {
+              console.error('Error deleting record:', error);
+              Alert.alert("Error", "Failed to delete the recording. Please try again.");
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  // 清空回收站
+  const handleEmptyTrash = () => {
+    Alert.alert(
+      "Empty Trash",
+      `Permanently delete ${records.length} recording${records.length === 1 ? '' : 's'}? This cannot be undone.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Empty Trash",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await storageService.purgeTrash(Infinity);
+              await loadTrash();
+            } catch (error) {
+              console.error('Error emptying trash:', error);
+              Alert.alert("Error", "Failed to empty the trash. Please try again.");
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen
+        options={{
+          title: 'Trash',
+          headerShown: true,
+          headerRight: () => records.length > 0 ? (
+            <TouchableOpacity onPress={handleEmptyTrash}>
+              <Text style={styles.emptyTrashText}>Empty</Text>
+            </TouchableOpacity>
+          ) : null,
+        }}
+      />
+
+      <ScrollView contentContainerStyle={styles.scrollViewContent}>
+        {records.length === 0 && (
+          <Text style={styles.emptyText}>The trash is empty.</Text>
+        )}
+        {records.map(record => (
+          <View key={record.id} style={styles.recordItem}>
+            <View style={styles.recordHeader}>
+              <View style={[styles.avatar, { backgroundColor: record.avatarColor }]}>
+                <Text style={styles.avatarText}>
+                  {record.label ? record.label.charAt(0).toUpperCase() : '#'}
+                </Text>
+              </View>
+              <View style={styles.recordContent}>
+                <Text style={styles.recordLabel} numberOfLines={1}>{record.label}</Text>
+                <Text style={styles.recordDetail}>
+                  {formatDuration(getElapsedTime(record, Date.now()))} · {formatDeletedAt(record.deletedAt ?? Date.now(), retentionDays)}
+                </Text>
+              </View>
+            </View>
+            <View style={styles.actions}>
+              <TouchableOpacity style={styles.actionButton} onPress={() => handleRestore(record)}>
+                <Text style={styles.actionText}>Restore</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.actionButton} onPress={() => handleDelete(record)}>
+                <Text style={[styles.actionText, styles.destructiveText]}>Delete</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  scrollViewContent: {
+    padding: 16,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    marginTop: 32,
+  },
+  emptyTrashText: {
+    color: '#FF3B30',
+    fontSize: 16,
+  },
+  recordItem: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    padding: 12,
+    gap: 10,
+  },
+  recordHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  recordContent: {
+    flex: 1,
+  },
+  recordLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 4,
+  },
+  recordDetail: {
+    fontSize: 12,
+    color: '#666',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    flex: 1,
+    borderRadius: 8,
+    paddingVertical: 8,
+    backgroundColor: '#f1f3f5',
+    alignItems: 'center',
+  },
+  actionText: {
+    fontSize: 15,
+    color: '#2196F3',
+    fontWeight: '500',
+  },
+  destructiveText: {
+    color: '#FF3B30',
+  },
+});
@@ -0,0 +1,97 @@
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { ActiveTimer, getElapsedTime } from '@/services/timer';
+
+interface ActiveTimerBannerProps {
+  timers: ActiveTimer[];
+  now: number;
+  onOpen: (timer: ActiveTimer) => void;
+  onStop: (timer: ActiveTimer) => void;
+}
+
+// 计时显示，例如 "1:02:05" 或 "2:05"
+const formatClock = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  const clock = `${mins.toString().padStart(hours > 0 ? 2 : 1, '0')}:${secs.toString().padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${clock}` : clock;
+};
+
+/**
+ * 首页顶部的"正在计时"横幅，点击打开记录，按钮直接停止计时
+ */
+export default function ActiveTimerBanner({ timers, now, onOpen, onStop }: ActiveTimerBannerProps) {
+  if (timers.length === 0) {
+    return null;
+  }
+  return (
+    <View style={styles.banner}>
+      <Text style={styles.title}>Currently tracking</Text>
+      {timers.map(timer => (
+        <View key={timer.record.id} style={styles.row}>
+          <TouchableOpacity style={styles.content} onPress={() => onOpen(timer)}>
+            <View style={[styles.colorDot, { backgroundColor: timer.record.avatarColor }]} />
+            <Text style={styles.label} numberOfLines={1}>{timer.labels.join(' › ')}</Text>
+            <Text style={styles.time}>{formatClock(getElapsedTime(timer.record, now))}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.stopButton} onPress={() => onStop(timer)}>
+            <Ionicons name="stop" size={16} color="#fff" />
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    backgroundColor: '#E8F5E9',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    gap: 6,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#C8E6C9',
+  },
+  title: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#4CAF50',
+    textTransform: 'uppercase',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  content: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  colorDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  label: {
+    flex: 1,
+    fontSize: 15,
+    color: '#333',
+  },
+  time: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#4CAF50',
+    fontVariant: ['tabular-nums'],
+  },
+  stopButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#FF3B30',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
@@ -0,0 +1,52 @@
+import { View, Text, StyleSheet } from 'react-native';
+import { BudgetProgress } from '@/services/timer';
+import { formatDuration } from '@/services/reports';
+
+interface BudgetBarProps {
+  progress: BudgetProgress;
+}
+
+/**
+ * 预估时间进度条，超出预估时变红
+ */
+export default function BudgetBar({ progress }: BudgetBarProps) {
+  const fillColor = progress.isOverBudget ? '#FF3B30' : '#4CAF50';
+  return (
+    <View style={styles.container}>
+      <View style={styles.track}>
+        <View style={[styles.fill, { width: `${Math.min(progress.ratio, 1) * 100}%`, backgroundColor: fillColor }]} />
+      </View>
+      <Text style={[styles.label, progress.isOverBudget && styles.overBudgetLabel]}>
+        {formatDuration(progress.actualSeconds)} / {formatDuration(progress.estimateSeconds)}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginVertical: 4,
+  },
+  track: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#e9ecef',
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  label: {
+    fontSize: 12,
+    color: '#666',
+  },
+  overBudgetLabel: {
+    color: '#FF3B30',
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,65 @@
+import { useRef } from 'react';
+import { PanResponder, StyleSheet, Text, View } from 'react-native';
+
+interface DragHandleProps {
+  onDragStart: () => void;
+  onDragMove: (dy: number) => void;
+  onDragEnd: (dy: number) => void;
+}
+
+/**
+ * 拖动手柄
+ * 手势对象只创建一次，回调通过 ref 取最新值，避免重新渲染时丢失拖动状态
+ */
+export default function DragHandle({ onDragStart, onDragMove, onDragEnd }: DragHandleProps) {
+  const callbacks = useRef({ onDragStart, onDragMove, onDragEnd });
+  callbacks.current = { onDragStart, onDragMove, onDragEnd };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => callbacks.current.onDragStart(),
+      onPanResponderMove: (_, gesture) => callbacks.current.onDragMove(gesture.dy),
+      onPanResponderRelease: (_, gesture) => callbacks.current.onDragEnd(gesture.dy),
+      onPanResponderTerminate: () => callbacks.current.onDragEnd(0),
+    })
+  ).current;
+
+  return (
+    <View style={styles.handle} {...panResponder.panHandlers}>
+      <Text style={styles.handleText}>≡</Text>
+    </View>
+  );
+}
+
+/**
+ * 根据拖动距离计算松手后的位置
+ * 越过相邻项一半高度时才算换位
+ * @param heights - 各兄弟项的高度
+ * @param fromIndex - 被拖动项原来的位置
+ * @param dy - 垂直拖动距离
+ */
+export function getDropIndex(heights: number[], fromIndex: number, dy: number): number {
+  let index = fromIndex;
+  let remaining = Math.abs(dy);
+  const step = dy > 0 ? 1 : -1;
+  while (index + step >= 0 && index + step < heights.length && remaining > heights[index + step] / 2) {
+    remaining -= heights[index + step];
+    index += step;
+  }
+  return index;
+}
+
+const styles = StyleSheet.create({
+  handle: {
+    paddingHorizontal: 6,
+    paddingVertical: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  handleText: {
+    fontSize: 18,
+    color: '#999',
+  },
+});
@@ -0,0 +1,103 @@
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { GoalProgress } from '@/services/goals';
+import { formatDuration } from '@/services/reports';
+
+interface GoalCardProps {
+  progress: GoalProgress;
+  label: string;
+  color: string;
+  onPress: () => void;
+}
+
+// 连续达标的描述，例如 "3 days in a row"
+const formatStreak = (progress: GoalProgress) => {
+  const unit = progress.goal.period === 'day' ? 'day' : 'week';
+  return `${progress.streak} ${unit}${progress.streak === 1 ? '' : 's'} in a row`;
+};
+
+/**
+ * 今日或本周目标的进度卡片，附带连续达标的次数
+ */
+export default function GoalCard({ progress, label, color, onPress }: GoalCardProps) {
+  const period = progress.goal.period === 'day' ? 'Today' : 'This week';
+  return (
+    <TouchableOpacity style={styles.card} onPress={onPress}>
+      <View style={styles.header}>
+        <View style={[styles.colorDot, { backgroundColor: color }]} />
+        <Text style={styles.label} numberOfLines={1}>{label}</Text>
+        <Text style={styles.period}>{progress.isActive ? period : 'Rest day'}</Text>
+      </View>
+      <View style={styles.track}>
+        <View
+          style={[
+            styles.fill,
+            { width: `${Math.min(progress.ratio, 1) * 100}%` },
+            progress.isMet && styles.fillMet,
+          ]}
+        />
+      </View>
+      <View style={styles.footer}>
+        <Text style={styles.time}>
+          {formatDuration(progress.seconds)} / {formatDuration(progress.targetSeconds)}
+        </Text>
+        {progress.streak > 0 && <Text style={styles.streak}>🔥 {formatStreak(progress)}</Text>}
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    padding: 12,
+    gap: 6,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  colorDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  label: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#333',
+  },
+  period: {
+    fontSize: 12,
+    color: '#666',
+  },
+  track: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#e9ecef',
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 3,
+    backgroundColor: '#2196F3',
+  },
+  fillMet: {
+    backgroundColor: '#4CAF50',
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  time: {
+    fontSize: 12,
+    color: '#666',
+  },
+  streak: {
+    fontSize: 12,
+    color: '#FF9800',
+    fontWeight: '500',
+  },
+});
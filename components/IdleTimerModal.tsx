@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, TextInput } from 'react-native';
+import { IdleDecision } from '@/services/storage/interfaces';
+import { IdleTimer } from '@/services/timer';
+import { formatDuration } from '@/services/reports';
+import { formatDateTime, parseDateTime } from '@/utils/date-time';
+
+interface IdleTimerModalProps {
+  idleTimer: IdleTimer | null;
+  onResolve: (decision: IdleDecision, keptUntil?: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * 回到应用时发现计时一直在运行，询问保留、丢弃还是只保留到某个时间
+ */
+export default function IdleTimerModal({ idleTimer, onResolve, onClose }: IdleTimerModalProps) {
+  const [keptUntil, setKeptUntil] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // 默认保留到开始后一小时，不超过现在
+  useEffect(() => {
+    if (idleTimer) {
+      setKeptUntil(formatDateTime(Math.min(idleTimer.sessionStart + 60 * 60 * 1000, Date.now())));
+      setError(null);
+    }
+  }, [idleTimer]);
+
+  if (!idleTimer) {
+    return null;
+  }
+
+  const keepUntil = () => {
+    const time = parseDateTime(keptUntil);
+    if (time === null) {
+      setError('Use the format YYYY-MM-DD HH:mm.');
+    } else if (time < idleTimer.sessionStart || time > Date.now()) {
+      setError('Pick a time between the start and now.');
+    } else {
+      onResolve('keepUntil', time);
+    }
+  };
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.dialog}>
+          <Text style={styles.title}>Timer Still Running</Text>
+          <Text style={styles.message}>
+            “{idleTimer.label}” has been running since {formatDateTime(idleTimer.sessionStart)} ({formatDuration(idleTimer.runningSeconds)}). Keep this time?
+          </Text>
+
+          <TouchableOpacity style={styles.button} onPress={() => onResolve('keep')}>
+            <Text style={styles.buttonText}>Keep all</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.button} onPress={() => onResolve('discard')}>
+            <Text style={[styles.buttonText, styles.destructiveText]}>Discard this session</Text>
+          </TouchableOpacity>
+
+          <View style={styles.keepUntilRow}>
+            <TextInput
+              style={styles.input}
+              value={keptUntil}
+              onChangeText={setKeptUntil}
+              placeholder="YYYY-MM-DD HH:mm"
+              autoCorrect={false}
+            />
+            <TouchableOpacity style={styles.button} onPress={keepUntil}>
+              <Text style={styles.buttonText}>Keep until</Text>
+            </TouchableOpacity>
+          </View>
+          {error && <Text style={styles.errorText}>{error}</Text>}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+  },
+  dialog: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 20,
+    gap: 10,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  message: {
+    fontSize: 15,
+    color: '#333',
+    marginBottom: 6,
+  },
+  button: {
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    backgroundColor: '#f1f3f5',
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontSize: 16,
+    color: '#2196F3',
+    fontWeight: '500',
+  },
+  destructiveText: {
+    color: '#FF3B30',
+  },
+  keepUntilRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#FF3B30',
+  },
+});
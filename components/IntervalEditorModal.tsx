@@ -0,0 +1,472 @@
+import { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, ScrollView, TextInput, Alert, Switch } from 'react-native';
+import { ChildConcurrency, TimeInterval, TimeRecord, TimerPolicy } from '@/services/storage/interfaces';
+import { getIntervalSeconds, getRolledUpEstimate, getTimerPolicy, IntervalError, validateIntervalEdit } from '@/services/timer';
+import { formatDuration } from '@/services/reports';
+import { formatDateTime, parseDateTime } from '@/utils/date-time';
+
+const ERROR_MESSAGES: Record<IntervalError | 'format' | 'beforeStart', string> = {
+  empty: 'The end must be after the start.',
+  future: "Time can't end in the future.",
+  overlap: 'This overlaps another time entry.',
+  subtasks: 'A subtask recorded this time. Edit the subtask instead.',
+  format: 'Use the format YYYY-MM-DD HH:mm.',
+  beforeStart: 'Pick a time after the timer started.',
+};
+
+const CONCURRENCY_OPTIONS: { key: ChildConcurrency; label: string }[] = [
+  { key: 'exclusive', label: 'One at a time' },
+  { key: 'parallel', label: 'In parallel' },
+];
+
+/**
+ * 正在编辑的内容
+ * - add: 补录一段时间
+ * - edit: 修改第 index 段时间
+ * - stopAt: 把正在运行的计时停在指定时间
+ */
+type EditorForm =
+  | { mode: 'add'; start: string; end: string }
+  | { mode: 'edit'; index: number; start: string; end: string }
+  | { mode: 'stopAt'; end: string };
+
+interface IntervalEditorModalProps {
+  visible: boolean;
+  record: TimeRecord | null;
+  onAdd: (interval: TimeInterval) => void;
+  onUpdate: (index: number, interval: TimeInterval) => void;
+  onDelete: (index: number) => void;
+  onStopAt: (time: number) => void;
+  onSetEstimate: (estimate?: number) => void;
+  onSetPolicy: (policy: TimerPolicy) => void;
+  onClose: () => void;
+}
+
+// 输入没有改动时保留原来精确到毫秒的时间，避免按分钟取整后和相邻时间段重叠
+const resolveTime = (text: string, original?: number) =>
+  original !== undefined && text === formatDateTime(original) ? original : parseDateTime(text);
+
+/**
+ * 查看和手动编辑一条记录的计时段
+ */
+export default function IntervalEditorModal({
+  visible,
+  record,
+  onAdd,
+  onUpdate,
+  onDelete,
+  onStopAt,
+  onSetEstimate,
+  onSetPolicy,
+  onClose,
+}: IntervalEditorModalProps) {
+  const [form, setForm] = useState<EditorForm | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // 预估时间输入，单位分钟
+  const [estimateText, setEstimateText] = useState('');
+  const recordEstimate = record?.estimate;
+
+  // 切换记录或关闭时清空表单，预估输入显示已保存的值
+  useEffect(() => {
+    setForm(null);
+    setError(null);
+    setEstimateText(recordEstimate !== undefined ? String(Math.round(recordEstimate / 60)) : '');
+  }, [visible, record?.id, recordEstimate]);
+
+  if (!record) {
+    return null;
+  }
+
+  // 最新的时间段显示在最前面，同时保留在日志中的位置
+  const entries = record.intervals
+    .map((interval, index) => ({ interval, index }))
+    .sort((a, b) => b.interval.start - a.interval.start);
+
+  const openForm = (next: EditorForm) => {
+    setError(null);
+    setForm(next);
+  };
+
+  const confirmDelete = (index: number) => {
+    Alert.alert(
+      'Delete Time',
+      'Remove this time entry?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            const problem = validateIntervalEdit(record, index, null, Date.now());
+            if (problem) {
+              Alert.alert('Error', ERROR_MESSAGES[problem]);
+              return;
+            }
+            onDelete(index);
+          }
+        }
+      ]
+    );
+  };
+
+  // 保存预估时间，清空输入表示改用子记录的预估
+  const saveEstimate = () => {
+    const text = estimateText.trim();
+    const minutes = Number(text);
+    if (text !== '' && !(Number.isFinite(minutes) && minutes >= 0)) {
+      setError('Enter the estimate in minutes.');
+      return;
+    }
+    setError(null);
+    const estimate = text === '' ? undefined : Math.round(minutes * 60);
+    if (estimate !== record.estimate) {
+      onSetEstimate(estimate);
+    }
+  };
+
+  const rolledUpEstimate = getRolledUpEstimate({ ...record, estimate: undefined });
+  const policy = getTimerPolicy(record);
+
+  const saveForm = () => {
+    if (!form) {
+      return;
+    }
+    const now = Date.now();
+
+    if (form.mode === 'stopAt') {
+      const time = parseDateTime(form.end);
+      if (time === null) {
+        setError(ERROR_MESSAGES.format);
+      } else if (time > now) {
+        setError(ERROR_MESSAGES.future);
+      } else if (!record.startTime || time < record.startTime) {
+        setError(ERROR_MESSAGES.beforeStart);
+      } else {
+        onStopAt(time);
+        setForm(null);
+      }
+      return;
+    }
+
+    const original = form.mode === 'edit' ? record.intervals[form.index] : undefined;
+    const start = resolveTime(form.start, original?.start);
+    const end = resolveTime(form.end, original?.end);
+    if (start === null || end === null) {
+      setError(ERROR_MESSAGES.format);
+      return;
+    }
+    const interval = { start, end };
+    const problem = validateIntervalEdit(record, form.mode === 'edit' ? form.index : null, interval, now);
+    if (problem) {
+      setError(ERROR_MESSAGES[problem]);
+      return;
+    }
+    if (form.mode === 'edit') {
+      onUpdate(form.index, interval);
+    } else {
+      onAdd(interval);
+    }
+    setForm(null);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title} numberOfLines={1}>Time · {record.label}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.linkText}>Done</Text>
+            </TouchableOpacity>
+          </View>
+
+          {form ? (
+            <View style={styles.form}>
+              <Text style={styles.formTitle}>
+                {form.mode === 'add' ? 'Add Time' : form.mode === 'edit' ? 'Edit Time' : 'Stop Timer At'}
+              </Text>
+              {form.mode !== 'stopAt' && (
+                <>
+                  <Text style={styles.fieldLabel}>Start</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={form.start}
+                    onChangeText={start => setForm({ ...form, start })}
+                    placeholder="YYYY-MM-DD HH:mm"
+                    autoCorrect={false}
+                  />
+                </>
+              )}
+              <Text style={styles.fieldLabel}>{form.mode === 'stopAt' ? 'Stopped at' : 'End'}</Text>
+              <TextInput
+                style={styles.input}
+                value={form.end}
+                onChangeText={end => setForm({ ...form, end })}
+                placeholder="YYYY-MM-DD HH:mm"
+                autoCorrect={false}
+              />
+              {error && <Text style={styles.errorText}>{error}</Text>}
+              <View style={styles.formActions}>
+                <TouchableOpacity onPress={() => setForm(null)}>
+                  <Text style={styles.cancelText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.saveButton} onPress={saveForm}>
+                  <Text style={styles.saveButtonText}>Save</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : (
+            <>
+              <View style={styles.estimateRow}>
+                <Text style={styles.optionLabel}>Estimate</Text>
+                <TextInput
+                  style={[styles.input, styles.estimateInput]}
+                  value={estimateText}
+                  onChangeText={setEstimateText}
+                  onEndEditing={saveEstimate}
+                  onSubmitEditing={saveEstimate}
+                  keyboardType="number-pad"
+                  placeholder={rolledUpEstimate !== null ? `${Math.round(rolledUpEstimate / 60)} from subtasks` : 'None'}
+                />
+                <Text style={styles.fieldLabel}>min</Text>
+              </View>
+              {error && <Text style={styles.errorText}>{error}</Text>}
+
+              {/* 计时规则：子记录能否同时计时，休息是否计入本记录 */}
+              {record.children.length > 0 && (
+                <>
+                  <View style={styles.policyRow}>
+                    <Text style={styles.optionLabel}>Subtasks run</Text>
+                    <View style={styles.chipRow}>
+                      {CONCURRENCY_OPTIONS.map(option => (
+                        <TouchableOpacity
+                          key={option.key}
+                          style={[styles.chip, policy.children === option.key && styles.chipSelected]}
+                          onPress={() => onSetPolicy({ ...policy, children: option.key })}
+                        >
+                          <Text style={[styles.chipText, policy.children === option.key && styles.chipTextSelected]}>
+                            {option.label}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </View>
+                  <View style={styles.policyRow}>
+                    <Text style={styles.optionLabel}>Count breaks</Text>
+                    <Switch value={policy.countBreaks} onValueChange={countBreaks => onSetPolicy({ ...policy, countBreaks })} />
+                  </View>
+                </>
+              )}
+
+              <View style={styles.toolbar}>
+                <TouchableOpacity
+                  onPress={() => openForm({
+                    mode: 'add',
+                    start: formatDateTime(Date.now() - 30 * 60 * 1000),
+                    end: formatDateTime(Date.now()),
+                  })}
+                >
+                  <Text style={styles.linkText}>+ Add time</Text>
+                </TouchableOpacity>
+                {record.isRunning && (
+                  <TouchableOpacity onPress={() => openForm({ mode: 'stopAt', end: formatDateTime(Date.now()) })}>
+                    <Text style={styles.linkText}>Stop at…</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+
+              <ScrollView>
+                {record.isRunning && record.startTime && (
+                  <View style={styles.intervalRow}>
+                    <Text style={styles.runningText}>Running since {formatDateTime(record.startTime)}</Text>
+                  </View>
+                )}
+                {entries.length === 0 && !record.isRunning && (
+                  <Text style={styles.emptyText}>No time recorded yet.</Text>
+                )}
+                {entries.map(({ interval, index }) => (
+                  <View key={`${interval.start}-${index}`} style={styles.intervalRow}>
+                    <TouchableOpacity
+                      style={styles.intervalContent}
+                      onPress={() => openForm({
+                        mode: 'edit',
+                        index,
+                        start: formatDateTime(interval.start),
+                        end: formatDateTime(interval.end),
+                      })}
+                    >
+                      <Text style={styles.intervalText}>
+                        {formatDateTime(interval.start)} – {formatDateTime(interval.end).slice(11)}
+                      </Text>
+                      <Text style={styles.durationText}>{formatDuration(getIntervalSeconds(interval))}</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => confirmDelete(index)}>
+                      <Text style={styles.deleteText}>Delete</Text>
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </ScrollView>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 16,
+    paddingBottom: 32,
+    maxHeight: '70%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  linkText: {
+    color: '#2196F3',
+    fontSize: 16,
+  },
+  estimateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 4,
+  },
+  estimateInput: {
+    flex: 1,
+  },
+  policyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f8f9fa',
+  },
+  chipSelected: {
+    backgroundColor: '#2196F3',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  optionLabel: {
+    fontSize: 16,
+    color: '#333',
+  },
+  toolbar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+  },
+  intervalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#eee',
+  },
+  intervalContent: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  intervalText: {
+    fontSize: 15,
+    color: '#333',
+  },
+  durationText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  runningText: {
+    fontSize: 15,
+    color: '#4CAF50',
+  },
+  deleteText: {
+    fontSize: 14,
+    color: '#FF3B30',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  form: {
+    gap: 6,
+  },
+  formTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  fieldLabel: {
+    fontSize: 13,
+    color: '#666',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#FF3B30',
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 16,
+    marginTop: 8,
+  },
+  cancelText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  saveButton: {
+    backgroundColor: '#2196F3',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,122 @@
+import { View, Text, TouchableOpacity, StyleSheet, Modal, ScrollView } from 'react-native';
+
+/**
+ * 移动目标
+ * - node: 当前记录树中的记录
+ * - root: 另一条根记录（另一棵树）
+ * - newRoot: 作为新的根记录
+ */
+export interface MoveTarget {
+  kind: 'node' | 'root' | 'newRoot';
+  id: string | null;
+  label: string;
+  depth: number;
+}
+
+interface MoveTargetModalProps {
+  visible: boolean;
+  recordLabel: string;
+  targets: MoveTarget[];
+  onSelect: (target: MoveTarget) => void;
+  onClose: () => void;
+}
+
+/**
+ * 选择移动目标的弹窗
+ */
+export default function MoveTargetModal({ visible, recordLabel, targets, onSelect, onClose }: MoveTargetModalProps) {
+  const sections: { title: string; kind: MoveTarget['kind'] }[] = [
+    { title: 'This recording', kind: 'node' },
+    { title: 'Other recordings', kind: 'root' },
+    { title: 'Top level', kind: 'newRoot' },
+  ];
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title} numberOfLines={1}>Move “{recordLabel}”</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView>
+            {sections.map(section => {
+              const items = targets.filter(target => target.kind === section.kind);
+              if (items.length === 0) {
+                return null;
+              }
+              return (
+                <View key={section.kind} style={styles.section}>
+                  <Text style={styles.sectionTitle}>{section.title}</Text>
+                  {items.map(target => (
+                    <TouchableOpacity
+                      key={`${target.kind}-${target.id}`}
+                      style={[styles.targetRow, { paddingLeft: 8 + target.depth * 16 }]}
+                      onPress={() => onSelect(target)}
+                    >
+                      <Text style={styles.targetLabel} numberOfLines={1}>{target.label}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              );
+            })}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 16,
+    paddingBottom: 32,
+    maxHeight: '70%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  cancelText: {
+    color: '#2196F3',
+    fontSize: 16,
+  },
+  section: {
+    marginTop: 12,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+  targetRow: {
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#eee',
+  },
+  targetLabel: {
+    fontSize: 16,
+    color: '#333',
+  },
+});
@@ -0,0 +1,211 @@
+import { View, Text, TouchableOpacity, StyleSheet, Modal, TextInput, ScrollView, Alert } from 'react-native';
+import { useState } from 'react';
+import { createTag, Tag, TAG_COLORS } from '@/services/tags';
+
+interface TagPickerModalProps {
+  visible: boolean;
+  tags: Tag[];
+  selectedIds: string[];
+  onToggle: (tagId: string) => void;
+  onChangeTags: (tags: Tag[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * 标签选择与管理弹窗
+ * 点击切换记录上的标签，长按删除标签，底部可新建标签
+ */
+export default function TagPickerModal({
+  visible,
+  tags,
+  selectedIds,
+  onToggle,
+  onChangeTags,
+  onClose,
+}: TagPickerModalProps) {
+  const [newTagName, setNewTagName] = useState('');
+  const [newTagColor, setNewTagColor] = useState(TAG_COLORS[0]);
+
+  // 新建标签并直接加到当前记录上
+  const handleAddTag = () => {
+    if (!newTagName.trim()) {
+      return;
+    }
+    const tag = createTag(Date.now().toString(), newTagName, newTagColor);
+    onChangeTags([...tags, tag]);
+    onToggle(tag.id);
+    setNewTagName('');
+  };
+
+  // 删除标签前确认，记录上残留的标签 ID 会被忽略
+  const handleDeleteTag = (tag: Tag) => {
+    Alert.alert(
+      "Delete Tag",
+      `Delete "${tag.name}"? It will be removed from every recording.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Delete", style: "destructive", onPress: () => onChangeTags(tags.filter(item => item.id !== tag.id)) }
+      ]
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Tags</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.doneText}>Done</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.tagList}>
+            {tags.length === 0 && (
+              <Text style={styles.emptyText}>No tags yet. Create one below.</Text>
+            )}
+            {tags.map(tag => (
+              <TouchableOpacity
+                key={tag.id}
+                style={styles.tagRow}
+                onPress={() => onToggle(tag.id)}
+                onLongPress={() => handleDeleteTag(tag)}
+              >
+                <View style={[styles.colorDot, { backgroundColor: tag.color }]} />
+                <Text style={styles.tagName}>{tag.name}</Text>
+                {selectedIds.includes(tag.id) && <Text style={styles.checkmark}>✓</Text>}
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+          {tags.length > 0 && (
+            <Text style={styles.hintText}>Long press a tag to delete it</Text>
+          )}
+
+          {/* 新建标签 */}
+          <View style={styles.newTagRow}>
+            <TextInput
+              style={styles.newTagInput}
+              value={newTagName}
+              onChangeText={setNewTagName}
+              placeholder="New tag..."
+              onSubmitEditing={handleAddTag}
+            />
+            <TouchableOpacity style={styles.addButton} onPress={handleAddTag}>
+              <Text style={styles.addButtonText}>Add</Text>
+            </TouchableOpacity>
+          </View>
+          <View style={styles.colorRow}>
+            {TAG_COLORS.map(color => (
+              <TouchableOpacity
+                key={color}
+                style={[styles.colorOption, { backgroundColor: color }, newTagColor === color && styles.colorSelected]}
+                onPress={() => setNewTagColor(color)}
+              />
+            ))}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 16,
+    paddingBottom: 32,
+    maxHeight: '70%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  doneText: {
+    color: '#2196F3',
+    fontSize: 16,
+  },
+  tagList: {
+    flexGrow: 0,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    paddingVertical: 8,
+  },
+  tagRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+  },
+  colorDot: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+  },
+  tagName: {
+    flex: 1,
+    fontSize: 16,
+    color: '#333',
+  },
+  checkmark: {
+    fontSize: 16,
+    color: '#2196F3',
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+  newTagRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 16,
+  },
+  newTagInput: {
+    flex: 1,
+    fontSize: 16,
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: '#f8f9fa',
+  },
+  addButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#2196F3',
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 16,
+  },
+  colorRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+    marginTop: 12,
+  },
+  colorOption: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+  },
+  colorSelected: {
+    borderWidth: 3,
+    borderColor: '#333',
+  },
+});
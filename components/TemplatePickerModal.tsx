@@ -0,0 +1,182 @@
+import { View, Text, TouchableOpacity, StyleSheet, Modal, ScrollView, TextInput, Alert } from 'react-native';
+import { useState } from 'react';
+import { Ionicons } from '@expo/vector-icons';
+import { countTemplateNodes, RecordTemplate } from '@/services/templates';
+
+interface TemplatePickerModalProps {
+  visible: boolean;
+  templates: RecordTemplate[];
+  onSelectEmpty: () => void;
+  onSelect: (template: RecordTemplate) => void;
+  onChangeTemplates: (templates: RecordTemplate[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * 新建记录时选择模板，也可以重命名或删除模板
+ */
+export default function TemplatePickerModal({
+  visible,
+  templates,
+  onSelectEmpty,
+  onSelect,
+  onChangeTemplates,
+  onClose,
+}: TemplatePickerModalProps) {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+
+  const startRenaming = (template: RecordTemplate) => {
+    setRenamingId(template.id);
+    setName(template.name);
+  };
+
+  // 保存新名称，空名称保持原样
+  const finishRenaming = () => {
+    if (renamingId && name.trim()) {
+      onChangeTemplates(templates.map(template =>
+        template.id === renamingId ? { ...template, name: name.trim() } : template
+      ));
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = (template: RecordTemplate) => {
+    Alert.alert(
+      "Delete Template",
+      `Delete "${template.name}"? Recordings created from it are kept.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Delete", style: "destructive", onPress: () => onChangeTemplates(templates.filter(item => item.id !== template.id)) }
+      ]
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>New Recording</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView>
+            <TouchableOpacity style={styles.row} onPress={onSelectEmpty}>
+              <Ionicons name="add-circle-outline" size={22} color="#2196F3" />
+              <Text style={styles.rowLabel}>Empty recording</Text>
+            </TouchableOpacity>
+
+            <Text style={styles.sectionTitle}>Templates</Text>
+            {templates.map(template => (
+              <View key={template.id} style={styles.row}>
+                <View style={[styles.colorDot, { backgroundColor: template.root.avatarColor }]} />
+                {renamingId === template.id ? (
+                  <TextInput
+                    style={styles.input}
+                    value={name}
+                    onChangeText={setName}
+                    onSubmitEditing={finishRenaming}
+                    onBlur={finishRenaming}
+                    autoFocus
+                  />
+                ) : (
+                  <TouchableOpacity style={styles.rowContent} onPress={() => onSelect(template)}>
+                    <Text style={styles.rowLabel} numberOfLines={1}>{template.name}</Text>
+                    <Text style={styles.rowDetail}>
+                      {countTemplateNodes(template.root)} task{countTemplateNodes(template.root) === 1 ? '' : 's'}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity style={styles.iconButton} onPress={() => startRenaming(template)}>
+                  <Ionicons name="pencil-outline" size={18} color="#666" />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(template)}>
+                  <Ionicons name="trash-outline" size={18} color="#FF3B30" />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 16,
+    paddingBottom: 32,
+    maxHeight: '70%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  cancelText: {
+    color: '#2196F3',
+    fontSize: 16,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+    textTransform: 'uppercase',
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#eee',
+  },
+  rowContent: {
+    flex: 1,
+  },
+  rowLabel: {
+    fontSize: 16,
+    color: '#333',
+  },
+  rowDetail: {
+    fontSize: 12,
+    color: '#999',
+  },
+  colorDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 16,
+  },
+  iconButton: {
+    padding: 4,
+  },
+});
@@ -0,0 +1,44 @@
+import { useCallback, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import { useFocusEffect } from 'expo-router';
+import storageService, { TimeRecord } from '@/services/storage/index';
+import { loadSettings } from '@/services/settings';
+import { findIdleTimer, IdleTimer } from '@/services/timer';
+
+/**
+ * 检查是否有计时超过闲置阈值的记录
+ * 页面获得焦点和应用回到前台时检查，只在获得焦点的页面上监听，避免多个页面同时弹窗
+ * @param loadTrees - 加载要检查的记录树
+ */
+export function useIdleDetection(loadTrees: () => Promise<TimeRecord[]>) {
+  const [idleTimer, setIdleTimer] = useState<IdleTimer | null>(null);
+  const loadTreesRef = useRef(loadTrees);
+  loadTreesRef.current = loadTrees;
+
+  const checkIdleTimer = useCallback(async () => {
+    try {
+      const [trees, settings] = await Promise.all([loadTreesRef.current(), loadSettings(storageService)]);
+      setIdleTimer(settings.idleThresholdMinutes > 0
+        ? findIdleTimer(trees, settings.idleThresholdMinutes, Date.now())
+        : null);
+    } catch (error) {
+      console.error('Error checking idle timers:', error);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      checkIdleTimer();
+      const subscription = AppState.addEventListener('change', state => {
+        if (state === 'active') {
+          checkIdleTimer();
+        }
+      });
+      return () => subscription.remove();
+    }, [checkIdleTimer])
+  );
+
+  const dismissIdleTimer = useCallback(() => setIdleTimer(null), []);
+
+  return { idleTimer, dismissIdleTimer };
+}
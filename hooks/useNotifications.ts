@@ -0,0 +1,53 @@
+import { useEffect } from 'react';
+import { AppState, Platform } from 'react-native';
+import { router } from 'expo-router';
+import * as Notifications from 'expo-notifications';
+import storageService from '@/services/storage/index';
+import { clearNotifications, expoNotifier, scheduleNotifications } from '@/services/notifications';
+
+/**
+ * 应用进入后台时安排本地通知，回到前台时全部取消，前台由界面自己显示状态
+ * 点击通知时打开通知里的页面
+ */
+export function useNotifications() {
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      const task = state === 'active'
+        ? clearNotifications(expoNotifier)
+        : scheduleNotifications(storageService, expoNotifier, Date.now());
+      task.catch(error => console.error('Error updating notifications:', error));
+    });
+    return () => subscription.remove();
+  }, []);
+
+  useEffect(() => {
+    // 网页端没有通知响应，expo-notifications 会抛出 UnavailabilityError
+    if (Platform.OS === 'web') {
+      return;
+    }
+    let isMounted = true;
+
+    const openNotification = (notification: Notifications.Notification) => {
+      const url = notification.request.content.data?.url;
+      if (typeof url === 'string') {
+        router.push(url);
+      }
+    };
+
+    // 应用被通知冷启动时，处理启动它的那条通知
+    Notifications.getLastNotificationResponseAsync().then(response => {
+      if (isMounted && response?.notification) {
+        openNotification(response.notification);
+      }
+    }).catch(error => console.error('Error reading the last notification response:', error));
+
+    const subscription = Notifications.addNotificationResponseReceivedListener(response => {
+      openNotification(response.notification);
+    });
+
+    return () => {
+      isMounted = false;
+      subscription.remove();
+    };
+  }, []);
+}
@@ -0,0 +1,163 @@
+import { TimeRecord } from '../../storage/interfaces';
+import { WORKDAYS } from '../../goals/goals';
+import { DEFAULT_SETTINGS } from '../../settings/settings';
+import { CURRENT_SCHEMA_VERSION } from '../../storage/migrations';
+import { createTemplate } from '../../templates/templates';
+import {
+  BACKUP_FORMAT,
+  BackupValidationError,
+  createBackupDocument,
+  mergeRecordTrees,
+  parseBackupDocument,
+} from '../backup-document';
+
+const T0 = Date.UTC(2025, 0, 1, 9, 0, 0);
+
+const record = (id: string, parentId: string | null, children: TimeRecord[] = []): TimeRecord => ({
+  id,
+  time: 10,
+  baseTime: 10,
+  intervals: [{ start: T0, end: T0 + 10_000 }],
+  isRunning: false,
+  label: id,
+  children,
+  parentId,
+  avatarColor: '#000',
+  createdAt: new Date(T0),
+});
+
+const trees = () => [
+  record('root', null, [record('a', 'root', [record('a1', 'a')]), record('b', 'root')]),
+  record('other', null),
+];
+
+describe('createBackupDocument', () => {
+  it('records the format, schema version and every node', () => {
+    const document = createBackupDocument(trees(), new Date(T0));
+
+    expect(document.format).toBe(BACKUP_FORMAT);
+    expect(document.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(document.exportedAt).toBe('2025-01-01T09:00:00.000Z');
+    expect(document.recordCount).toBe(5);
+  });
+});
+
+describe('parseBackupDocument', () => {
+  it('restores the exported trees', () => {
+    const json = JSON.stringify(createBackupDocument(trees(), new Date(T0)));
+
+    const { trees: restored } = parseBackupDocument(json);
+
+    expect(restored.map(tree => tree.id)).toEqual(['root', 'other']);
+    expect(restored[0].children.map(child => child.id)).toEqual(['a', 'b']);
+    expect(restored[0].children[0].children[0].id).toBe('a1');
+    expect(restored[0].createdAt).toEqual(new Date(T0));
+  });
+
+  it('restores tags and accepts backups written without them', () => {
+    const tag = { id: 't1', name: 'Work', color: '#FF6B6B' };
+    const document = createBackupDocument(trees(), new Date(T0), { tags: [tag] });
+    const { tags: _tags, ...withoutTags } = document;
+
+    expect(parseBackupDocument(JSON.stringify(document)).tags).toEqual([tag]);
+    expect(parseBackupDocument(JSON.stringify(withoutTags)).tags).toEqual([]);
+  });
+
+  it('round-trips templates and accepts backups written without them', () => {
+    const template = createTemplate('tpl', 'Weekly review', { ...record('root', null, [record('a', 'root')]), estimate: 3600 }, T0);
+    const document = createBackupDocument(trees(), new Date(T0), { templates: [template] });
+    const { templates: _templates, ...withoutTemplates } = document;
+
+    expect(parseBackupDocument(JSON.stringify(document)).templates).toEqual([template]);
+    expect(parseBackupDocument(JSON.stringify(withoutTemplates)).templates).toEqual([]);
+  });
+
+  it('round-trips schedules, goals and settings and accepts backups written without them', () => {
+    const schedule = { id: 's1', templateId: 'tpl', recurrence: { type: 'weekly' as const, weekdays: [1, 3] }, hour: 9, minute: 0, createdAt: T0, lastRunAt: T0 + 1000 };
+    const goal = { id: 'g1', scope: { type: 'tag' as const, tagId: 't1' }, period: 'day' as const, targetMinutes: 90, weekdays: WORKDAYS };
+    const settings = { ...DEFAULT_SETTINGS, trashRetentionDays: 7 };
+    const document = createBackupDocument(trees(), new Date(T0), { schedules: [schedule], goals: [goal], settings });
+    const { schedules: _schedules, goals: _goals, settings: _settings, ...older } = document;
+
+    expect(parseBackupDocument(JSON.stringify(document))).toMatchObject({ schedules: [schedule], goals: [goal], settings });
+    expect(parseBackupDocument(JSON.stringify(older))).toMatchObject({ schedules: [], goals: [], settings: undefined });
+  });
+
+  it('fills in settings that an older backup did not have', () => {
+    const document = { ...createBackupDocument([], new Date(T0)), settings: { trashRetentionDays: 7 } };
+
+    expect(parseBackupDocument(JSON.stringify(document)).settings).toEqual({ ...DEFAULT_SETTINGS, trashRetentionDays: 7 });
+  });
+
+  it.each([
+    ['templates', { templates: [{ id: 'tpl', name: 'Broken', createdAt: T0, root: { label: 'root', avatarColor: '#000' } }] }],
+    ['schedules', { schedules: [{ id: 's1', templateId: 'tpl', recurrence: { type: 'hourly' }, hour: 9, minute: 0, createdAt: T0 }] }],
+    ['goals', { goals: [{ id: 'g1', scope: { type: 'all' }, period: 'month', targetMinutes: 60 }] }],
+    ['settings', { settings: { singleActiveTimer: 'yes' } }],
+  ])('rejects invalid %s', (name, values) => {
+    const json = JSON.stringify({ ...createBackupDocument([], new Date(T0)), ...values });
+
+    expect(() => parseBackupDocument(json)).toThrow(`invalid ${name}`);
+  });
+
+  it('migrates backups written with an older schema', () => {
+    const json = JSON.stringify({
+      format: BACKUP_FORMAT,
+      formatVersion: 1,
+      schemaVersion: 0,
+      exportedAt: new Date(T0).toISOString(),
+      recordCount: 1,
+      records: [{
+        id: 'old', label: 'Old', time: 60, isRunning: false, parentId: null,
+        createdAt: new Date(T0).toISOString(), isEditing: true,
+        children: [{ id: 'child', label: 'Child', time: 30, isRunning: false, createdAt: new Date(T0).toISOString(), children: [] }],
+      }],
+    });
+
+    const { trees: [restored] } = parseBackupDocument(json);
+
+    expect(restored.baseTime).toBe(60);
+    expect(restored.children[0].intervals).toEqual([{ start: T0, end: T0 + 30_000, synthetic: true }]);
+  });
+
+  it.each([
+    ['not JSON', 'not json'],
+    ['a foreign document', JSON.stringify({ format: 'other' })],
+    ['a newer schema', JSON.stringify({ ...createBackupDocument([], new Date(T0)), schemaVersion: CURRENT_SCHEMA_VERSION + 1 })],
+    ['a record that is not an object', JSON.stringify({ ...createBackupDocument([], new Date(T0)), records: [null], recordCount: 1 })],
+    ['a truncated record list', JSON.stringify({ ...createBackupDocument(trees(), new Date(T0)), recordCount: 6 })],
+  ])('rejects %s', (_, json) => {
+    expect(() => parseBackupDocument(json)).toThrow(BackupValidationError);
+  });
+
+  it('rejects records whose parent is missing', () => {
+    const document = createBackupDocument(trees(), new Date(T0));
+    const records = document.records.filter(item => item.id !== 'a');
+
+    expect(() => parseBackupDocument(JSON.stringify({ ...document, records, recordCount: records.length })))
+      .toThrow('missing parent');
+  });
+
+  it('rejects invalid intervals', () => {
+    const document = createBackupDocument([record('root', null)], new Date(T0));
+    document.records[0].intervals = [{ start: T0, end: T0 - 1 }];
+
+    expect(() => parseBackupDocument(JSON.stringify(document))).toThrow('invalid intervals');
+  });
+});
+
+describe('mergeRecordTrees', () => {
+  it('overwrites matching records and keeps local-only children', () => {
+    const local = record('root', null, [record('a', 'root'), record('local', 'root')]);
+    const incoming = { ...record('root', null, [{ ...record('a', 'root'), label: 'Imported' }, record('new', 'root')]), label: 'Root' };
+
+    const merged = mergeRecordTrees(local, incoming);
+
+    expect(merged.label).toBe('Root');
+    expect(merged.children.map(child => [child.id, child.label])).toEqual([
+      ['a', 'Imported'],
+      ['local', 'local'],
+      ['new', 'new'],
+    ]);
+  });
+});
@@ -0,0 +1,86 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { loadGoals, saveGoals } from '../../goals/goal-service';
+import { loadSchedules, saveSchedules } from '../../schedules/schedule-service';
+import { DEFAULT_SETTINGS } from '../../settings/settings';
+import { loadSettings, saveSettings } from '../../settings/settings-service';
+import { TimeRecord } from '../../storage/interfaces';
+import { JsonStorageProvider } from '../../storage/json-storage-provider';
+import { StorageService } from '../../storage/storage-service';
+import { loadTemplates, saveTemplates } from '../../templates/template-service';
+import { createTemplate } from '../../templates/templates';
+import { createTimeRecord } from '../../timer/timer-tree';
+import { exportBackup, importBackup } from '../backup-service';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const T0 = Date.UTC(2025, 0, 1, 9, 0, 0);
+
+const record = (id: string, parentId: string | null, children: TimeRecord[] = []): TimeRecord => ({
+  ...createTimeRecord({ id, label: id, parentId, avatarColor: '#000', createdAt: new Date(T0) }),
+  children,
+});
+
+const createStorage = async () => {
+  await AsyncStorage.clear();
+  const storage = new StorageService(new JsonStorageProvider());
+  await storage.initialize();
+  return storage;
+};
+
+describe('exportBackup and importBackup', () => {
+  it('keep archived and trashed recordings through a replace import', async () => {
+    const storage = await createStorage();
+    await storage.saveRecords([record('active', null), record('archived', null), record('trashed', null, [record('child', 'trashed')])]);
+    await storage.archiveRecord('archived', T0);
+    await storage.trashRecord('trashed', T0 + 1000);
+
+    const json = await exportBackup(storage, new Date(T0));
+    await storage.clearStorage();
+    await importBackup(storage, json, 'replace');
+
+    expect((await storage.loadRecords()).map(tree => [tree.id, tree.archivedAt])).toEqual([
+      ['active', undefined],
+      ['archived', T0],
+    ]);
+    const [trashed] = await storage.loadTrashedRecords();
+    expect([trashed.id, trashed.deletedAt, trashed.children.map(child => child.id)]).toEqual(['trashed', T0 + 1000, ['child']]);
+  });
+
+  it('restore templates, replacing or merging with the local ones', async () => {
+    const storage = await createStorage();
+    const exported = createTemplate('review', 'Review', record('review', null), T0);
+    await saveTemplates(storage, [exported]);
+    const json = await exportBackup(storage, new Date(T0));
+
+    const local = createTemplate('local', 'Local', record('local', null), T0);
+    await saveTemplates(storage, [local, { ...exported, name: 'Renamed' }]);
+    await importBackup(storage, json, 'merge');
+    expect(await loadTemplates(storage)).toEqual([local, exported]);
+
+    await importBackup(storage, json, 'replace');
+    expect(await loadTemplates(storage)).toEqual([exported]);
+  });
+
+  it('restore schedules, goals and settings; merging keeps the current settings', async () => {
+    const storage = await createStorage();
+    const schedule = { id: 's1', templateId: 'review', recurrence: { type: 'daily' as const }, hour: 9, minute: 0, createdAt: T0, lastRunAt: T0 + 1000 };
+    const goal = { id: 'g1', scope: { type: 'all' as const }, period: 'week' as const, targetMinutes: 600 };
+    await saveSchedules(storage, [schedule]);
+    await saveGoals(storage, [goal]);
+    await saveSettings(storage, { ...DEFAULT_SETTINGS, singleActiveTimer: true });
+    const json = await exportBackup(storage, new Date(T0));
+
+    await saveSchedules(storage, []);
+    await saveGoals(storage, []);
+    await saveSettings(storage, DEFAULT_SETTINGS);
+    await importBackup(storage, json, 'merge');
+    expect(await loadSchedules(storage)).toEqual([schedule]);
+    expect(await loadGoals(storage)).toEqual([goal]);
+    expect((await loadSettings(storage)).singleActiveTimer).toBe(false);
+
+    await importBackup(storage, json, 'replace');
+    expect((await loadSettings(storage)).singleActiveTimer).toBe(true);
+  });
+});
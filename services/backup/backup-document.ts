@@ -0,0 +1,293 @@
+import { Goal } from '../goals/goals';
+import { Schedule } from '../schedules/recurrence';
+import { AppSettings, withDefaultSettings } from '../settings/settings';
+import { PersistedTimeRecord, TimeRecord } from '../storage/interfaces';
+import { CURRENT_SCHEMA_VERSION, migrateRecords, StoredRecord } from '../storage/migrations';
+import { buildRecordTrees, flattenRecordTree } from '../storage/record-tree';
+import { serializeRecord } from '../storage/serialization';
+import { Tag } from '../tags/tags';
+import { RecordTemplate, TemplateNode } from '../templates/templates';
+
+export const BACKUP_FORMAT = 'recorder-fast-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+export const BACKUP_MIME_TYPE = 'application/json';
+
+/**
+ * A complete export of all recordings.
+ * Records are kept in their stored shape (one entry per node) together with
+ * the schema version, so older backups go through the regular migrations.
+ */
+export interface BackupDocument {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  schemaVersion: number;
+  exportedAt: string;
+  recordCount: number;
+  records: StoredRecord[];
+  tags?: Tag[];                  // missing in backups written before tags existed
+  templates?: RecordTemplate[];  // missing in backups written before templates existed
+  schedules?: Schedule[];        // with the time each one last ran
+  goals?: Goal[];
+  settings?: AppSettings;
+}
+
+/**
+ * App data saved next to the recordings
+ */
+export interface BackupValues {
+  tags: Tag[];
+  templates: RecordTemplate[];
+  schedules: Schedule[];
+  goals: Goal[];
+  settings?: AppSettings;  // missing in backups written before settings were included
+}
+
+/**
+ * The validated contents of a backup file
+ */
+export interface ParsedBackup extends BackupValues {
+  trees: TimeRecord[];
+}
+
+/**
+ * How an imported backup is combined with the existing recordings
+ * - merge: records with the same ID are overwritten, everything else is kept
+ * - replace: all existing recordings are removed first
+ */
+export type ImportMode = 'merge' | 'replace';
+
+/**
+ * Raised when a backup file cannot be imported
+ */
+export class BackupValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupValidationError';
+  }
+}
+
+/**
+ * Build a backup document from every root record tree and the app data saved next to them
+ */
+export function createBackupDocument(
+  trees: TimeRecord[],
+  exportedAt: Date,
+  { tags = [], templates = [], schedules = [], goals = [], settings }: Partial<BackupValues> = {}
+): BackupDocument {
+  const records = trees
+    .flatMap((tree, index) => flattenRecordTree(tree, index))
+    .map(record => JSON.parse(serializeRecord(record)));
+
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    recordCount: records.length,
+    records,
+    tags,
+    templates,
+    schedules,
+    goals,
+    settings,
+  };
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptionalOf = (value: unknown, type: string) => value === undefined || typeof value === type;
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isInterval = (value: unknown) =>
+  isObject(value) && typeof value.start === 'number' && typeof value.end === 'number' && value.end >= value.start &&
+  isOptionalOf(value.synthetic, 'boolean');
+
+const isHistoryEntry = (value: unknown) =>
+  isObject(value) && typeof value.type === 'string' && typeof value.decidedAt === 'number';
+
+const isPomodoroState = (value: unknown) =>
+  isObject(value) && isObject(value.settings) && typeof value.phase === 'string' &&
+  typeof value.phaseStart === 'number' && typeof value.completedCycles === 'number';
+
+const isTimerPolicy = (value: unknown) =>
+  isObject(value) && (value.children === 'exclusive' || value.children === 'parallel') && typeof value.countBreaks === 'boolean';
+
+const isEstimate = (value: unknown) => typeof value === 'number' && value >= 0;
+
+/**
+ * Check a migrated record and restore its dates
+ */
+const validateRecord = (raw: StoredRecord, index: number): PersistedTimeRecord => {
+  const fail = (reason: string): never => {
+    throw new BackupValidationError(`Record ${index + 1} ${reason}`);
+  };
+
+  if (typeof raw.id !== 'string' || raw.id.length === 0) fail('has no ID');
+  if (typeof raw.label !== 'string') fail('has no label');
+  if (raw.parentId !== null && typeof raw.parentId !== 'string') fail('has an invalid parent');
+  if (typeof raw.isRunning !== 'boolean') fail('has an invalid running state');
+  if (typeof raw.baseTime !== 'number' || typeof raw.time !== 'number') fail('has an invalid time');
+  if (!Array.isArray(raw.intervals) || !raw.intervals.every(isInterval)) fail('has invalid intervals');
+  if (!isOptionalOf(raw.startTime, 'number')) fail('has an invalid start time');
+  if (!isOptionalOf(raw.isBreak, 'boolean')) fail('has an invalid break flag');
+  if (raw.tagIds !== undefined && !isStringList(raw.tagIds)) fail('has invalid tags');
+  if (raw.history !== undefined && !(Array.isArray(raw.history) && raw.history.every(isHistoryEntry))) {
+    fail('has an invalid history');
+  }
+  if (raw.pomodoro !== undefined && !isPomodoroState(raw.pomodoro)) fail('has an invalid Pomodoro state');
+  if (raw.estimate !== undefined && !isEstimate(raw.estimate)) fail('has an invalid estimate');
+  if (raw.policy !== undefined && !isTimerPolicy(raw.policy)) fail('has invalid timer rules');
+  if (!isOptionalOf(raw.archivedAt, 'number')) fail('has an invalid archive time');
+  if (!isOptionalOf(raw.deletedAt, 'number')) fail('has an invalid deletion time');
+  if (!isOptionalOf(raw.scheduledAt, 'number')) fail('has an invalid scheduled time');
+
+  const createdAt = typeof raw.createdAt === 'string' || typeof raw.createdAt === 'number'
+    ? new Date(raw.createdAt)
+    : null;
+  if (!createdAt || isNaN(createdAt.getTime())) fail('has an invalid creation date');
+
+  return { ...raw, createdAt } as PersistedTimeRecord;
+};
+
+const isTag = (value: unknown): value is Tag =>
+  isObject(value) && typeof value.id === 'string' && typeof value.name === 'string' && typeof value.color === 'string';
+
+const isTemplateNode = (value: unknown): value is TemplateNode =>
+  isObject(value) && typeof value.label === 'string' && typeof value.avatarColor === 'string' &&
+  isOptionalOf(value.note, 'string') &&
+  (value.estimate === undefined || isEstimate(value.estimate)) &&
+  (value.policy === undefined || isTimerPolicy(value.policy)) &&
+  isOptionalOf(value.isBreak, 'boolean') &&
+  (value.tagIds === undefined || isStringList(value.tagIds)) &&
+  Array.isArray(value.children) && value.children.every(isTemplateNode);
+
+const isTemplate = (value: unknown): value is RecordTemplate =>
+  isObject(value) && typeof value.id === 'string' && typeof value.name === 'string' &&
+  typeof value.createdAt === 'number' && isTemplateNode(value.root);
+
+const isWeekdayList = (value: unknown) =>
+  Array.isArray(value) && value.every(day => Number.isInteger(day) && day >= 0 && day <= 6);
+
+const isRecurrence = (value: unknown) =>
+  isObject(value) && (value.type === 'daily' || value.type === 'weekdays' || (value.type === 'weekly' && isWeekdayList(value.weekdays)));
+
+const isSchedule = (value: unknown): value is Schedule =>
+  isObject(value) && typeof value.id === 'string' && typeof value.templateId === 'string' && isRecurrence(value.recurrence) &&
+  typeof value.hour === 'number' && typeof value.minute === 'number' && typeof value.createdAt === 'number' &&
+  isOptionalOf(value.lastRunAt, 'number');
+
+const isGoalScope = (value: unknown) =>
+  isObject(value) && (value.type === 'all' ||
+    (value.type === 'root' && typeof value.rootId === 'string') ||
+    (value.type === 'tag' && typeof value.tagId === 'string'));
+
+const isGoal = (value: unknown): value is Goal =>
+  isObject(value) && typeof value.id === 'string' && isGoalScope(value.scope) &&
+  (value.period === 'day' || value.period === 'week') && typeof value.targetMinutes === 'number' &&
+  (value.weekdays === undefined || isWeekdayList(value.weekdays));
+
+// Options missing from settings written by an older version get their defaults on import
+const isSettings = (value: unknown): value is Partial<AppSettings> =>
+  isObject(value) &&
+  isOptionalOf(value.idleThresholdMinutes, 'number') && isOptionalOf(value.trashRetentionDays, 'number') &&
+  isOptionalOf(value.singleActiveTimer, 'boolean') &&
+  (value.pomodoro === undefined || isObject(value.pomodoro)) &&
+  (value.notifications === undefined || isObject(value.notifications));
+
+/**
+ * Read an optional list of app data, empty when the backup predates it
+ */
+const parseList = <T>(value: unknown, isItem: (item: unknown) => item is T, name: string): T[] => {
+  const list = value ?? [];
+  if (!Array.isArray(list) || !list.every(isItem)) {
+    throw new BackupValidationError(`The backup contains invalid ${name}`);
+  }
+  return list;
+};
+
+/**
+ * Parse and validate a backup file, returning the root record trees and the app data it contains
+ * @throws BackupValidationError when the file is not a usable backup
+ */
+export function parseBackupDocument(json: string): ParsedBackup {
+  let document: unknown;
+  try {
+    document = JSON.parse(json);
+  } catch {
+    throw new BackupValidationError('The file is not valid JSON');
+  }
+
+  if (!isObject(document) || document.format !== BACKUP_FORMAT) {
+    throw new BackupValidationError('The file is not a recorder backup');
+  }
+  if (typeof document.formatVersion !== 'number' || document.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new BackupValidationError('The backup format is not supported by this version of the app');
+  }
+  const { schemaVersion } = document;
+  if (typeof schemaVersion !== 'number' || !Number.isInteger(schemaVersion) || schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new BackupValidationError('The backup was created by a newer version of the app');
+  }
+  if (!Array.isArray(document.records) || document.records.length !== document.recordCount) {
+    throw new BackupValidationError('The backup is incomplete');
+  }
+  if (!document.records.every(isObject)) {
+    throw new BackupValidationError('The backup contains invalid records');
+  }
+  const tags = parseList(document.tags, isTag, 'tags');
+  const templates = parseList(document.templates, isTemplate, 'templates');
+  const schedules = parseList(document.schedules, isSchedule, 'schedules');
+  const goals = parseList(document.goals, isGoal, 'goals');
+  let settings: AppSettings | undefined;
+  if (document.settings !== undefined) {
+    if (!isSettings(document.settings)) {
+      throw new BackupValidationError('The backup contains invalid settings');
+    }
+    settings = withDefaultSettings(document.settings);
+  }
+
+  const records = migrateRecords(document.records, schemaVersion).map(validateRecord);
+
+  const ids = new Set<string>();
+  for (const record of records) {
+    if (ids.has(record.id)) {
+      throw new BackupValidationError(`Record ${record.id} appears more than once`);
+    }
+    ids.add(record.id);
+  }
+  for (const record of records) {
+    if (record.parentId !== null && !ids.has(record.parentId)) {
+      throw new BackupValidationError(`Record ${record.id} belongs to a missing parent`);
+    }
+  }
+
+  // Records caught in a parent cycle never hang below a root
+  const trees = buildRecordTrees(records);
+  const countNodes = (tree: TimeRecord): number =>
+    1 + tree.children.reduce((total, child) => total + countNodes(child), 0);
+  if (trees.reduce((total, tree) => total + countNodes(tree), 0) !== records.length) {
+    throw new BackupValidationError('The backup contains records that form a cycle');
+  }
+  return { trees, tags, templates, schedules, goals, settings };
+}
+
+/**
+ * Merge an imported tree into an existing one.
+ * Fields of imported records win; children that exist only locally are kept.
+ */
+export function mergeRecordTrees(local: TimeRecord, incoming: TimeRecord): TimeRecord {
+  const incomingById = new Map(incoming.children.map(child => [child.id, child]));
+  const localIds = new Set(local.children.map(child => child.id));
+
+  const children = [
+    ...local.children.map(child => {
+      const match = incomingById.get(child.id);
+      return match ? mergeRecordTrees(child, match) : child;
+    }),
+    ...incoming.children.filter(child => !localIds.has(child.id)),
+  ];
+
+  return { ...incoming, children };
+}
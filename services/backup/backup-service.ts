@@ -0,0 +1,64 @@
+import { loadGoals, saveGoals } from '../goals/goal-service';
+import { loadSchedules, saveSchedules } from '../schedules/schedule-service';
+import { loadSettings, saveSettings } from '../settings/settings-service';
+import { IStorageService } from '../storage/interfaces';
+import { loadTags, saveTags } from '../tags/tag-service';
+import { loadTemplates, saveTemplates } from '../templates/template-service';
+import { createBackupDocument, ImportMode, mergeRecordTrees, parseBackupDocument } from './backup-document';
+
+/**
+ * Combine imported items with the local ones; imported items replace local items with the same ID
+ */
+const mergeById = <T extends { id: string }>(local: T[], imported: T[]): T[] => {
+  const importedIds = new Set(imported.map(item => item.id));
+  return [...local.filter(item => !importedIds.has(item.id)), ...imported];
+};
+
+/**
+ * Export every recording together with the tags, templates, schedules, goals and settings as a backup JSON string.
+ * Archived and trashed recordings are included with their archive and deletion times.
+ */
+export async function exportBackup(storage: IStorageService, exportedAt: Date = new Date()): Promise<string> {
+  const trees = [...await storage.loadRecords(), ...await storage.loadTrashedRecords()];
+  const values = {
+    tags: await loadTags(storage),
+    templates: await loadTemplates(storage),
+    schedules: await loadSchedules(storage),
+    goals: await loadGoals(storage),
+    settings: await loadSettings(storage),
+  };
+  return JSON.stringify(createBackupDocument(trees, exportedAt, values), null, 2);
+}
+
+/**
+ * Import a backup JSON string.
+ * The whole file is validated before anything is written.
+ * Replacing restores the settings of the backup; merging keeps the current ones.
+ * @returns the number of root recordings imported
+ */
+export async function importBackup(storage: IStorageService, json: string, mode: ImportMode): Promise<number> {
+  const { trees, tags, templates, schedules, goals, settings } = parseBackupDocument(json);
+
+  if (mode === 'replace') {
+    await storage.clearStorage();
+    await storage.saveRecords(trees);
+    await saveTags(storage, tags);
+    await saveTemplates(storage, templates);
+    await saveSchedules(storage, schedules);
+    await saveGoals(storage, goals);
+    if (settings) {
+      await saveSettings(storage, settings);
+    }
+    return trees.length;
+  }
+
+  for (const tree of trees) {
+    const local = await storage.loadRecord(tree.id);
+    await storage.saveRecord(local ? mergeRecordTrees(local, tree) : tree);
+  }
+  await saveTags(storage, mergeById(await loadTags(storage), tags));
+  await saveTemplates(storage, mergeById(await loadTemplates(storage), templates));
+  await saveSchedules(storage, mergeById(await loadSchedules(storage), schedules));
+  await saveGoals(storage, mergeById(await loadGoals(storage), goals));
+  return trees.length;
+}
@@ -0,0 +1,2 @@
+export * from './backup-document';
+export * from './backup-service';
@@ -0,0 +1,118 @@
+import { TimeRecord } from '../../storage/interfaces';
+import { createTimeRecord } from '../../timer/timer-tree';
+import { collectTimeRows, formatCsv, TimeRow } from '../csv-export';
+
+const T0 = new Date(2025, 0, 1, 9, 0, 0).getTime();
+const MINUTE = 60_000;
+
+const record = (
+  id: string,
+  parentId: string | null,
+  intervals: [number, number][],
+  children: TimeRecord[] = [],
+  isBreak = false
+): TimeRecord => ({
+  ...createTimeRecord({ id, label: id, parentId, avatarColor: '#000', createdAt: new Date(T0), isBreak }),
+  intervals: intervals.map(([start, end]) => ({ start: T0 + start * MINUTE, end: T0 + end * MINUTE })),
+  children,
+});
+
+/**
+ * project 0-60
+ * ├── design 0-20
+ * ├── Break 20-30
+ * └── build 30-50
+ */
+const buildTree = (): TimeRecord[] => [
+  record('project', null, [[0, 60]], [
+    record('design', 'project', [[0, 20]]),
+    record('Break', 'project', [[20, 30]], [], true),
+    record('build', 'project', [[30, 50]]),
+  ]),
+];
+
+const summary = (rows: TimeRow[]) =>
+  rows.map(row => [row.path.join('/'), row.label, row.totalSeconds, row.ownSeconds]);
+
+describe('collectTimeRows', () => {
+  it('flattens the tree with ancestor paths and own time', () => {
+    const rows = collectTimeRows(buildTree(), {}, T0);
+
+    expect(summary(rows)).toEqual([
+      ['', 'project', 3600, 600],
+      ['project', 'design', 1200, 1200],
+      ['project', 'Break', 600, 600],
+      ['project', 'build', 1200, 1200],
+    ]);
+    expect(rows[2].isBreak).toBe(true);
+  });
+
+  it('names the tags of each record', () => {
+    const trees = [{ ...record('solo', null, [[0, 1]]), tagIds: ['t1', 'deleted'] }];
+    const rows = collectTimeRows(trees, { tags: [{ id: 't1', name: 'Work', color: '#000' }] }, T0);
+
+    expect(rows[0].tags).toEqual(['Work']);
+  });
+
+  it('leaves out break records when asked to', () => {
+    const rows = collectTimeRows(buildTree(), { includeBreaks: false }, T0);
+
+    expect(rows.map(row => row.label)).toEqual(['project', 'design', 'build']);
+  });
+
+  it('counts only the time inside the date range', () => {
+    const range = { start: T0 + 10 * MINUTE, end: T0 + 35 * MINUTE };
+    const rows = collectTimeRows(buildTree(), { range }, T0);
+
+    expect(summary(rows)).toEqual([
+      ['', 'project', 1500, 0],
+      ['project', 'design', 600, 600],
+      ['project', 'Break', 600, 600],
+      ['project', 'build', 300, 300],
+    ]);
+  });
+
+  it('drops records without time in the range', () => {
+    const range = { start: T0 + 52 * MINUTE, end: T0 + 90 * MINUTE };
+    const rows = collectTimeRows(buildTree(), { range }, T0);
+
+    expect(summary(rows)).toEqual([['', 'project', 480, 480]]);
+  });
+
+  it('keeps backfilled time in the totals but not in a date range', () => {
+    const legacy = record('legacy', null, [[60, 70]]);
+    const trees = [{ ...legacy, intervals: [{ start: T0, end: T0 + 30 * MINUTE, synthetic: true }, ...legacy.intervals] }];
+
+    expect(summary(collectTimeRows(trees, {}, T0))).toEqual([['', 'legacy', 2400, 2400]]);
+    expect(summary(collectTimeRows(trees, { range: { start: T0, end: T0 + 90 * MINUTE } }, T0))).toEqual([['', 'legacy', 600, 600]]);
+  });
+
+  it('includes the running session up to now', () => {
+    const running = { ...record('solo', null, [[0, 10]]), isRunning: true, startTime: T0 + 20 * MINUTE };
+    const rows = collectTimeRows([running], {}, T0 + 25 * MINUTE);
+
+    expect(rows[0].totalSeconds).toBe(900);
+  });
+});
+
+describe('formatCsv', () => {
+  it('writes a header, quoted fields and local dates', () => {
+    const csv = formatCsv([
+      {
+        path: ['Work', 'Client, Inc'],
+        label: 'Say "hi"',
+        note: '=SUM(A1)',
+        tags: ['Client', 'Billable'],
+        createdAt: new Date(T0),
+        totalSeconds: 90,
+        ownSeconds: 30,
+        isBreak: false,
+      },
+    ]);
+
+    expect(csv).toBe(
+      '\uFEFFPath,Label,Note,Tags,Created,Total Seconds,Own Seconds,Break\r\n' +
+      '"Work / Client, Inc","Say ""hi""",\'=SUM(A1),Client; Billable,2025-01-01 09:00:00,90,30,no\r\n'
+    );
+  });
+});
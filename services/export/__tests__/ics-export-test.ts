@@ -0,0 +1,105 @@
+import { TimeRecord } from '../../storage/interfaces';
+import { createTimeRecord } from '../../timer/timer-tree';
+import { collectCalendarEvents, formatIcs } from '../ics-export';
+
+const T0 = Date.UTC(2025, 0, 1, 9, 0, 0);
+const MINUTE = 60_000;
+
+const record = (
+  id: string,
+  parentId: string | null,
+  intervals: [number, number][],
+  children: TimeRecord[] = []
+): TimeRecord => ({
+  ...createTimeRecord({ id, label: id, parentId, avatarColor: '#000', createdAt: new Date(T0) }),
+  intervals: intervals.map(([start, end]) => ({ start: T0 + start * MINUTE, end: T0 + end * MINUTE })),
+  children,
+});
+
+describe('collectCalendarEvents', () => {
+  it('creates one event per session with the ancestor path as categories', () => {
+    const trees = [
+      record('project', null, [[0, 30], [60, 90]], [
+        record('design', 'project', [[0, 10], [60, 90]]),
+      ]),
+    ];
+
+    const events = collectCalendarEvents(trees, {}, T0);
+
+    expect(events.map(event => [event.summary, event.categories, (event.start - T0) / MINUTE, (event.end - T0) / MINUTE]))
+      .toEqual([
+        ['design', ['project'], 0, 10],
+        ['project', [], 10, 30],
+        ['design', ['project'], 60, 90],
+      ]);
+  });
+
+  it('leaves out breaks and time outside the range', () => {
+    const trees = [
+      record('project', null, [[0, 40]], [
+        { ...record('Break', 'project', [[10, 20]]), isBreak: true },
+        record('build', 'project', [[20, 40]]),
+      ]),
+    ];
+
+    const events = collectCalendarEvents(trees, { includeBreaks: false, range: { start: T0 + 15 * MINUTE, end: T0 + 30 * MINUTE } }, T0);
+
+    expect(events.map(event => [event.summary, (event.start - T0) / MINUTE, (event.end - T0) / MINUTE]))
+      .toEqual([['build', 20, 30]]);
+  });
+
+  it('leaves out time backfilled from an old total', () => {
+    const legacy = record('legacy', null, [[120, 150]]);
+    const trees = [{ ...legacy, intervals: [{ start: T0, end: T0 + 90 * MINUTE, synthetic: true }, ...legacy.intervals] }];
+
+    const events = collectCalendarEvents(trees, {}, T0);
+
+    expect(events.map(event => [(event.start - T0) / MINUTE, (event.end - T0) / MINUTE])).toEqual([[120, 150]]);
+  });
+});
+
+describe('formatIcs', () => {
+  it('writes escaped VEVENTs in UTC', () => {
+    const ics = formatIcs([
+      {
+        uid: 'a-1@recorder-fast',
+        start: T0,
+        end: T0 + 30 * MINUTE,
+        summary: 'Plan; review',
+        description: 'line one\nline two, done',
+        categories: ['Work', 'Client'],
+      },
+    ], new Date(T0));
+
+    expect(ics.split('\r\n')).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//recorder-fast//Time Export//EN',
+      'CALSCALE:GREGORIAN',
+      'BEGIN:VEVENT',
+      'UID:a-1@recorder-fast',
+      'DTSTAMP:20250101T090000Z',
+      'DTSTART:20250101T090000Z',
+      'DTEND:20250101T093000Z',
+      'SUMMARY:Plan\\; review',
+      'DESCRIPTION:line one\\nline two\\, done',
+      'CATEGORIES:Work,Client',
+      'END:VEVENT',
+      'END:VCALENDAR',
+      '',
+    ]);
+  });
+
+  it('folds long lines at 75 octets', () => {
+    const ics = formatIcs([
+      { uid: 'a', start: T0, end: T0, summary: '工作'.repeat(40), description: '', categories: [] },
+    ], new Date(T0));
+
+    const lines = ics.split('\r\n');
+    const summary = lines.slice(lines.findIndex(line => line.startsWith('SUMMARY:')), lines.indexOf('END:VEVENT'));
+
+    expect(summary.length).toBeGreaterThan(1);
+    summary.forEach(line => expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75));
+    expect(summary.map((line, index) => index === 0 ? line : line.slice(1)).join('')).toBe(`SUMMARY:${'工作'.repeat(40)}`);
+  });
+});
@@ -0,0 +1,124 @@
+import { TimeInterval, TimeRecord } from '../storage/interfaces';
+import { resolveTags, Tag } from '../tags/tags';
+import {
+  clipIntervals,
+  coveredSeconds,
+  getDescendantIntervals,
+  getDescendantSessionIntervals,
+  getRecordIntervals,
+  getSessionIntervals,
+  subtractIntervals,
+  TimeRange,
+} from '../timer/intervals';
+
+export const CSV_MIME_TYPE = 'text/csv';
+
+export const PATH_SEPARATOR = ' / ';
+
+/**
+ * Options shared by the spreadsheet and calendar exports
+ * - range: only time inside the range is exported
+ * - includeBreaks: whether break records (and anything below them) are exported
+ * - tags: tag definitions used to name the tags of each record
+ */
+export interface TimeExportOptions {
+  range?: TimeRange;
+  includeBreaks?: boolean;
+  tags?: Tag[];
+}
+
+/**
+ * One exported record, with times in whole seconds
+ */
+export interface TimeRow {
+  path: string[];
+  label: string;
+  note: string;
+  tags: string[];
+  createdAt: Date;
+  totalSeconds: number;
+  ownSeconds: number;
+  isBreak: boolean;
+}
+
+const CSV_COLUMNS = ['Path', 'Label', 'Note', 'Tags', 'Created', 'Total Seconds', 'Own Seconds', 'Break'];
+
+/**
+ * Flatten record trees into one row per record, parents before their children.
+ * With a range, records without any time inside it are left out.
+ * Own time is the part of a record's time not covered by any of its descendants.
+ * With a range, intervals backfilled from an old total are left out, since
+ * it is not known when that time was recorded.
+ */
+export function collectTimeRows(trees: TimeRecord[], options: TimeExportOptions, now: number): TimeRow[] {
+  const includeBreaks = options.includeBreaks ?? true;
+  const clip = (intervals: TimeInterval[]) => options.range ? clipIntervals(intervals, options.range) : intervals;
+  const ownIntervals = options.range ? getSessionIntervals : getRecordIntervals;
+  const descendantIntervals = options.range ? getDescendantSessionIntervals : getDescendantIntervals;
+
+  const visit = (record: TimeRecord, path: string[]): TimeRow[] => {
+    if (record.isBreak && !includeBreaks) {
+      return [];
+    }
+    const intervals = clip(ownIntervals(record, now));
+    const totalSeconds = coveredSeconds(intervals);
+    const ownSeconds = coveredSeconds(subtractIntervals(intervals, descendantIntervals(record, now)));
+    const children = record.children.flatMap(child => visit(child, [...path, record.label]));
+
+    if (options.range && totalSeconds === 0) {
+      return children;
+    }
+    return [
+      {
+        path,
+        label: record.label,
+        note: record.note ?? '',
+        tags: resolveTags(record.tagIds, options.tags ?? []).map(tag => tag.name),
+        createdAt: new Date(record.createdAt),
+        totalSeconds,
+        ownSeconds,
+        isBreak: record.isBreak ?? false,
+      },
+      ...children,
+    ];
+  };
+
+  return trees.flatMap(tree => visit(tree, []));
+}
+
+/**
+ * Quote a field when needed and defuse values a spreadsheet would run as a formula
+ */
+const escapeField = (value: string): string => {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Local date and time as `YYYY-MM-DD HH:mm:ss`, which spreadsheets parse as a date
+ */
+export function formatCsvDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+/**
+ * Format rows as RFC 4180 CSV.
+ * Starts with a byte order mark so spreadsheet apps read non-ASCII labels as UTF-8.
+ */
+export function formatCsv(rows: TimeRow[]): string {
+  const lines = rows.map(row => [
+    escapeField(row.path.join(PATH_SEPARATOR)),
+    escapeField(row.label),
+    escapeField(row.note),
+    escapeField(row.tags.join('; ')),
+    formatCsvDate(row.createdAt),
+    String(row.totalSeconds),
+    String(row.ownSeconds),
+    row.isBreak ? 'yes' : 'no',
+  ].join(','));
+
+  return '\uFEFF' + [CSV_COLUMNS.join(','), ...lines].join('\r\n') + '\r\n';
+}
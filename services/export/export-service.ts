@@ -0,0 +1,27 @@
+import { IStorageService } from '../storage/interfaces';
+import { collectTimeRows, formatCsv, TimeExportOptions } from './csv-export';
+import { collectCalendarEvents, formatIcs } from './ics-export';
+
+/**
+ * Export every recording as a CSV string
+ */
+export async function exportCsv(
+  storage: IStorageService,
+  options: TimeExportOptions = {},
+  now: number = Date.now()
+): Promise<string> {
+  const trees = await storage.loadRecords();
+  return formatCsv(collectTimeRows(trees, options, now));
+}
+
+/**
+ * Export every work session as an iCalendar string
+ */
+export async function exportIcs(
+  storage: IStorageService,
+  options: TimeExportOptions = {},
+  now: number = Date.now()
+): Promise<string> {
+  const trees = await storage.loadRecords();
+  return formatIcs(collectCalendarEvents(trees, options, now), new Date(now));
+}
@@ -0,0 +1,135 @@
+import { TimeRecord } from '../storage/interfaces';
+import {
+  clipIntervals,
+  getDescendantSessionIntervals,
+  getSessionIntervals,
+  subtractIntervals,
+} from '../timer/intervals';
+import { TimeExportOptions } from './csv-export';
+
+export const ICS_MIME_TYPE = 'text/calendar';
+
+const PRODUCT_ID = '-//recorder-fast//Time Export//EN';
+const UID_DOMAIN = 'recorder-fast';
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * A single calendar event for one work session
+ */
+export interface CalendarEvent {
+  uid: string;
+  start: number;
+  end: number;
+  summary: string;
+  description: string;
+  categories: string[];
+}
+
+/**
+ * One event per session a record was worked on directly.
+ * Parents run while any child runs, so a parent's sessions are cut down to the
+ * time not covered by its descendants; a leaf keeps one event per start/stop interval.
+ * The ancestor path becomes the event categories. Intervals backfilled from
+ * an old total have no real time of day and are left out.
+ */
+export function collectCalendarEvents(trees: TimeRecord[], options: TimeExportOptions, now: number): CalendarEvent[] {
+  const includeBreaks = options.includeBreaks ?? true;
+
+  const visit = (record: TimeRecord, path: string[]): CalendarEvent[] => {
+    if (record.isBreak && !includeBreaks) {
+      return [];
+    }
+    const recorded = getSessionIntervals(record, now);
+    const intervals = subtractIntervals(
+      options.range ? clipIntervals(recorded, options.range) : recorded,
+      getDescendantSessionIntervals(record, now)
+    );
+
+    const events = intervals.map(interval => ({
+      uid: `${record.id}-${interval.start}@${UID_DOMAIN}`,
+      start: interval.start,
+      end: interval.end,
+      summary: record.label,
+      description: record.note ?? '',
+      categories: path,
+    }));
+    return [...events, ...record.children.flatMap(child => visit(child, [...path, record.label]))];
+  };
+
+  return trees.flatMap(tree => visit(tree, [])).sort((a, b) => a.start - b.start);
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * UTC date-time in iCalendar form, e.g. 20250131T093000Z
+ */
+export function formatIcsDate(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+/**
+ * Escape a TEXT value (RFC 5545 3.3.11)
+ */
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const utf8Length = (char: string): number => {
+  const code = char.codePointAt(0)!;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+/**
+ * Fold a content line to at most 75 octets per line without splitting a character
+ */
+const foldLine = (line: string): string => {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join('\r\n ');
+};
+
+/**
+ * Format events as an iCalendar document
+ */
+export function formatIcs(events: CalendarEvent[], exportedAt: Date): string {
+  const stamp = formatIcsDate(exportedAt.getTime());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    ...events.flatMap(event => [
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatIcsDate(event.start)}`,
+      `DTEND:${formatIcsDate(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      ...(event.categories.length > 0 ? [`CATEGORIES:${event.categories.map(escapeText).join(',')}`] : []),
+      'END:VEVENT',
+    ]),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
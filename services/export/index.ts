@@ -0,0 +1,3 @@
+export * from './csv-export';
+export * from './ics-export';
+export * from './export-service';
@@ -0,0 +1,30 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+/**
+ * Write text to a file in the cache directory and open the system share sheet
+ * @param fileName - name of the file to create
+ * @param contents - file contents
+ * @param mimeType - MIME type reported to the share sheet
+ */
+export async function shareTextFile(fileName: string, contents: string, mimeType: string): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  const uri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(uri, contents, { encoding: FileSystem.EncodingType.UTF8 });
+  await Sharing.shareAsync(uri, { mimeType, dialogTitle: fileName });
+}
+
+/**
+ * Let the user pick a file and return its text contents, or null if cancelled
+ * @param mimeType - MIME type filter for the picker
+ */
+export async function pickTextFile(mimeType: string): Promise<string | null> {
+  const result = await DocumentPicker.getDocumentAsync({ type: mimeType, copyToCacheDirectory: true });
+  if (result.canceled || result.assets.length === 0) {
+    return null;
+  }
+  return FileSystem.readAsStringAsync(result.assets[0].uri, { encoding: FileSystem.EncodingType.UTF8 });
+}
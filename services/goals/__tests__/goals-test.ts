@@ -0,0 +1,168 @@
+import { TimeRecord } from '../../storage/interfaces';
+import { createTimeRecord } from '../../timer/timer-tree';
+import { Goal, getGoalHistory, getGoalProgress, getGoalStreak, WORKDAYS } from '../goals';
+
+const HOUR = 60 * 60 * 1000;
+
+// Wednesday, 18:00 local time
+const NOW = new Date(2025, 0, 15, 18, 0, 0).getTime();
+
+/**
+ * Local time on a day relative to 2025-01-15
+ */
+const at = (dayOffset: number, hour: number, minute = 0) =>
+  new Date(2025, 0, 15 + dayOffset, hour, minute).getTime();
+
+const record = (
+  id: string,
+  intervals: [number, number][],
+  children: TimeRecord[] = [],
+  options: { isBreak?: boolean; tagIds?: string[] } = {}
+): TimeRecord => ({
+  ...createTimeRecord({ id, label: id, parentId: null, avatarColor: '#000', createdAt: new Date(NOW), isBreak: options.isBreak }),
+  intervals: intervals.map(([start, end]) => ({ start, end })),
+  children,
+  tagIds: options.tagIds,
+});
+
+const dailyGoal = (targetMinutes: number, changes: Partial<Goal> = {}): Goal => ({
+  id: 'goal',
+  scope: { type: 'all' },
+  period: 'day',
+  targetMinutes,
+  ...changes,
+});
+
+/**
+ * One session from 9:00 for `hours` on each of the given days
+ */
+const workedDays = (days: number[], hours = 2): TimeRecord =>
+  record('work', days.map(day => [at(day, 9), at(day, 9) + hours * HOUR]));
+
+describe('getGoalProgress', () => {
+  it('counts work time of today without breaks', () => {
+    const trees = [
+      record('project', [[at(0, 9), at(0, 12)]], [
+        record('Break', [[at(0, 10), at(0, 10, 30)]], [], { isBreak: true }),
+      ]),
+      record('errands', [[at(0, 14), at(0, 15)]]),
+      record('yesterday', [[at(-1, 9), at(-1, 17)]]),
+    ];
+
+    const progress = getGoalProgress(trees, dailyGoal(240), NOW);
+
+    expect(progress.seconds).toBe(3.5 * 3600);
+    expect(progress.targetSeconds).toBe(4 * 3600);
+    expect(progress.ratio).toBeCloseTo(3.5 / 4);
+    expect(progress.isMet).toBe(false);
+  });
+
+  it('counts a running session up to now', () => {
+    const running = { ...record('project', []), isRunning: true, startTime: at(0, 13) };
+
+    expect(getGoalProgress([running], dailyGoal(240), NOW).seconds).toBe(5 * 3600);
+  });
+
+  it('limits the goal to one root or one tag', () => {
+    const trees = [
+      record('project', [[at(0, 9), at(0, 12)]], [
+        record('design', [[at(0, 9), at(0, 10)]], [], { tagIds: ['focus'] }),
+      ]),
+      record('reading', [[at(0, 13), at(0, 15)]], [], { tagIds: ['focus'] }),
+    ];
+
+    expect(getGoalProgress(trees, dailyGoal(60, { scope: { type: 'root', rootId: 'project' } }), NOW).seconds)
+      .toBe(3 * 3600);
+    expect(getGoalProgress(trees, dailyGoal(60, { scope: { type: 'tag', tagId: 'focus' } }), NOW).seconds)
+      .toBe(3 * 3600);
+    expect(getGoalProgress(trees, dailyGoal(60, { scope: { type: 'root', rootId: 'gone' } }), NOW).seconds)
+      .toBe(0);
+  });
+
+  it('counts a tagged subtree once when its children carry the tag too', () => {
+    const trees = [
+      record('project', [[at(0, 9), at(0, 11)]], [
+        record('design', [[at(0, 9), at(0, 10)]], [], { tagIds: ['focus'] }),
+      ], { tagIds: ['focus'] }),
+    ];
+
+    expect(getGoalProgress(trees, dailyGoal(60, { scope: { type: 'tag', tagId: 'focus' } }), NOW).seconds)
+      .toBe(2 * 3600);
+  });
+});
+
+describe('getGoalHistory', () => {
+  it('splits a session running past midnight between both days', () => {
+    const trees = [record('night', [[at(-1, 22), at(0, 1)]])];
+
+    const [today, yesterday] = getGoalHistory(trees, dailyGoal(60), NOW, 2);
+
+    expect(today.seconds).toBe(3600);
+    expect(yesterday.seconds).toBe(2 * 3600);
+    expect(new Date(today.range.start)).toEqual(new Date(2025, 0, 15));
+    expect(new Date(yesterday.range.start)).toEqual(new Date(2025, 0, 14));
+  });
+
+  it('marks days a weekday goal does not apply to', () => {
+    const history = getGoalHistory([], dailyGoal(60, { weekdays: WORKDAYS }), NOW, 7);
+
+    // Wednesday back to the Thursday before
+    expect(history.map(result => result.isActive)).toEqual([true, true, true, false, false, true, true]);
+  });
+});
+
+describe('getGoalStreak', () => {
+  it('counts the days in a row before today while today is still open', () => {
+    const trees = [workedDays([-5, -3, -2, -1])];
+
+    expect(getGoalStreak(trees, dailyGoal(120), NOW)).toBe(3);
+  });
+
+  it('adds today once the goal is met', () => {
+    const trees = [workedDays([-2, -1, 0])];
+
+    expect(getGoalStreak(trees, dailyGoal(120), NOW)).toBe(3);
+    expect(getGoalStreak(trees, dailyGoal(180), NOW)).toBe(0);
+  });
+
+  it('is broken by a day below the target', () => {
+    const trees = [workedDays([-3, -2]), record('short', [[at(-1, 9), at(-1, 10)]])];
+
+    expect(getGoalStreak(trees, dailyGoal(120), NOW)).toBe(0);
+  });
+
+  it('skips days a weekday goal does not apply to', () => {
+    // Thursday and Friday of last week, then Monday to Wednesday, nothing on the weekend
+    const trees = [workedDays([-6, -5, -2, -1, 0])];
+
+    expect(getGoalStreak(trees, dailyGoal(120, { weekdays: WORKDAYS }), NOW)).toBe(5);
+    expect(getGoalStreak(trees, dailyGoal(120), NOW)).toBe(3);
+  });
+
+  it('counts a day reached only through a session from the evening before', () => {
+    const trees = [record('night', [[at(-2, 20), at(-1, 2)], [at(-1, 20), at(0, 2)]])];
+
+    // Each day gets 4h in the evening and 2h after midnight
+    expect(getGoalHistory(trees, dailyGoal(360), NOW, 3).map(result => result.seconds))
+      .toEqual([2 * 3600, 6 * 3600, 4 * 3600]);
+    expect(getGoalStreak(trees, dailyGoal(360), NOW)).toBe(1);
+  });
+
+  it('keeps counting across daylight saving changes', () => {
+    // Every day from March 1 to April 5, around the DST changes of most time zones
+    const days = Array.from({ length: 36 }, (_, index) => new Date(2025, 2, 1 + index, 9).getTime());
+    const trees = [record('work', days.map(start => [start, start + 2 * HOUR]))];
+    const now = new Date(2025, 3, 5, 18).getTime();
+
+    expect(getGoalStreak(trees, dailyGoal(120), now)).toBe(36);
+  });
+
+  it('counts weeks for weekly goals', () => {
+    // 3h in each of the last three weeks, 1h so far this week
+    const trees = [workedDays([-14, -7, -2], 3), workedDays([0], 1)];
+    const goal: Goal = { ...dailyGoal(180), period: 'week' };
+
+    expect(getGoalStreak(trees, goal, NOW)).toBe(3);
+    expect(getGoalProgress(trees, goal, NOW).seconds).toBe(4 * 3600);
+  });
+});
@@ -0,0 +1,19 @@
+import { IStorageService } from '../storage/interfaces';
+import { Goal } from './goals';
+
+const GOALS_KEY = 'goals';
+
+/**
+ * Load every goal
+ */
+export async function loadGoals(storage: IStorageService): Promise<Goal[]> {
+  return storage.loadValue<Goal[]>(GOALS_KEY, []);
+}
+
+/**
+ * Replace the stored goals.
+ * Goals keep the IDs of deleted roots and tags; callers skip goals whose scope no longer exists.
+ */
+export async function saveGoals(storage: IStorageService, goals: Goal[]): Promise<void> {
+  await storage.saveValue(GOALS_KEY, goals);
+}
@@ -0,0 +1,156 @@
+import { TimeInterval, TimeRecord } from '../storage/interfaces';
+import { getPeriodRange, getPreviousPeriodRange, getWorkIntervals, ReportPeriod } from '../reports/summary-report';
+import { hasTag, Tag } from '../tags/tags';
+import { clipIntervals, coveredSeconds, TimeRange } from '../timer/intervals';
+
+/**
+ * What a goal counts: all work, one root record or every record carrying a tag
+ */
+export type GoalScope =
+  | { type: 'all' }
+  | { type: 'root'; rootId: string }
+  | { type: 'tag'; tagId: string };
+
+/**
+ * A target amount of work per local day or week
+ */
+export interface Goal {
+  id: string;
+  scope: GoalScope;
+  period: ReportPeriod;
+  targetMinutes: number;
+  weekdays?: number[];  // 每日目标适用的星期（0 表示周日），未设置时每天都适用
+}
+
+/**
+ * How one day or week went against a goal
+ */
+export interface GoalPeriodResult {
+  range: TimeRange;
+  seconds: number;
+  isMet: boolean;
+  isActive: boolean;  // false on days a daily goal does not apply to
+}
+
+/**
+ * The current day or week of a goal together with its streak
+ */
+export interface GoalProgress extends GoalPeriodResult {
+  goal: Goal;
+  targetSeconds: number;
+  ratio: number;   // seconds / target, above 1 once the goal is passed
+  streak: number;  // met periods in a row, see getGoalStreak
+}
+
+export const ALL_WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];
+export const WORKDAYS = [1, 2, 3, 4, 5];
+
+/**
+ * Name and color of what a goal counts, or null when its root or tag was deleted
+ */
+export function resolveGoalScope(scope: GoalScope, trees: TimeRecord[], tags: Tag[]): { label: string; color: string } | null {
+  switch (scope.type) {
+    case 'all':
+      return { label: 'All work', color: '#2196F3' };
+    case 'root': {
+      const root = trees.find(tree => tree.id === scope.rootId);
+      return root ? { label: root.label, color: root.avatarColor } : null;
+    }
+    case 'tag': {
+      const tag = tags.find(item => item.id === scope.tagId);
+      return tag ? { label: tag.name, color: tag.color } : null;
+    }
+  }
+}
+
+/**
+ * Highest records in a tree carrying the tag; their subtrees already hold everything below
+ */
+const taggedRecords = (record: TimeRecord, tagId: string): TimeRecord[] =>
+  hasTag(record, tagId) ? [record] : record.children.flatMap(child => taggedRecords(child, tagId));
+
+/**
+ * Work intervals a goal counts, one list per tree.
+ * Overlapping time inside a tree counts once; separate trees add up, as in the summary report.
+ */
+function getScopeIntervals(trees: TimeRecord[], scope: GoalScope, now: number): TimeInterval[][] {
+  switch (scope.type) {
+    case 'all':
+      return trees.map(tree => getWorkIntervals(tree, now));
+    case 'root':
+      return trees.filter(tree => tree.id === scope.rootId).map(tree => getWorkIntervals(tree, now));
+    case 'tag':
+      return trees.map(tree => taggedRecords(tree, scope.tagId).flatMap(record => getWorkIntervals(record, now)));
+  }
+}
+
+/**
+ * Whether a daily goal applies to the local day starting at `start`; weekly goals always apply
+ */
+export function isGoalActive(goal: Goal, start: number): boolean {
+  return goal.period === 'week' || !goal.weekdays || goal.weekdays.includes(new Date(start).getDay());
+}
+
+function evaluatePeriod(intervals: TimeInterval[][], goal: Goal, range: TimeRange): GoalPeriodResult {
+  const seconds = intervals.reduce((total, list) => total + coveredSeconds(clipIntervals(list, range)), 0);
+  return { range, seconds, isMet: seconds >= goal.targetMinutes * 60, isActive: isGoalActive(goal, range.start) };
+}
+
+const previousRange = (goal: Goal, range: TimeRange) => getPreviousPeriodRange(goal.period, new Date(range.start));
+
+/**
+ * Results of the current period and the ones before it, newest first.
+ * Periods are local calendar days or weeks, so a session running past
+ * midnight counts towards both days and DST days keep their real length.
+ */
+export function getGoalHistory(trees: TimeRecord[], goal: Goal, now: number, count: number): GoalPeriodResult[] {
+  const intervals = getScopeIntervals(trees, goal.scope, now);
+  const results: GoalPeriodResult[] = [];
+  for (let range = getPeriodRange(goal.period, new Date(now)); results.length < count; range = previousRange(goal, range)) {
+    results.push(evaluatePeriod(intervals, goal, range));
+  }
+  return results;
+}
+
+function countStreak(intervals: TimeInterval[][], goal: Goal, now: number): number {
+  const earliest = intervals.flat().reduce((min, interval) => Math.min(min, interval.start), Infinity);
+  const current = evaluatePeriod(intervals, goal, getPeriodRange(goal.period, new Date(now)));
+  // 当前周期尚未结束，未达标时不中断连续记录
+  let streak = current.isActive && current.isMet ? 1 : 0;
+  for (let range = previousRange(goal, current.range); range.end > earliest; range = previousRange(goal, range)) {
+    const result = evaluatePeriod(intervals, goal, range);
+    if (!result.isActive) {
+      continue;
+    }
+    if (!result.isMet) {
+      break;
+    }
+    streak++;
+  }
+  return streak;
+}
+
+/**
+ * Number of periods in a row the goal was met, ending with the current one.
+ * The current period only adds to the streak once it is met and never breaks it,
+ * and days a daily goal does not apply to are skipped.
+ */
+export function getGoalStreak(trees: TimeRecord[], goal: Goal, now: number): number {
+  return countStreak(getScopeIntervals(trees, goal.scope, now), goal, now);
+}
+
+/**
+ * Progress of the current day or week towards the goal, with the streak
+ */
+export function getGoalProgress(trees: TimeRecord[], goal: Goal, now: number): GoalProgress {
+  const intervals = getScopeIntervals(trees, goal.scope, now);
+  const current = evaluatePeriod(intervals, goal, getPeriodRange(goal.period, new Date(now)));
+  const targetSeconds = goal.targetMinutes * 60;
+  return {
+    ...current,
+    goal,
+    targetSeconds,
+    ratio: targetSeconds > 0 ? current.seconds / targetSeconds : 1,
+    streak: countStreak(intervals, goal, now),
+  };
+}
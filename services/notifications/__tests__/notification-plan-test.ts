@@ -0,0 +1,100 @@
+import { Goal } from '../../goals/goals';
+import { NotificationSettings } from '../../settings/settings';
+import { PomodoroSettings, TimeRecord } from '../../storage/interfaces';
+import { applyTimerCommand, createTimeRecord } from '../../timer/timer-tree';
+import { getRecordUrl, planNotifications } from '../notification-plan';
+
+const T0 = new Date(2025, 0, 1, 9, 0, 0).getTime();
+const MINUTE = 60 * 1000;
+
+const OFF: NotificationSettings = { runningReminderMinutes: 0, pomodoro: false, goals: false };
+const DAILY_GOAL: Goal = { id: 'daily', scope: { type: 'all' }, period: 'day', targetMinutes: 120 };
+const POMODORO: PomodoroSettings = { workMinutes: 25, breakMinutes: 5, longBreakMinutes: 15, cyclesPerLongBreak: 4 };
+
+const buildTree = (): TimeRecord[] => [{
+  ...createTimeRecord({ id: 'root', label: 'Project', parentId: null, avatarColor: '#000', createdAt: new Date(T0) }),
+  children: [createTimeRecord({ id: 'a', label: 'Design', parentId: 'root', avatarColor: '#000', createdAt: new Date(T0) })],
+}];
+
+describe('planNotifications', () => {
+  it('reminds about the running record after the configured minutes', () => {
+    const trees = applyTimerCommand(buildTree(), { type: 'start', recordId: 'a' }, T0);
+
+    const planned = planNotifications(trees, { ...OFF, runningReminderMinutes: 60 }, T0 + 10 * MINUTE);
+
+    expect(planned).toHaveLength(1);
+    expect(planned[0]).toMatchObject({ fireAt: T0 + 60 * MINUTE, url: '/recorder/root?focus=a' });
+  });
+
+  it('reminds about a break running below a paused parent', () => {
+    const [root] = buildTree();
+    const coffee = createTimeRecord({ id: 'coffee', label: 'Coffee', parentId: 'root', avatarColor: '#000', createdAt: new Date(T0), isBreak: true });
+    const trees = applyTimerCommand(
+      [{ ...root, policy: { children: 'exclusive', countBreaks: false }, children: [...root.children, coffee] }],
+      { type: 'start', recordId: 'coffee' },
+      T0
+    );
+
+    const planned = planNotifications(trees, { ...OFF, runningReminderMinutes: 60 }, T0 + 10 * MINUTE);
+
+    expect(trees[0].isRunning).toBe(false);
+    expect(planned).toHaveLength(1);
+    expect(planned[0]).toMatchObject({ fireAt: T0 + 60 * MINUTE, url: '/recorder/root?focus=coffee' });
+  });
+
+  it('skips reminders that are already due', () => {
+    const trees = applyTimerCommand(buildTree(), { type: 'start', recordId: 'a' }, T0);
+
+    expect(planNotifications(trees, { ...OFF, runningReminderMinutes: 60 }, T0 + 90 * MINUTE)).toEqual([]);
+  });
+
+  it('notifies when the Pomodoro phase ends', () => {
+    const trees = applyTimerCommand(buildTree(), { type: 'startPomodoro', recordId: 'root', settings: POMODORO }, T0);
+
+    const planned = planNotifications(trees, { ...OFF, pomodoro: true }, T0 + 5 * MINUTE);
+
+    expect(planned).toHaveLength(1);
+    expect(planned[0]).toMatchObject({ title: 'Time for a break', fireAt: T0 + 25 * MINUTE, url: '/recorder/root' });
+  });
+
+  it('notifies when the daily goal will be reached by the running timer', () => {
+    let trees = applyTimerCommand(buildTree(), { type: 'start', recordId: 'a' }, T0);
+    trees = applyTimerCommand(trees, { type: 'stop', recordId: 'a' }, T0 + 30 * MINUTE);
+    trees = applyTimerCommand(trees, { type: 'start', recordId: 'a' }, T0 + 60 * MINUTE);
+
+    const planned = planNotifications(trees, { ...OFF, goals: true }, T0 + 60 * MINUTE, [DAILY_GOAL]);
+
+    expect(planned).toHaveLength(1);
+    expect(planned[0]).toMatchObject({ title: 'Goal reached', fireAt: T0 + 150 * MINUTE });
+  });
+
+  it('does not plan the goal while nothing is running', () => {
+    expect(planNotifications(buildTree(), { ...OFF, goals: true }, T0, [DAILY_GOAL])).toEqual([]);
+  });
+
+  it('skips goals the running timer does not count toward', () => {
+    const trees = applyTimerCommand(buildTree(), { type: 'start', recordId: 'a' }, T0);
+    const otherRoot: Goal = { ...DAILY_GOAL, scope: { type: 'root', rootId: 'elsewhere' } };
+    const today = new Date(T0).getDay();
+    const notToday: Goal = { ...DAILY_GOAL, id: 'weekend', weekdays: [(today + 1) % 7] };
+
+    expect(planNotifications(trees, { ...OFF, goals: true }, T0 + MINUTE, [otherRoot, notToday])).toEqual([]);
+  });
+
+  it('gives the same IDs when planning again for the same state', () => {
+    const trees = applyTimerCommand(buildTree(), { type: 'start', recordId: 'a' }, T0);
+    const settings = { runningReminderMinutes: 60, pomodoro: true, goals: true };
+
+    const first = planNotifications(trees, settings, T0 + MINUTE, [DAILY_GOAL]).map(notification => notification.id);
+    const second = planNotifications(trees, settings, T0 + 2 * MINUTE, [DAILY_GOAL]).map(notification => notification.id);
+
+    expect(second).toEqual(first);
+  });
+});
+
+describe('getRecordUrl', () => {
+  it('links to the tree and highlights nested records', () => {
+    expect(getRecordUrl('root', 'root')).toBe('/recorder/root');
+    expect(getRecordUrl('root', 'a')).toBe('/recorder/root?focus=a');
+  });
+});
@@ -0,0 +1,62 @@
+import { INotifier, ScheduledNotification } from '../notifier';
+import { syncNotifications } from '../notification-scheduler';
+
+/**
+ * Keeps scheduled notifications in memory and logs every call
+ */
+class FakeNotifier implements INotifier {
+  scheduled = new Map<string, ScheduledNotification>();
+  calls: string[] = [];
+
+  async schedule(notification: ScheduledNotification): Promise<void> {
+    this.calls.push(`schedule ${notification.id}`);
+    this.scheduled.set(notification.id, notification);
+  }
+
+  async cancel(id: string): Promise<void> {
+    this.calls.push(`cancel ${id}`);
+    this.scheduled.delete(id);
+  }
+
+  async getScheduledIds(): Promise<string[]> {
+    return [...this.scheduled.keys()];
+  }
+}
+
+const notification = (id: string): ScheduledNotification => ({
+  id,
+  title: id,
+  body: '',
+  fireAt: Date.UTC(2025, 0, 1, 10, 0, 0),
+  url: '/recorder/1',
+});
+
+describe('syncNotifications', () => {
+  it('schedules planned notifications', async () => {
+    const notifier = new FakeNotifier();
+
+    await syncNotifications(notifier, [notification('a'), notification('b')]);
+
+    expect([...notifier.scheduled.keys()]).toEqual(['a', 'b']);
+  });
+
+  it('only cancels and schedules what changed', async () => {
+    const notifier = new FakeNotifier();
+    await syncNotifications(notifier, [notification('a'), notification('b')]);
+    notifier.calls = [];
+
+    await syncNotifications(notifier, [notification('b'), notification('c')]);
+
+    expect(notifier.calls).toEqual(['cancel a', 'schedule c']);
+    expect([...notifier.scheduled.keys()]).toEqual(['b', 'c']);
+  });
+
+  it('cancels everything for an empty plan', async () => {
+    const notifier = new FakeNotifier();
+    await syncNotifications(notifier, [notification('a')]);
+
+    await syncNotifications(notifier, []);
+
+    expect(notifier.scheduled.size).toBe(0);
+  });
+});
@@ -0,0 +1,49 @@
+import * as Notifications from 'expo-notifications';
+import { INotifier, ScheduledNotification } from './notifier';
+
+/**
+ * Notifier backed by expo-notifications.
+ * Permission is asked for the first time something is scheduled;
+ * without it, scheduling is skipped.
+ */
+export class ExpoNotifier implements INotifier {
+  private permissionGranted: boolean | null = null;
+
+  private async hasPermission(): Promise<boolean> {
+    if (this.permissionGranted === null) {
+      const current = await Notifications.getPermissionsAsync();
+      const result = current.granted ? current : await Notifications.requestPermissionsAsync();
+      this.permissionGranted = result.granted;
+    }
+    return this.permissionGranted;
+  }
+
+  async schedule(notification: ScheduledNotification): Promise<void> {
+    if (!(await this.hasPermission())) {
+      return;
+    }
+    await Notifications.scheduleNotificationAsync({
+      identifier: notification.id,
+      content: {
+        title: notification.title,
+        body: notification.body,
+        data: { url: notification.url },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: notification.fireAt,
+      },
+    });
+  }
+
+  async cancel(id: string): Promise<void> {
+    await Notifications.cancelScheduledNotificationAsync(id);
+  }
+
+  async getScheduledIds(): Promise<string[]> {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    return scheduled.map(notification => notification.identifier);
+  }
+}
+
+export const expoNotifier = new ExpoNotifier();
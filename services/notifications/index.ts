@@ -0,0 +1,5 @@
+export * from './notifier';
+export * from './notification-plan';
+export * from './notification-scheduler';
+export * from './notification-service';
+export * from './expo-notifier';
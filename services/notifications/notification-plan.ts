@@ -0,0 +1,124 @@
+import { TimeRecord } from '../storage/interfaces';
+import { NotificationSettings } from '../settings/settings';
+import { ScheduledNotification } from './notifier';
+import { getGoalHistory, Goal } from '../goals/goals';
+import { getPomodoroStatus } from '../timer/pomodoro';
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Route of the detail screen with the given record highlighted
+ */
+export function getRecordUrl(rootId: string, recordId: string): string {
+  return rootId === recordId ? `/recorder/${rootId}` : `/recorder/${rootId}?focus=${recordId}`;
+}
+
+// The ID includes the minute the notification fires, so a changed time gives a new notification
+const notificationId = (kind: string, key: string, fireAt: number) => `${kind}-${key}-${Math.floor(fireAt / MINUTE)}`;
+
+/**
+ * Records that are running themselves rather than because a child runs, with their root
+ */
+const findRunningLeaves = (trees: TimeRecord[]): { rootId: string; record: TimeRecord }[] => {
+  // Paused records are walked too, a break can run below a paused task
+  const visit = (record: TimeRecord, rootId: string): { rootId: string; record: TimeRecord }[] => {
+    const running = record.children.flatMap(child => visit(child, rootId));
+    return running.length > 0 || !record.isRunning ? running : [{ rootId, record }];
+  };
+  return trees.flatMap(tree => visit(tree, tree.id));
+};
+
+/**
+ * Every record in Pomodoro mode, with its root
+ */
+const findPomodoroRecords = (trees: TimeRecord[]): { rootId: string; record: TimeRecord }[] => {
+  const visit = (record: TimeRecord, rootId: string): { rootId: string; record: TimeRecord }[] => [
+    ...(record.pomodoro ? [{ rootId, record }] : []),
+    ...record.children.flatMap(child => visit(child, rootId)),
+  ];
+  return trees.flatMap(tree => visit(tree, tree.id));
+};
+
+/**
+ * Moment the running timers complete a goal, or null when it is already met,
+ * does not apply today or is not reached before its day or week ends.
+ * Assumes the timers keep running; timers outside the goal's scope do not bring it closer.
+ */
+const getGoalReachedAt = (trees: TimeRecord[], goal: Goal, now: number): number | null => {
+  const [current] = getGoalHistory(trees, goal, now, 1);
+  if (!current.isActive || current.isMet) {
+    return null;
+  }
+  const fireAt = now + (goal.targetMinutes * 60 - current.seconds) * 1000;
+  if (fireAt >= current.range.end || !getGoalHistory(trees, goal, fireAt, 1)[0].isMet) {
+    return null;
+  }
+  return fireAt;
+};
+
+/**
+ * Work out the notifications that should be pending, given the current trees.
+ * Only future notifications are returned. Planning again for the same state
+ * gives the same IDs, so unchanged notifications are not scheduled twice.
+ * @param trees - every stored tree with its children
+ * @param options - which notifications are turned on
+ * @param now - current timestamp in milliseconds
+ * @param goals - the goals set on the goals screen
+ */
+export function planNotifications(
+  trees: TimeRecord[],
+  options: NotificationSettings,
+  now: number,
+  goals: Goal[] = []
+): ScheduledNotification[] {
+  const planned: ScheduledNotification[] = [];
+  const runningLeaves = findRunningLeaves(trees);
+
+  if (options.runningReminderMinutes > 0) {
+    runningLeaves
+      .filter(({ record }) => record.startTime)
+      .forEach(({ rootId, record }) => planned.push({
+        id: notificationId('running', record.id, record.startTime! + options.runningReminderMinutes * MINUTE),
+        title: 'Timer still running',
+        body: `“${record.label}” has been running for ${options.runningReminderMinutes} minutes.`,
+        fireAt: record.startTime! + options.runningReminderMinutes * MINUTE,
+        url: getRecordUrl(rootId, record.id),
+      }));
+  }
+
+  if (options.pomodoro) {
+    findPomodoroRecords(trees).forEach(({ rootId, record }) => {
+      const status = getPomodoroStatus(record, now);
+      if (!status?.phaseEnd) {
+        return;
+      }
+      const isWork = status.phase === 'work';
+      planned.push({
+        id: notificationId('pomodoro', record.id, status.phaseEnd),
+        title: isWork ? 'Time for a break' : 'Break is over',
+        body: isWork ? `Focus on “${record.label}” is done.` : `Ready to focus on “${record.label}” again?`,
+        fireAt: status.phaseEnd,
+        url: getRecordUrl(rootId, record.id),
+      });
+    });
+  }
+
+  // Goals can only be reached while work is being tracked
+  const working = runningLeaves.find(({ record }) => !record.isBreak);
+  if (options.goals && working) {
+    goals.forEach(goal => {
+      const fireAt = getGoalReachedAt(trees, goal, now);
+      if (fireAt !== null) {
+        planned.push({
+          id: notificationId('goal', goal.id, fireAt),
+          title: 'Goal reached',
+          body: `You tracked ${goal.targetMinutes} minutes of work ${goal.period === 'day' ? 'today' : 'this week'}.`,
+          fireAt,
+          url: getRecordUrl(working.rootId, working.record.id),
+        });
+      }
+    });
+  }
+
+  return planned.filter(notification => notification.fireAt > now);
+}
@@ -0,0 +1,17 @@
+import { INotifier, ScheduledNotification } from './notifier';
+
+/**
+ * Make the pending notifications match the plan: cancel the ones that are no
+ * longer planned and schedule the ones that are not pending yet
+ */
+export async function syncNotifications(notifier: INotifier, planned: ScheduledNotification[]): Promise<void> {
+  const scheduledIds = await notifier.getScheduledIds();
+  const plannedIds = new Set(planned.map(notification => notification.id));
+
+  for (const id of scheduledIds.filter(id => !plannedIds.has(id))) {
+    await notifier.cancel(id);
+  }
+  for (const notification of planned.filter(notification => !scheduledIds.includes(notification.id))) {
+    await notifier.schedule(notification);
+  }
+}
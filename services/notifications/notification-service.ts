@@ -0,0 +1,21 @@
+import { IStorageService } from '../storage/interfaces';
+import { loadSettings } from '../settings/settings-service';
+import { loadGoals } from '../goals/goal-service';
+import { INotifier } from './notifier';
+import { planNotifications } from './notification-plan';
+import { syncNotifications } from './notification-scheduler';
+
+/**
+ * Schedule the notifications for the stored trees, e.g. when the app goes to the background
+ */
+export async function scheduleNotifications(storage: IStorageService, notifier: INotifier, now: number): Promise<void> {
+  const [trees, settings, goals] = await Promise.all([storage.loadRecords(), loadSettings(storage), loadGoals(storage)]);
+  await syncNotifications(notifier, planNotifications(trees, settings.notifications, now, goals));
+}
+
+/**
+ * Cancel every pending notification, e.g. when the app comes back to the foreground
+ */
+export async function clearNotifications(notifier: INotifier): Promise<void> {
+  await syncNotifications(notifier, []);
+}
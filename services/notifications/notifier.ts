@@ -0,0 +1,21 @@
+/**
+ * A local notification to show at a given time.
+ * `url` is the in-app route opened when the notification is tapped.
+ */
+export interface ScheduledNotification {
+  id: string;
+  title: string;
+  body: string;
+  fireAt: number;
+  url: string;
+}
+
+/**
+ * Schedules local notifications; the app uses expo-notifications,
+ * tests use an in-memory fake
+ */
+export interface INotifier {
+  schedule(notification: ScheduledNotification): Promise<void>;
+  cancel(id: string): Promise<void>;
+  getScheduledIds(): Promise<string[]>;
+}
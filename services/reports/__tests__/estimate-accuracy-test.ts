@@ -0,0 +1,57 @@
+import { TimeRecord } from '../../storage/interfaces';
+import { createTimeRecord } from '../../timer/timer-tree';
+import { getRootAccuracy, getTagAccuracy } from '../estimate-accuracy';
+
+const T0 = Date.UTC(2025, 0, 1, 9, 0, 0);
+
+const record = (
+  id: string,
+  options: { time?: number; estimate?: number; tagIds?: string[]; children?: TimeRecord[] } = {}
+): TimeRecord => {
+  const base = createTimeRecord({ id, label: id, parentId: null, avatarColor: '#000', createdAt: new Date(T0) });
+  const seconds = options.time ?? 0;
+  return {
+    ...base,
+    intervals: seconds > 0 ? [{ start: T0, end: T0 + seconds * 1000 }] : [],
+    baseTime: seconds,
+    time: seconds,
+    estimate: options.estimate,
+    tagIds: options.tagIds ?? [],
+    children: options.children ?? [],
+  };
+};
+
+const TAGS = [{ id: 'dev', name: 'Dev', color: '#000' }, { id: 'ops', name: 'Ops', color: '#fff' }];
+
+describe('getRootAccuracy', () => {
+  it('lists estimated roots with the biggest misses first', () => {
+    const trees = [
+      record('close', { time: 1000, estimate: 1000 }),
+      record('over', { time: 3000, estimate: 1000 }),
+      record('unestimated', { time: 500 }),
+    ];
+
+    expect(getRootAccuracy(trees, T0).map(item => [item.id, item.ratio])).toEqual([['over', 3], ['close', 1]]);
+  });
+});
+
+describe('getTagAccuracy', () => {
+  it('counts the highest estimated record with the tag once', () => {
+    const trees = [
+      record('project', {
+        time: 3000,
+        tagIds: ['dev'],
+        children: [
+          record('a', { time: 1000, estimate: 1200, tagIds: ['dev'] }),
+          record('b', { time: 2000, estimate: 1800 }),
+        ],
+      }),
+      record('deploy', { time: 600, estimate: 300, tagIds: ['ops'] }),
+    ];
+
+    expect(getTagAccuracy(trees, TAGS, T0)).toEqual([
+      { id: 'ops', label: 'Ops', estimateSeconds: 300, actualSeconds: 600, ratio: 2 },
+      { id: 'dev', label: 'Dev', estimateSeconds: 3000, actualSeconds: 3000, ratio: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,135 @@
+import { TimeRecord } from '../../storage/interfaces';
+import { createTimeRecord } from '../../timer/timer-tree';
+import {
+  buildPeriodReport,
+  formatDuration,
+  getChangeRatio,
+  getPeriodRange,
+  getPreviousPeriodRange,
+} from '../summary-report';
+
+// Wednesday, 9:00 local time
+const WEDNESDAY = new Date(2025, 0, 15, 9, 0, 0);
+const T0 = WEDNESDAY.getTime();
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+
+const record = (
+  id: string,
+  parentId: string | null,
+  intervals: [number, number][],
+  children: TimeRecord[] = [],
+  isBreak = false
+): TimeRecord => ({
+  ...createTimeRecord({ id, label: id, parentId, avatarColor: '#000', createdAt: new Date(T0), isBreak }),
+  intervals: intervals.map(([start, end]) => ({ start: T0 + start * MINUTE, end: T0 + end * MINUTE })),
+  children,
+});
+
+describe('period ranges', () => {
+  it('covers the local day of the anchor', () => {
+    const range = getPeriodRange('day', WEDNESDAY);
+
+    expect(new Date(range.start)).toEqual(new Date(2025, 0, 15));
+    expect(new Date(range.end)).toEqual(new Date(2025, 0, 16));
+  });
+
+  it('starts weeks on Monday', () => {
+    expect(new Date(getPeriodRange('week', WEDNESDAY).start)).toEqual(new Date(2025, 0, 13));
+    expect(new Date(getPeriodRange('week', new Date(2025, 0, 19, 23)).start)).toEqual(new Date(2025, 0, 13));
+  });
+
+  it('finds the previous period', () => {
+    expect(new Date(getPreviousPeriodRange('day', WEDNESDAY).start)).toEqual(new Date(2025, 0, 14));
+    expect(new Date(getPreviousPeriodRange('week', WEDNESDAY).start)).toEqual(new Date(2025, 0, 6));
+  });
+});
+
+describe('buildPeriodReport', () => {
+  /**
+   * project: today 0-60 (design 0-20, Break 20-30, build 30-50), yesterday 0-30
+   * errands: today 120-135
+   */
+  const trees = [
+    record('project', null, [[0, 60], [-DAY / MINUTE, -DAY / MINUTE + 30]], [
+      record('design', 'project', [[0, 20]]),
+      record('Break', 'project', [[20, 30]], [], true),
+      record('build', 'project', [[30, 50]]),
+    ]),
+    record('errands', null, [[120, 135]]),
+    record('idle', null, []),
+  ];
+
+  it('breaks the day down by root and child task', () => {
+    const { current } = buildPeriodReport(trees, 'day', WEDNESDAY, T0 + DAY / 2);
+
+    expect(current.totalSeconds).toBe(75 * 60);
+    expect(current.breakSeconds).toBe(10 * 60);
+    expect(current.workSeconds).toBe(65 * 60);
+    expect(current.roots.map(root => [root.id, root.totalSeconds, root.ownSeconds])).toEqual([
+      ['project', 3600, 600],
+      ['errands', 900, 900],
+    ]);
+    expect(current.roots[0].children.map(child => [child.id, child.totalSeconds, child.breakSeconds])).toEqual([
+      ['design', 1200, 0],
+      ['build', 1200, 0],
+      ['Break', 600, 600],
+    ]);
+  });
+
+  it('summarizes the previous day for comparison', () => {
+    const { previous } = buildPeriodReport(trees, 'day', WEDNESDAY, T0 + DAY / 2);
+
+    expect(previous.totalSeconds).toBe(30 * 60);
+    expect(previous.roots.map(root => root.id)).toEqual(['project']);
+  });
+
+  it('counts a running session up to now', () => {
+    const running = [{ ...record('solo', null, []), isRunning: true, startTime: T0 }];
+    const { current } = buildPeriodReport(running, 'week', WEDNESDAY, T0 + 5 * MINUTE);
+
+    expect(current.totalSeconds).toBe(300);
+  });
+
+  it('leaves out time backfilled from an old total', () => {
+    const legacy = record('legacy', null, [[0, 10]]);
+    const trees = [{ ...legacy, intervals: [{ start: T0 - 60 * MINUTE, end: T0 + 30 * MINUTE, synthetic: true }, ...legacy.intervals] }];
+
+    const { current } = buildPeriodReport(trees, 'day', WEDNESDAY, T0 + DAY / 2);
+
+    expect(current.totalSeconds).toBe(10 * 60);
+  });
+});
+
+describe('summarizeTags', () => {
+  it('groups time by tag, with subtrees inheriting the tag of their parent', () => {
+    const trees = [
+      { ...record('project', null, [[0, 60]], [
+        { ...record('design', 'project', [[0, 20]]), tagIds: ['creative'] },
+        record('build', 'project', [[30, 50]]),
+      ]), tagIds: ['work'] },
+      record('errands', null, [[120, 135]]),
+    ];
+
+    const { current } = buildPeriodReport(trees, 'day', WEDNESDAY, T0 + DAY / 2);
+
+    expect(current.tags).toEqual([
+      { tagId: 'work', totalSeconds: 3600 },
+      { tagId: 'creative', totalSeconds: 1200 },
+      { tagId: null, totalSeconds: 900 },
+    ]);
+  });
+});
+
+describe('formatting helpers', () => {
+  it('computes the change against the previous period', () => {
+    expect(getChangeRatio(150, 100)).toBe(0.5);
+    expect(getChangeRatio(10, 0)).toBeNull();
+  });
+
+  it('formats durations', () => {
+    expect(formatDuration(59)).toBe('0m');
+    expect(formatDuration(12 * 60)).toBe('12m');
+    expect(formatDuration(3600 + 5 * 60)).toBe('1h 05m');
+  });
+});
@@ -0,0 +1,59 @@
+import { TimeRecord } from '../storage/interfaces';
+import { hasTag, Tag } from '../tags/tags';
+import { getRolledUpEstimate } from '../timer/estimates';
+import { getElapsedTime } from '../timer/timer-tree';
+
+/**
+ * Estimated against tracked time for a root or a tag
+ */
+export interface EstimateAccuracy {
+  id: string;             // root or tag ID
+  label: string;
+  estimateSeconds: number;
+  actualSeconds: number;
+  ratio: number;          // actual / estimate; above 1 means it took longer than planned
+}
+
+const toAccuracy = (id: string, label: string, estimateSeconds: number, actualSeconds: number): EstimateAccuracy => ({
+  id,
+  label,
+  estimateSeconds,
+  actualSeconds,
+  ratio: actualSeconds / estimateSeconds,
+});
+
+/**
+ * Accuracy of every root that has an estimate, worst first
+ */
+export function getRootAccuracy(trees: TimeRecord[], now: number): EstimateAccuracy[] {
+  return trees
+    .flatMap(tree => {
+      const estimate = getRolledUpEstimate(tree);
+      return estimate ? [toAccuracy(tree.id, tree.label, estimate, getElapsedTime(tree, now))] : [];
+    })
+    .sort((a, b) => Math.abs(b.ratio - 1) - Math.abs(a.ratio - 1));
+}
+
+/**
+ * Accuracy per tag, over the highest estimated records carrying the tag.
+ * Records below a counted record are skipped so their time is not counted twice.
+ */
+export function getTagAccuracy(trees: TimeRecord[], tags: Tag[], now: number): EstimateAccuracy[] {
+  return tags
+    .flatMap(tag => {
+      let estimateSeconds = 0;
+      let actualSeconds = 0;
+      const visit = (record: TimeRecord) => {
+        const estimate = hasTag(record, tag.id) ? getRolledUpEstimate(record) : null;
+        if (estimate) {
+          estimateSeconds += estimate;
+          actualSeconds += getElapsedTime(record, now);
+          return;
+        }
+        record.children.forEach(visit);
+      };
+      trees.forEach(visit);
+      return estimateSeconds > 0 ? [toAccuracy(tag.id, tag.name, estimateSeconds, actualSeconds)] : [];
+    })
+    .sort((a, b) => Math.abs(b.ratio - 1) - Math.abs(a.ratio - 1));
+}
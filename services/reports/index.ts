@@ -0,0 +1,2 @@
+export * from './summary-report';
+export * from './estimate-accuracy';
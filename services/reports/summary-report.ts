@@ -0,0 +1,214 @@
+import { TimeInterval, TimeRecord } from '../storage/interfaces';
+import {
+  clipIntervals,
+  coveredSeconds,
+  getDescendantSessionIntervals,
+  getSessionIntervals,
+  subtractIntervals,
+  TimeRange,
+} from '../timer/intervals';
+
+export type ReportPeriod = 'day' | 'week';
+
+/**
+ * Time spent on a task inside the report range, in seconds
+ */
+export interface TaskTotal {
+  id: string;
+  label: string;
+  avatarColor: string;
+  totalSeconds: number;
+  breakSeconds: number;
+}
+
+/**
+ * A root task with its own time and the totals of its direct children
+ */
+export interface RootTotal extends TaskTotal {
+  ownSeconds: number;
+  children: TaskTotal[];
+}
+
+/**
+ * Time spent on records carrying a tag; `tagId` is null for untagged time
+ */
+export interface TagTotal {
+  tagId: string | null;
+  totalSeconds: number;
+}
+
+/**
+ * Totals for one report range
+ */
+export interface PeriodSummary {
+  range: TimeRange;
+  totalSeconds: number;
+  workSeconds: number;
+  breakSeconds: number;
+  roots: RootTotal[];
+  tags: TagTotal[];
+}
+
+/**
+ * A period next to the one before it
+ */
+export interface PeriodReport {
+  period: ReportPeriod;
+  current: PeriodSummary;
+  previous: PeriodSummary;
+}
+
+/**
+ * Local day or week (starting on Monday) that contains the anchor.
+ * Built from calendar fields so days around DST changes keep their real length.
+ */
+export function getPeriodRange(period: ReportPeriod, anchor: Date): TimeRange {
+  const start = new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate());
+  if (period === 'week') {
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  }
+  const end = new Date(start);
+  end.setDate(end.getDate() + (period === 'week' ? 7 : 1));
+  return { start: start.getTime(), end: end.getTime() };
+}
+
+/**
+ * The day or week right before the one containing the anchor
+ */
+export function getPreviousPeriodRange(period: ReportPeriod, anchor: Date): TimeRange {
+  const { start } = getPeriodRange(period, anchor);
+  const previous = new Date(start);
+  previous.setDate(previous.getDate() - 1);
+  return getPeriodRange(period, previous);
+}
+
+/**
+ * Every session recorded on a record or anything below it.
+ * Reports place time on days, so intervals backfilled from an old total are left out.
+ */
+const subtreeIntervals = (record: TimeRecord, now: number): TimeInterval[] =>
+  [...getSessionIntervals(record, now), ...getDescendantSessionIntervals(record, now)];
+
+/**
+ * Intervals of the break records in a subtree, including the record itself
+ */
+const breakIntervals = (record: TimeRecord, now: number): TimeInterval[] =>
+  record.isBreak
+    ? subtreeIntervals(record, now)
+    : record.children.flatMap(child => breakIntervals(child, now));
+
+/**
+ * Work time recorded on a record or anything below it, without its breaks
+ */
+export function getWorkIntervals(record: TimeRecord, now: number): TimeInterval[] {
+  return subtractIntervals(subtreeIntervals(record, now), breakIntervals(record, now));
+}
+
+/**
+ * Intervals of every tagged subtree in a tree, grouped by tag
+ */
+const collectTaggedIntervals = (
+  record: TimeRecord,
+  now: number,
+  byTag: Map<string, TimeInterval[]> = new Map()
+): Map<string, TimeInterval[]> => {
+  (record.tagIds ?? []).forEach(tagId => {
+    byTag.set(tagId, [...(byTag.get(tagId) ?? []), ...subtreeIntervals(record, now)]);
+  });
+  record.children.forEach(child => collectTaggedIntervals(child, now, byTag));
+  return byTag;
+};
+
+/**
+ * Totals per tag. A tag covers the whole subtree of a record that carries it,
+ * so time with several tags counts once for each of them.
+ */
+export function summarizeTags(trees: TimeRecord[], range: TimeRange, now: number): TagTotal[] {
+  const byTag = new Map<string, TimeInterval[]>();
+  let untaggedSeconds = 0;
+
+  trees.forEach(tree => {
+    const treeTags = collectTaggedIntervals(tree, now);
+    treeTags.forEach((intervals, tagId) => byTag.set(tagId, [...(byTag.get(tagId) ?? []), ...intervals]));
+    const tagged = [...treeTags.values()].flat();
+    untaggedSeconds += coveredSeconds(clipIntervals(subtractIntervals(subtreeIntervals(tree, now), tagged), range));
+  });
+
+  const totals: TagTotal[] = [...byTag.entries()]
+    .map(([tagId, intervals]) => ({ tagId, totalSeconds: coveredSeconds(clipIntervals(intervals, range)) }))
+    .filter(total => total.totalSeconds > 0);
+  if (untaggedSeconds > 0) {
+    totals.push({ tagId: null, totalSeconds: untaggedSeconds });
+  }
+  return totals.sort((a, b) => b.totalSeconds - a.totalSeconds);
+}
+
+const totalTask = (record: TimeRecord, range: TimeRange, now: number): TaskTotal => ({
+  id: record.id,
+  label: record.label,
+  avatarColor: record.avatarColor,
+  totalSeconds: coveredSeconds(clipIntervals(subtreeIntervals(record, now), range)),
+  breakSeconds: coveredSeconds(clipIntervals(breakIntervals(record, now), range)),
+});
+
+/**
+ * Sum up the time of every root inside the range.
+ * Overlapping sessions in one tree count once; roots and children without
+ * time in the range are left out, and both lists are sorted by total time.
+ */
+export function summarizeRange(trees: TimeRecord[], range: TimeRange, now: number): PeriodSummary {
+  const byTotal = (a: TaskTotal, b: TaskTotal) => b.totalSeconds - a.totalSeconds;
+
+  const roots = trees
+    .map(tree => ({
+      ...totalTask(tree, range, now),
+      ownSeconds: coveredSeconds(clipIntervals(
+        subtractIntervals(getSessionIntervals(tree, now), getDescendantSessionIntervals(tree, now)),
+        range
+      )),
+      children: tree.children
+        .map(child => totalTask(child, range, now))
+        .filter(child => child.totalSeconds > 0)
+        .sort(byTotal),
+    }))
+    .filter(root => root.totalSeconds > 0)
+    .sort(byTotal);
+
+  const totalSeconds = roots.reduce((total, root) => total + root.totalSeconds, 0);
+  const breakSeconds = roots.reduce((total, root) => total + root.breakSeconds, 0);
+  return {
+    range,
+    totalSeconds,
+    workSeconds: totalSeconds - breakSeconds,
+    breakSeconds,
+    roots,
+    tags: summarizeTags(trees, range, now),
+  };
+}
+
+/**
+ * Summaries of the day or week containing the anchor and of the one before it
+ */
+export function buildPeriodReport(trees: TimeRecord[], period: ReportPeriod, anchor: Date, now: number): PeriodReport {
+  return {
+    period,
+    current: summarizeRange(trees, getPeriodRange(period, anchor), now),
+    previous: summarizeRange(trees, getPreviousPeriodRange(period, anchor), now),
+  };
+}
+
+/**
+ * Relative change from the previous value, or null when there is nothing to compare with
+ */
+export function getChangeRatio(current: number, previous: number): number | null {
+  return previous > 0 ? (current - previous) / previous : null;
+}
+
+/**
+ * Duration as `1h 05m`, or `12m` below an hour
+ */
+export function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${String(minutes).padStart(2, '0')}m` : `${minutes}m`;
+}
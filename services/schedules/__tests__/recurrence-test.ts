@@ -0,0 +1,98 @@
+import {
+  getDueOccurrences,
+  getOccurrences,
+  getScheduledRecordId,
+  MAX_CATCH_UP_DAYS,
+  Recurrence,
+  Schedule,
+} from '../recurrence';
+
+// Wednesday, 2025-01-15 local time
+const at = (day: number, hour: number, minute = 0, month = 0) => new Date(2025, month, day, hour, minute).getTime();
+
+const schedule = (recurrence: Recurrence, changes: Partial<Schedule> = {}): Schedule => ({
+  id: 's1',
+  templateId: 't1',
+  recurrence,
+  hour: 9,
+  minute: 30,
+  createdAt: at(1, 0),
+  ...changes,
+});
+
+const days = (occurrences: number[]) => occurrences.map(occurrence => new Date(occurrence).getDate());
+
+describe('getOccurrences', () => {
+  it('repeats daily at the local time', () => {
+    const occurrences = getOccurrences(schedule({ type: 'daily' }), at(13, 0), at(16, 0));
+
+    expect(occurrences).toEqual([at(13, 9, 30), at(14, 9, 30), at(15, 9, 30)]);
+  });
+
+  it('skips weekends for weekdays', () => {
+    // Friday the 10th to Tuesday the 14th
+    expect(days(getOccurrences(schedule({ type: 'weekdays' }), at(10, 0), at(14, 23)))).toEqual([10, 13, 14]);
+  });
+
+  it('repeats on the listed days of the week', () => {
+    // Mondays and Thursdays
+    const occurrences = getOccurrences(schedule({ type: 'weekly', weekdays: [1, 4] }), at(1, 0), at(31, 23));
+
+    expect(days(occurrences)).toEqual([2, 6, 9, 13, 16, 20, 23, 27, 30]);
+  });
+
+  it('leaves out the start of the range and includes its end', () => {
+    const occurrences = getOccurrences(schedule({ type: 'daily' }), at(13, 9, 30), at(14, 9, 30));
+
+    expect(occurrences).toEqual([at(14, 9, 30)]);
+  });
+
+  it('keeps the local time across daylight saving changes', () => {
+    // March and April cover the DST changes of most time zones
+    const occurrences = getOccurrences(schedule({ type: 'daily' }), at(1, 0, 0, 2), at(30, 23, 0, 3));
+
+    expect(occurrences).toHaveLength(61);
+    occurrences.forEach(occurrence => {
+      expect(new Date(occurrence).getHours()).toBe(9);
+      expect(new Date(occurrence).getMinutes()).toBe(30);
+    });
+    expect(new Set(occurrences.map(occurrence => getScheduledRecordId('s1', occurrence))).size).toBe(61);
+  });
+});
+
+describe('getDueOccurrences', () => {
+  it('starts after the schedule was created', () => {
+    const created = schedule({ type: 'daily' }, { createdAt: at(14, 10) });
+
+    expect(getDueOccurrences(created, at(15, 9))).toEqual([]);
+    expect(getDueOccurrences(created, at(15, 9, 30))).toEqual([at(15, 9, 30)]);
+  });
+
+  it('returns nothing again for occurrences before the last run', () => {
+    const ran = schedule({ type: 'daily' }, { lastRunAt: at(15, 9, 45) });
+
+    expect(getDueOccurrences(ran, at(15, 18))).toEqual([]);
+    expect(getDueOccurrences(ran, at(16, 9, 30))).toEqual([at(16, 9, 30)]);
+  });
+
+  it('catches up on missed days', () => {
+    const ran = schedule({ type: 'weekdays' }, { lastRunAt: at(9, 12) });
+
+    // Last run Thursday noon, next start Wednesday morning
+    expect(days(getDueOccurrences(ran, at(15, 10)))).toEqual([10, 13, 14, 15]);
+  });
+
+  it(`goes back at most ${MAX_CATCH_UP_DAYS} days`, () => {
+    const stale = schedule({ type: 'daily' }, { lastRunAt: at(1, 12) });
+
+    expect(days(getDueOccurrences(stale, at(20, 8)))).toEqual([13, 14, 15, 16, 17, 18, 19]);
+  });
+});
+
+describe('getScheduledRecordId', () => {
+  it('is the same for any time on one local day', () => {
+    expect(getScheduledRecordId('s1', at(15, 9, 30))).toBe('scheduled-s1-20250115');
+    expect(getScheduledRecordId('s1', at(15, 23, 59))).toBe('scheduled-s1-20250115');
+    expect(getScheduledRecordId('s2', at(15, 9, 30))).toBe('scheduled-s2-20250115');
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Which days a schedule repeats on
+ * - daily: every day
+ * - weekdays: Monday to Friday
+ * - weekly: the listed days of the week, 0 = Sunday
+ */
+export type Recurrence =
+  | { type: 'daily' }
+  | { type: 'weekdays' }
+  | { type: 'weekly'; weekdays: number[] };
+
+/**
+ * Creates a root record from a template at a local time of day on every matching day
+ */
+export interface Schedule {
+  id: string;
+  templateId: string;
+  recurrence: Recurrence;
+  hour: number;         // 本地时间
+  minute: number;
+  createdAt: number;
+  lastRunAt?: number;   // 此时间之前到期的记录都已创建
+}
+
+/**
+ * Missed occurrences older than this many days are not created any more,
+ * so opening the app after a long break does not flood the home list
+ */
+export const MAX_CATCH_UP_DAYS = 7;
+
+/**
+ * Whether the recurrence includes the local day of the date
+ */
+export function occursOn(recurrence: Recurrence, date: Date): boolean {
+  const day = date.getDay();
+  switch (recurrence.type) {
+    case 'daily':
+      return true;
+    case 'weekdays':
+      return day >= 1 && day <= 5;
+    case 'weekly':
+      return recurrence.weekdays.includes(day);
+  }
+}
+
+/**
+ * Occurrences in the range (after, until], oldest first.
+ * Each one is built from the calendar fields of its day, so it stays at the
+ * same local time across DST changes; a time skipped by DST moves forward.
+ */
+export function getOccurrences(schedule: Schedule, after: number, until: number): number[] {
+  const occurrences: number[] = [];
+  const day = new Date(after);
+  day.setHours(0, 0, 0, 0);
+  for (; day.getTime() <= until; day.setDate(day.getDate() + 1)) {
+    const occurrence = new Date(day.getFullYear(), day.getMonth(), day.getDate(), schedule.hour, schedule.minute).getTime();
+    if (occurrence > after && occurrence <= until && occursOn(schedule.recurrence, day)) {
+      occurrences.push(occurrence);
+    }
+  }
+  return occurrences;
+}
+
+/**
+ * Occurrences whose records are due now: everything since the last run (or since
+ * the schedule was created), going back at most MAX_CATCH_UP_DAYS days
+ */
+export function getDueOccurrences(schedule: Schedule, now: number): number[] {
+  const catchUpStart = new Date(now);
+  catchUpStart.setHours(0, 0, 0, 0);
+  catchUpStart.setDate(catchUpStart.getDate() - MAX_CATCH_UP_DAYS);
+  const after = Math.max(schedule.lastRunAt ?? schedule.createdAt, catchUpStart.getTime() - 1);
+  return getOccurrences(schedule, after, now);
+}
+
+/**
+ * ID of the root record created for an occurrence, one per schedule and local day.
+ * Creating records under this ID keeps a second run from adding duplicates.
+ */
+export function getScheduledRecordId(scheduleId: string, occurrence: number): string {
+  const date = new Date(occurrence);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `scheduled-${scheduleId}-${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+}
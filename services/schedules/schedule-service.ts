@@ -0,0 +1,52 @@
+import { IStorageService } from '../storage/interfaces';
+import { instantiateTemplate } from '../templates/templates';
+import { loadTemplates } from '../templates/template-service';
+import { getDueOccurrences, getScheduledRecordId, Schedule } from './recurrence';
+
+const SCHEDULES_KEY = 'schedules';
+
+/**
+ * Load every schedule
+ */
+export async function loadSchedules(storage: IStorageService): Promise<Schedule[]> {
+  return storage.loadValue<Schedule[]>(SCHEDULES_KEY, []);
+}
+
+/**
+ * Replace the stored schedules
+ */
+export async function saveSchedules(storage: IStorageService, schedules: Schedule[]): Promise<void> {
+  await storage.saveValue(SCHEDULES_KEY, schedules);
+}
+
+/**
+ * Create the root records of every occurrence that is due.
+ * Each record is created once: its ID is derived from the schedule and the day,
+ * and a record already stored under that ID (even in the trash) is left alone.
+ * Schedules whose template was deleted create nothing.
+ * @returns the number of records created
+ */
+export async function createScheduledRecords(storage: IStorageService, now: number): Promise<number> {
+  const [schedules, templates] = await Promise.all([loadSchedules(storage), loadTemplates(storage)]);
+  if (schedules.length === 0) {
+    return 0;
+  }
+
+  let created = 0;
+  for (const schedule of schedules) {
+    const template = templates.find(item => item.id === schedule.templateId);
+    if (!template) {
+      continue;
+    }
+    for (const occurrence of getDueOccurrences(schedule, now)) {
+      const id = getScheduledRecordId(schedule.id, occurrence);
+      if (await storage.loadRecord(id)) {
+        continue;
+      }
+      await storage.saveRecord({ ...instantiateTemplate(template, id, new Date(occurrence)), scheduledAt: occurrence });
+      created++;
+    }
+  }
+  await saveSchedules(storage, schedules.map(schedule => ({ ...schedule, lastRunAt: now })));
+  return created;
+}
@@ -0,0 +1,56 @@
+import { TimeRecord } from '../../storage/interfaces';
+import { createTimeRecord } from '../../timer/timer-tree';
+import { getNoteSnippet, searchRecords } from '../record-search';
+
+const T0 = Date.UTC(2025, 0, 1, 9, 0, 0);
+
+const record = (id: string, label: string, note: string, children: TimeRecord[] = []): TimeRecord => ({
+  ...createTimeRecord({ id, label, parentId: null, avatarColor: '#000', createdAt: new Date(T0) }),
+  note,
+  intervals: [{ start: T0, end: T0 + 60_000 }],
+  children,
+});
+
+/**
+ * Website
+ * ├── Design review   note: "Feedback from Anna"
+ * └── Build
+ *     └── Fix login   note: "Design tokens were wrong"
+ */
+const trees = [
+  record('web', 'Website', '', [
+    record('review', 'Design review', 'Feedback from Anna'),
+    record('build', 'Build', '', [record('login', 'Fix login', 'Design tokens were wrong')]),
+  ]),
+  record('home', 'Chores', ''),
+];
+
+describe('searchRecords', () => {
+  it('finds labels and notes at any depth with their ancestor path', () => {
+    const results = searchRecords(trees, 'design', T0);
+
+    expect(results.map(result => [result.recordId, result.rootId, result.path, result.matchedNote])).toEqual([
+      ['review', 'web', ['Website'], false],
+      ['login', 'web', ['Website', 'Build'], true],
+    ]);
+    expect(results[0].totalSeconds).toBe(60);
+  });
+
+  it('requires every term, ignoring case', () => {
+    expect(searchRecords(trees, 'LOGIN tokens', T0).map(result => result.recordId)).toEqual(['login']);
+    expect(searchRecords(trees, 'login anna', T0)).toEqual([]);
+  });
+
+  it('returns nothing for an empty query', () => {
+    expect(searchRecords(trees, '   ', T0)).toEqual([]);
+  });
+});
+
+describe('getNoteSnippet', () => {
+  it('cuts the note around the first match', () => {
+    const note = `${'a'.repeat(50)} needle ${'b'.repeat(50)}`;
+
+    expect(getNoteSnippet(note, 'needle')).toBe(`…${'a'.repeat(29)} needle ${'b'.repeat(23)}…`);
+    expect(getNoteSnippet('short note', 'short')).toBe('short note');
+  });
+});
@@ -0,0 +1,76 @@
+import { TimeRecord } from '../storage/interfaces';
+import { getElapsedTime } from '../timer/timer-tree';
+
+/**
+ * A record whose label or note matches every search term
+ */
+export interface SearchResult {
+  recordId: string;
+  rootId: string;
+  path: string[];
+  label: string;
+  note: string;
+  matchedNote: boolean;
+  totalSeconds: number;
+}
+
+const NOTE_SNIPPET_RADIUS = 30;
+
+/**
+ * Split a query into lower-case terms
+ */
+const toTerms = (query: string): string[] =>
+  query.toLowerCase().split(/\s+/).filter(term => term.length > 0);
+
+/**
+ * Search label and note of every record at any depth.
+ * A record matches when each term appears in its label or its note;
+ * results keep tree order, with label matches first.
+ */
+export function searchRecords(trees: TimeRecord[], query: string, now: number): SearchResult[] {
+  const terms = toTerms(query);
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const results: SearchResult[] = [];
+  const visit = (record: TimeRecord, rootId: string, path: string[]) => {
+    const label = record.label.toLowerCase();
+    const note = (record.note ?? '').toLowerCase();
+    if (terms.every(term => label.includes(term) || note.includes(term))) {
+      results.push({
+        recordId: record.id,
+        rootId,
+        path,
+        label: record.label,
+        note: record.note ?? '',
+        matchedNote: terms.some(term => !label.includes(term)),
+        totalSeconds: getElapsedTime(record, now),
+      });
+    }
+    record.children.forEach(child => visit(child, rootId, [...path, record.label]));
+  };
+  trees.forEach(tree => visit(tree, tree.id, []));
+
+  return [
+    ...results.filter(result => !result.matchedNote),
+    ...results.filter(result => result.matchedNote),
+  ];
+}
+
+/**
+ * The part of a note around the first matching term, for display in results
+ */
+export function getNoteSnippet(note: string, query: string): string {
+  const lower = note.toLowerCase();
+  const index = toTerms(query)
+    .map(term => lower.indexOf(term))
+    .filter(position => position >= 0)
+    .sort((a, b) => a - b)[0];
+  if (index === undefined) {
+    return note.slice(0, NOTE_SNIPPET_RADIUS * 2);
+  }
+  const start = Math.max(0, index - NOTE_SNIPPET_RADIUS);
+  const end = Math.min(note.length, index + NOTE_SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${note.slice(start, end).replace(/\s+/g, ' ')}${end < note.length ? '…' : ''}`;
+}
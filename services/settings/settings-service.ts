@@ -0,0 +1,18 @@
+import { IStorageService } from '../storage/interfaces';
+import { AppSettings, withDefaultSettings } from './settings';
+
+const SETTINGS_KEY = 'settings';
+
+/**
+ * Load the settings; options missing from older saves get their defaults
+ */
+export async function loadSettings(storage: IStorageService): Promise<AppSettings> {
+  return withDefaultSettings(await storage.loadValue<Partial<AppSettings>>(SETTINGS_KEY, {}));
+}
+
+/**
+ * Replace the stored settings
+ */
+export async function saveSettings(storage: IStorageService, settings: AppSettings): Promise<void> {
+  await storage.saveValue(SETTINGS_KEY, settings);
+}
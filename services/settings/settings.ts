@@ -0,0 +1,54 @@
+import { PomodoroSettings } from '../storage/interfaces';
+
+/**
+ * Which local notifications are scheduled while the app is in the background
+ */
+export interface NotificationSettings {
+  runningReminderMinutes: number;  // 计时超过多少分钟时提醒，0 表示关闭
+  pomodoro: boolean;               // 番茄钟阶段结束时提醒
+  goals: boolean;                  // 计时中达成目标时提醒，目标在目标页面设置
+}
+
+/**
+ * App-wide preferences
+ */
+export interface AppSettings {
+  idleThresholdMinutes: number;  // 计时超过多少分钟时在回到应用时询问，0 表示关闭
+  pomodoro: PomodoroSettings;    // 开始番茄钟时使用的时长
+  notifications: NotificationSettings;
+  trashRetentionDays: number;    // 回收站中的记录保留多少天后永久删除，0 表示不自动删除
+  singleActiveTimer: boolean;    // 开始任何计时都会停止所有其他记录中的计时
+}
+
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
+  workMinutes: 25,
+  breakMinutes: 5,
+  longBreakMinutes: 15,
+  cyclesPerLongBreak: 4,
+};
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  runningReminderMinutes: 60,
+  pomodoro: true,
+  goals: true,
+};
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  idleThresholdMinutes: 120,
+  pomodoro: DEFAULT_POMODORO_SETTINGS,
+  notifications: DEFAULT_NOTIFICATION_SETTINGS,
+  trashRetentionDays: 30,
+  singleActiveTimer: false,
+};
+
+/**
+ * Fill in the options missing from settings saved by an older version
+ */
+export function withDefaultSettings(stored: Partial<AppSettings>): AppSettings {
+  return {
+    ...DEFAULT_SETTINGS,
+    ...stored,
+    pomodoro: { ...DEFAULT_SETTINGS.pomodoro, ...stored.pomodoro },
+    notifications: { ...DEFAULT_SETTINGS.notifications, ...stored.notifications },
+  };
+}
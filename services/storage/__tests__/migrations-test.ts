@@ -0,0 +1,87 @@
+import { CURRENT_SCHEMA_VERSION, migrateRecords, migrations } from '../migrations';
+
+const CREATED_AT = '2025-01-01T09:00:00.000Z';
+const T0 = Date.parse(CREATED_AT);
+
+describe('migrations', () => {
+  it('are ordered and end at the current schema version', () => {
+    const versions = migrations.map(migration => migration.version);
+
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(versions[versions.length - 1]).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it('upgrades an unversioned record saved before baseTime existed', () => {
+    const legacy = {
+      id: 'root',
+      time: 90,
+      isRunning: false,
+      label: 'Legacy',
+      parentId: null,
+      isCollapsed: true,
+      isEditing: true,
+      avatarColor: '#000',
+      createdAt: CREATED_AT,
+      children: [{ id: 'child', time: 30, parentId: 'root', createdAt: CREATED_AT, isEditingNote: true, children: [] }],
+    };
+
+    const [root, child] = migrateRecords([legacy], 0);
+
+    expect(root.baseTime).toBe(90);
+    expect(root.intervals).toEqual([{ start: T0, end: T0 + 90_000, synthetic: true }]);
+    expect(root.isCollapsed).toBeUndefined();
+    expect(root.isEditing).toBeUndefined();
+    expect(child.baseTime).toBe(30);
+    expect(child.intervals).toEqual([{ start: T0, end: T0 + 30_000, synthetic: true }]);
+    expect(child.isEditingNote).toBeUndefined();
+  });
+
+  it('splits nested children into records of their own', () => {
+    const nested = {
+      id: 'root',
+      parentId: null,
+      createdAt: CREATED_AT,
+      children: [
+        { id: 'a', parentId: 'root', createdAt: CREATED_AT, children: [{ id: 'a1', createdAt: CREATED_AT, children: [] }] },
+        { id: 'b', parentId: 'root', createdAt: CREATED_AT, children: [] },
+      ],
+    };
+
+    const migrated = migrateRecords([nested], 0);
+
+    expect(migrated.map(record => [record.id, record.parentId, record.order])).toEqual([
+      ['root', null, 0],
+      ['a', 'root', 0],
+      ['a1', 'a', 0],
+      ['b', 'root', 1],
+    ]);
+    migrated.forEach(record => expect(record).not.toHaveProperty('children'));
+  });
+
+  it('flags breaks created before the break flag existed', () => {
+    const legacy = [
+      { id: 'break', label: 'Break', avatarColor: '#FFB6C1', parentId: 'root', createdAt: CREATED_AT },
+      { id: 'task', label: 'Break', avatarColor: '#4ECDC4', parentId: 'root', createdAt: CREATED_AT },
+    ];
+
+    const migrated = migrateRecords(legacy, 4);
+
+    expect(migrated.map(record => record.isBreak)).toEqual([true, false]);
+  });
+
+  it('leaves current records unchanged when re-run', () => {
+    const current = {
+      id: 'root',
+      time: 10,
+      baseTime: 10,
+      intervals: [{ start: T0 + 1_000, end: T0 + 11_000 }],
+      parentId: null,
+      order: 2,
+      isBreak: false,
+      createdAt: CREATED_AT,
+    };
+
+    expect(migrateRecords([current], 0)).toEqual([current]);
+    expect(migrateRecords([current], CURRENT_SCHEMA_VERSION)[0]).toBe(current);
+  });
+});
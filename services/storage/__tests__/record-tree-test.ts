@@ -0,0 +1,82 @@
+import { TimeRecord } from '../interfaces';
+import { buildRecordTrees, collectDescendants, flattenRecordTree } from '../record-tree';
+
+const T0 = Date.UTC(2025, 0, 1, 9, 0, 0);
+
+const record = (id: string, parentId: string | null, children: TimeRecord[] = []): TimeRecord => ({
+  id,
+  time: 0,
+  baseTime: 0,
+  intervals: [],
+  isRunning: false,
+  label: id,
+  children,
+  parentId,
+  avatarColor: '#000',
+  createdAt: new Date(T0),
+});
+
+describe('flattenRecordTree', () => {
+  it('stores one record per node with parent and sibling order', () => {
+    const tree = record('root', null, [record('a', 'root', [record('a1', 'a')]), record('b', 'root')]);
+
+    const nodes = flattenRecordTree(tree);
+
+    expect(nodes.map(node => [node.id, node.parentId, node.order])).toEqual([
+      ['root', null, 0],
+      ['a', 'root', 0],
+      ['a1', 'a', 0],
+      ['b', 'root', 1],
+    ]);
+    nodes.forEach(node => expect(node).not.toHaveProperty('children'));
+  });
+
+  it('does not persist UI-only state', () => {
+    const tree = { ...record('root', null), isCollapsed: true, isEditing: true, isEditingNote: true };
+
+    const [node] = flattenRecordTree(tree);
+
+    expect(node).not.toHaveProperty('isCollapsed');
+    expect(node).not.toHaveProperty('isEditing');
+    expect(node).not.toHaveProperty('isEditingNote');
+  });
+});
+
+describe('buildRecordTrees', () => {
+  it('restores the tree that was flattened', () => {
+    const tree = record('root', null, [record('a', 'root', [record('a1', 'a')]), record('b', 'root')]);
+
+    const [rebuilt] = buildRecordTrees(flattenRecordTree(tree).reverse());
+
+    expect(rebuilt.id).toBe('root');
+    expect(rebuilt.children.map(child => child.id)).toEqual(['a', 'b']);
+    expect(rebuilt.children[0].children.map(child => child.id)).toEqual(['a1']);
+  });
+
+  it('returns records whose parent is missing as tops of their own trees', () => {
+    const nodes = flattenRecordTree(record('root', null, [record('a', 'root', [record('a1', 'a')])]));
+
+    const trees = buildRecordTrees(nodes.filter(node => node.id !== 'root'));
+
+    expect(trees.map(tree => tree.id)).toEqual(['a']);
+    expect(trees[0].children.map(child => child.id)).toEqual(['a1']);
+  });
+});
+
+describe('collectDescendants', () => {
+  it('returns the whole subtree without the record itself or its siblings', () => {
+    const nodes = [
+      ...flattenRecordTree(record('root', null, [record('a', 'root', [record('a1', 'a', [record('a11', 'a1')])]), record('b', 'root')])),
+      ...flattenRecordTree(record('other', null, [record('o1', 'other')])),
+    ];
+
+    expect(collectDescendants(nodes, 'a').map(node => node.id).sort()).toEqual(['a1', 'a11']);
+    expect(collectDescendants(nodes, 'b')).toEqual([]);
+  });
+
+  it('stops at parent cycles', () => {
+    const nodes = flattenRecordTree(record('a', 'b', [record('b', 'a')]));
+
+    expect(collectDescendants(nodes, 'a').map(node => node.id)).toEqual(['b']);
+  });
+});
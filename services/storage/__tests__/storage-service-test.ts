@@ -0,0 +1,209 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { IStorageProvider, PersistedTimeRecord, TimeRecord } from '../interfaces';
+import { JsonStorageProvider } from '../json-storage-provider';
+import { collectDescendants, flattenRecordTree } from '../record-tree';
+import { migrateToSqlite } from '../sqlite-migration';
+import { StorageService } from '../storage-service';
+
+// The default JSON provider imports AsyncStorage, which has no native module under Jest
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const DAY = 24 * 60 * 60 * 1000;
+const T0 = Date.UTC(2025, 0, 15, 9, 0, 0);
+
+/**
+ * Provider keeping records in a map, with the same archive and trash semantics as the real ones
+ */
+class MemoryStorageProvider implements IStorageProvider {
+  records = new Map<string, PersistedTimeRecord>();
+  values = new Map<string, string>();
+
+  async initialize() {}
+  async getRecord(id: string) { return this.records.get(id) ?? null; }
+  async saveRecord(record: PersistedTimeRecord) { this.records.set(record.id, record); }
+  async deleteRecord(id: string) { this.records.delete(id); }
+  async saveRecords(records: PersistedTimeRecord[]) { records.forEach(record => this.records.set(record.id, record)); }
+  async deleteRecords(ids: string[]) { ids.forEach(id => this.records.delete(id)); }
+  async getAllRecords() { return [...this.records.values()]; }
+  async getRootRecords() { return [...this.records.values()].filter(record => record.parentId === null); }
+  async getChildRecords(parentId: string) { return [...this.records.values()].filter(record => record.parentId === parentId); }
+  async getDescendantRecords(id: string) { return collectDescendants([...this.records.values()], id); }
+  async getValue(key: string) { return this.values.get(key) ?? null; }
+  async saveValue(key: string, value: string) { this.values.set(key, value); }
+  async getValueKeys() { return [...this.values.keys()]; }
+  async clearAllData() { this.records.clear(); }
+
+  async setArchivedAt(id: string, archivedAt: number | null) {
+    const record = this.records.get(id);
+    if (record) {
+      this.records.set(id, { ...record, archivedAt: archivedAt ?? undefined });
+    }
+  }
+
+  async setDeletedAt(id: string, deletedAt: number | null) {
+    const record = this.records.get(id);
+    if (record) {
+      this.records.set(id, { ...record, deletedAt: deletedAt ?? undefined });
+    }
+  }
+
+  async getDeletedRecords() {
+    return (await this.getRootRecords()).filter(record => record.deletedAt !== undefined);
+  }
+}
+
+const record = (id: string, parentId: string | null, children: TimeRecord[] = []): TimeRecord => ({
+  id,
+  time: 0,
+  baseTime: 0,
+  intervals: [],
+  isRunning: false,
+  label: id,
+  children,
+  parentId,
+  avatarColor: '#000',
+  createdAt: new Date(T0),
+});
+
+describe('StorageService archive and trash', () => {
+  let provider: MemoryStorageProvider;
+  let service: StorageService;
+
+  beforeEach(async () => {
+    provider = new MemoryStorageProvider();
+    service = new StorageService(provider);
+    await service.saveRecord(record('project', null, [record('design', 'project', [record('sketch', 'design')])]));
+    await service.saveRecord(record('errands', null));
+  });
+
+  it('keeps archived records in every load', async () => {
+    await service.archiveRecord('project', T0);
+
+    const trees = await service.loadRecords();
+    expect(trees.map(tree => [tree.id, tree.archivedAt])).toEqual([['project', T0], ['errands', undefined]]);
+    expect(trees[0].children[0].children[0].id).toBe('sketch');
+
+    await service.unarchiveRecord('project');
+    expect((await service.loadRecord('project'))?.archivedAt).toBeUndefined();
+  });
+
+  it('leaves trashed records out of loadRecords and loadRootRecords', async () => {
+    await service.trashRecord('project', T0);
+
+    expect((await service.loadRecords()).map(tree => tree.id)).toEqual(['errands']);
+    expect((await service.loadRootRecords()).map(tree => tree.id)).toEqual(['errands']);
+    const [trashed] = await service.loadTrashedRecords();
+    expect(trashed.id).toBe('project');
+    expect(trashed.deletedAt).toBe(T0);
+    expect(trashed.children[0].children[0].id).toBe('sketch');
+  });
+
+  it('restores a trashed record with its subtree', async () => {
+    await service.trashRecord('project', T0);
+    await service.restoreRecord('project');
+
+    expect((await service.loadRecords()).map(tree => tree.id)).toEqual(['project', 'errands']);
+    expect(await service.loadTrashedRecords()).toEqual([]);
+  });
+
+  it('purges only records trashed before the cutoff, with their descendants', async () => {
+    await service.trashRecord('project', T0);
+    await service.trashRecord('errands', T0 + 10 * DAY);
+
+    const removed = await service.purgeTrash(T0 + DAY);
+
+    expect(removed).toBe(1);
+    expect([...provider.records.keys()]).toEqual(['errands']);
+    expect((await service.loadTrashedRecords()).map(tree => tree.id)).toEqual(['errands']);
+  });
+
+  it('keeps the trash time when the tree is saved again', async () => {
+    await service.trashRecord('project', T0);
+    const tree = await service.loadRecord('project');
+
+    await service.saveRecord({ ...tree!, label: 'renamed' });
+
+    expect((await service.loadTrashedRecords()).map(tree => [tree.label, tree.deletedAt])).toEqual([['renamed', T0]]);
+  });
+});
+
+describe('StorageService saveRecords', () => {
+  it('moves a subtree to another tree in one provider write', async () => {
+    const provider = new MemoryStorageProvider();
+    const service = new StorageService(provider);
+    await service.saveRecords([
+      record('project', null, [record('design', 'project', [record('sketch', 'design')])]),
+      record('errands', null),
+    ]);
+    const saveRecords = jest.spyOn(provider, 'saveRecords');
+
+    await service.saveRecords([
+      record('project', null),
+      record('errands', null, [record('design', 'errands', [record('sketch', 'design')])]),
+    ]);
+
+    expect(saveRecords).toHaveBeenCalledTimes(1);
+    const trees = await service.loadRecords();
+    expect(trees.map(tree => [tree.id, tree.children.map(child => child.id)])).toEqual([['project', []], ['errands', ['design']]]);
+    expect(trees[1].children[0].children[0].id).toBe('sketch');
+  });
+});
+
+describe('StorageService initialize', () => {
+  beforeEach(() => AsyncStorage.clear());
+
+  it('holds reads and writes until the switch to another provider has finished', async () => {
+    const source = new MemoryStorageProvider();
+    const target = new MemoryStorageProvider();
+    await source.saveRecords(flattenRecordTree(record('old', null), 0));
+    await source.saveValue('settings', '{"trashRetentionDays":7}');
+    const service = new StorageService(source);
+
+    let finishSetup = () => {};
+    const setupStarted = new Promise<void>(resolve => { finishSetup = resolve; });
+    const initialized = service.initialize(async () => {
+      await setupStarted;
+      await migrateToSqlite(source, target);
+      service.setProvider(target);
+    });
+
+    // Started while the migration is still running
+    const saved = service.saveRecord(record('early', null));
+    const valueSaved = service.saveValue('tags', [{ id: 'focus' }]);
+    const loaded = service.loadRecords();
+    finishSetup();
+    await Promise.all([initialized, saved, valueSaved]);
+
+    expect((await loaded).map(tree => tree.id).sort()).toEqual(['early', 'old']);
+    expect([...target.records.keys()].sort()).toEqual(['early', 'old']);
+    expect(source.records.has('early')).toBe(false);
+    expect(target.values.get('settings')).toBe('{"trashRetentionDays":7}');
+    expect(await service.loadValue('tags', [])).toEqual([{ id: 'focus' }]);
+  });
+
+  it('holds reads until stored records are upgraded to the current schema', async () => {
+    await AsyncStorage.multiSet([
+      ['time_records_index', JSON.stringify(['legacy'])],
+      ['time_record_legacy', JSON.stringify({ id: 'legacy', time: 90, parentId: null, createdAt: new Date(T0).toISOString() })],
+    ]);
+    const service = new StorageService(new JsonStorageProvider());
+
+    const initialized = service.initialize();
+    const [legacy] = await service.loadRecords();
+    await initialized;
+
+    expect(legacy.intervals).toEqual([{ start: T0, end: T0 + 90_000, synthetic: true }]);
+  });
+
+  it('lets reads and writes through when initialization fails', async () => {
+    const provider = new MemoryStorageProvider();
+    const service = new StorageService(provider);
+
+    await expect(service.initialize(() => Promise.reject(new Error('no database')))).rejects.toThrow('no database');
+    await service.saveRecord(record('later', null));
+
+    expect((await service.loadRecords()).map(tree => tree.id)).toEqual(['later']);
+  });
+});
@@ -0,0 +1,65 @@
+import { WriteQueue } from '../write-queue';
+
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>(done => { resolve = done; });
+  return { promise, resolve };
+};
+
+describe('WriteQueue', () => {
+  it('runs writes one at a time in queue order', async () => {
+    const queue = new WriteQueue();
+    const log: string[] = [];
+    const first = deferred();
+
+    const a = queue.enqueue(async () => {
+      log.push('a:start');
+      await first.promise;
+      log.push('a:end');
+    });
+    const b = queue.enqueue(async () => {
+      log.push('b');
+    });
+
+    await Promise.resolve();
+    expect(log).toEqual(['a:start']);
+
+    first.resolve();
+    await Promise.all([a, b]);
+    expect(log).toEqual(['a:start', 'a:end', 'b']);
+  });
+
+  it('coalesces waiting writes for the same key', async () => {
+    const queue = new WriteQueue();
+    const blocker = deferred();
+    const written: number[] = [];
+
+    queue.enqueue(() => blocker.promise);
+    const saves = [1, 2, 3].map(value =>
+      queue.enqueueLatest('record', async () => {
+        written.push(value);
+      })
+    );
+
+    blocker.resolve();
+    await Promise.all(saves);
+    expect(written).toEqual([3]);
+  });
+
+  it('keeps running writes after one fails', async () => {
+    const queue = new WriteQueue();
+    const written: string[] = [];
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const failed = queue.enqueue(async () => {
+      throw new Error('disk full');
+    });
+    const next = queue.enqueue(async () => {
+      written.push('next');
+    });
+
+    await expect(failed).rejects.toThrow('disk full');
+    await next;
+    expect(written).toEqual(['next']);
+  });
+});
@@ -1,17 +1,40 @@
+import { Platform } from 'react-native';
+import { StorageService } from './storage-service';
+import { JsonStorageProvider } from './json-storage-provider';
+import { SqliteStorageProvider } from './sqlite-storage-provider';
+import { migrateToSqlite } from './sqlite-migration';
+
 export * from './interfaces';
 export * from './json-storage-provider';
+export * from './migrations';
+export * from './record-tree';
+export * from './sqlite-storage-provider';
+export * from './sqlite-migration';
 export * from './storage-service';
-
-// Create and export the default storage service instance
-import { StorageService } from './storage-service';
-import { JsonStorageProvider } from './json-storage-provider';
+export * from './write-queue';
 
 // Create the default instance with JSON storage
 const storageService = new StorageService(new JsonStorageProvider());
 
-// Initialize the service (this should be awaited in app startup)
-storageService.initialize().catch(error => {
+/**
+ * Switch native platforms over to SQLite, copying existing AsyncStorage
+ * records and values on first run
+ */
+const switchToSqlite = async () => {
+  if (Platform.OS === 'web') {
+    return;
+  }
+
+  const sqliteProvider = new SqliteStorageProvider();
+  await sqliteProvider.initialize();
+  await migrateToSqlite(storageService.getProvider(), sqliteProvider);
+  storageService.setProvider(sqliteProvider);
+};
+
+// Reads and writes made before this finishes wait for it, so nothing is
+// read from or written to the provider that is about to be replaced
+storageService.initialize(switchToSqlite).catch(error => {
   console.error('Failed to initialize storage service:', error);
 });
 
-export default storageService; 
\ No newline at end of file
+export default storageService;
@@ -1,21 +1,117 @@
 /**
- * Base record interface shared across the application
+ * A finished timing session, timestamps in milliseconds
+ */
+export interface TimeInterval {
+  start: number;
+  end: number;
+  synthetic?: boolean;  // 升级时由旧版本的累计时间推算，没有真实的起止时间
+}
+
+/**
+ * How a timer left running while the app was away was handled
+ * - keep: the whole session was kept
+ * - discard: the session was dropped
+ * - keepUntil: the session was kept up to a chosen moment
+ */
+export type IdleDecision = 'keep' | 'discard' | 'keepUntil';
+
+/**
+ * An audit entry in the history of a record
+ */
+export interface RecordHistoryEntry {
+  type: 'idle';
+  decidedAt: number;     // 做出决定的时间
+  sessionStart: number;  // 被检测到的计时段的开始时间
+  decision: IdleDecision;
+  keptUntil?: number;    // keepUntil 时保留到的时间
+}
+
+/**
+ * How the children of a record may run
+ * - exclusive: starting a child stops its running siblings
+ * - parallel: children run side by side
+ */
+export type ChildConcurrency = 'exclusive' | 'parallel';
+
+/**
+ * Timer rules of a record; records without one use DEFAULT_TIMER_POLICY
+ */
+export interface TimerPolicy {
+  children: ChildConcurrency;
+  countBreaks: boolean;  // Break 子记录运行时父记录是否继续计时
+}
+
+/**
+ * Lengths used by Pomodoro mode
+ */
+export interface PomodoroSettings {
+  workMinutes: number;
+  breakMinutes: number;
+  longBreakMinutes: number;
+  cyclesPerLongBreak: number;  // 每完成几个专注周期休息一次长休息
+}
+
+/**
+ * Phases of Pomodoro mode; `ready` waits for the user to start the next cycle
+ */
+export type PomodoroPhase = 'work' | 'break' | 'longBreak' | 'ready';
+
+/**
+ * Pomodoro state of a record, derived from timestamps so it survives restarts
  */
-export interface TimeRecord {
+export interface PomodoroState {
+  settings: PomodoroSettings;
+  phase: PomodoroPhase;
+  phaseStart: number;       // 当前阶段开始的时间戳
+  completedCycles: number;
+  breakRecordId?: string;   // 当前休息使用的 Break 子记录
+}
+
+/**
+ * Record shape as it is written to storage.
+ * Every node of a tree is stored on its own and points to its parent;
+ * `order` keeps the position among its siblings.
+ * Only fields listed here are persisted; bump CURRENT_SCHEMA_VERSION and
+ * add a migration in migrations.ts when changing them.
+ */
+export interface PersistedTimeRecord {
   id: string;
   time: number;
   isRunning: boolean;
   label: string;
-  children: TimeRecord[];
   parentId: string | null;
-  isCollapsed: boolean;
+  order: number;
   avatarColor: string;
   createdAt: Date;
-  isEditing?: boolean;
   note?: string;
-  isEditingNote?: boolean;
+  isBreak?: boolean;     // 休息记录（☕ 按钮创建）
+  tagIds?: string[];     // 标签 ID 列表
+  history?: RecordHistoryEntry[]; // 审计记录，例如闲置计时的处理方式
+  pomodoro?: PomodoroState; // 番茄钟模式的状态
+  estimate?: number;     // 预估时间（秒），未设置时由子记录的预估汇总
+  policy?: TimerPolicy;  // 计时规则，未设置时使用默认规则
+  archivedAt?: number;   // 归档时间（仅根记录），归档后不在首页显示，但仍计入报表
+  deletedAt?: number;    // 移入回收站的时间（仅根记录），到期后永久删除
+  scheduledAt?: number;  // 由定时计划自动创建时对应的计划时间（仅根记录）
   startTime?: number;    // 开始计时的时间戳
-  baseTime: number;      // 基础累计时间（不包含当前计时段）
+  baseTime: number;      // 基础累计时间（不包含当前计时段），由 intervals 求和得出
+  intervals: TimeInterval[]; // 已结束的计时段，计时只追加，只有手动编辑会修改
+}
+
+/**
+ * Transient UI state that is never persisted
+ */
+export interface TimeRecordUiState {
+  isCollapsed?: boolean;
+  isEditing?: boolean;
+  isEditingNote?: boolean;
+}
+
+/**
+ * Base record interface shared across the application
+ */
+export interface TimeRecord extends Omit<PersistedTimeRecord, 'order'>, TimeRecordUiState {
+  children: TimeRecord[];
 }
 
 /**
@@ -24,14 +120,28 @@ export interface TimeRecord {
  */
 export interface IStorageProvider {
   // Individual record operations
-  getRecord(id: string): Promise<TimeRecord | null>;
-  saveRecord(record: TimeRecord): Promise<void>;
+  getRecord(id: string): Promise<PersistedTimeRecord | null>;
+  saveRecord(record: PersistedTimeRecord): Promise<void>;
   deleteRecord(id: string): Promise<void>;
   
-  // Batch operations
-  getAllRecords(): Promise<TimeRecord[]>;
-  getRootRecords(): Promise<TimeRecord[]>;
-  getChildRecords(parentId: string): Promise<TimeRecord[]>;
+  // Batch operations (each batch is written atomically where the backend allows)
+  saveRecords(records: PersistedTimeRecord[]): Promise<void>;
+  deleteRecords(ids: string[]): Promise<void>;
+  getAllRecords(): Promise<PersistedTimeRecord[]>;
+  getRootRecords(): Promise<PersistedTimeRecord[]>;
+  getChildRecords(parentId: string): Promise<PersistedTimeRecord[]>;
+  getDescendantRecords(id: string): Promise<PersistedTimeRecord[]>;  // the whole subtree, without the record itself
+
+  // App data stored next to the records (tags, settings), as JSON strings
+  getValue(key: string): Promise<string | null>;
+  saveValue(key: string, value: string): Promise<void>;
+  getValueKeys(): Promise<string[]>;
+
+  // Archive and trash state of a root record; null clears it.
+  // Only the root is written, its subtree is left as it is.
+  setArchivedAt(id: string, archivedAt: number | null): Promise<void>;
+  setDeletedAt(id: string, deletedAt: number | null): Promise<void>;
+  getDeletedRecords(): Promise<PersistedTimeRecord[]>;  // roots in the trash
   
   // Additional operations
   initialize(): Promise<void>;
@@ -42,19 +152,31 @@ export interface IStorageProvider {
  * Storage service that uses the current storage provider
  */
 export interface IStorageService {
-  // Core operations
+  // Core operations (a record is loaded and saved together with its subtree)
   loadRecord(id: string): Promise<TimeRecord | null>;
   saveRecord(record: TimeRecord): Promise<void>;
   deleteRecord(id: string): Promise<void>;
   
   // Collection operations
-  loadRecords(): Promise<TimeRecord[]>;
-  loadRootRecords(): Promise<TimeRecord[]>;
-  loadChildRecords(parentId: string): Promise<TimeRecord[]>;
+  loadRecords(): Promise<TimeRecord[]>;           // every root with its full tree
+  loadRootRecords(): Promise<TimeRecord[]>;       // root records only, children not loaded
+  loadChildRecords(parentId: string): Promise<TimeRecord[]>; // direct children only
   saveRecords(records: TimeRecord[]): Promise<void>;
+
+  // Archive and trash (root records only; loadRecords and loadRootRecords skip the trash)
+  archiveRecord(id: string, archivedAt: number): Promise<void>;
+  unarchiveRecord(id: string): Promise<void>;
+  trashRecord(id: string, deletedAt: number): Promise<void>;
+  restoreRecord(id: string): Promise<void>;
+  loadTrashedRecords(): Promise<TimeRecord[]>;   // trashed roots with their full trees
+  purgeTrash(deletedBefore: number): Promise<number>; // permanently delete, returns how many roots were removed
+
+  // App data stored next to the records
+  loadValue<T>(key: string, fallback: T): Promise<T>;
+  saveValue<T>(key: string, value: T): Promise<void>;
   
   // Utility operations
-  initialize(): Promise<void>;
+  initialize(setup?: () => Promise<void>): Promise<void>; // reads and writes wait until setup has finished
   clearStorage(): Promise<void>;
   
   // Provider management
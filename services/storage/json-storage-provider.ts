@@ -1,8 +1,13 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { IStorageProvider, TimeRecord } from './interfaces';
+import { IStorageProvider, PersistedTimeRecord } from './interfaces';
+import { collectDescendants } from './record-tree';
+import { deserializeRecord, serializeRecord } from './serialization';
+import { CURRENT_SCHEMA_VERSION, migrateRecords, StoredRecord } from './migrations';
 
 const RECORDS_PREFIX = 'time_record_';
 const RECORDS_INDEX_KEY = 'time_records_index';
+const SCHEMA_VERSION_KEY = 'time_records_schema_version';
+const VALUES_PREFIX = 'app_value_';
 
 /**
  * JSON storage provider that uses AsyncStorage for persistence
@@ -17,22 +22,18 @@ export class JsonStorageProvider implements IStorageProvider {
     if (!indexExists) {
       await AsyncStorage.setItem(RECORDS_INDEX_KEY, JSON.stringify([]));
     }
+    await this.migrateRecords();
   }
   
   /**
    * Get a record by its ID
    */
-  async getRecord(id: string): Promise<TimeRecord | null> {
+  async getRecord(id: string): Promise<PersistedTimeRecord | null> {
     try {
       const recordKey = `${RECORDS_PREFIX}${id}`;
       const jsonValue = await AsyncStorage.getItem(recordKey);
       if (jsonValue) {
-        return JSON.parse(jsonValue, (key, value) => {
-          if (key === 'createdAt') {
-            return new Date(value);
-          }
-          return value;
-        });
+        return deserializeRecord(jsonValue);
       }
       return null;
     } catch (error) {
@@ -44,20 +45,29 @@ export class JsonStorageProvider implements IStorageProvider {
   /**
    * Save a record
    */
-  async saveRecord(record: TimeRecord): Promise<void> {
+  async saveRecord(record: PersistedTimeRecord): Promise<void> {
+    await this.saveRecords([record]);
+  }
+
+  /**
+   * Save several records; the records and the index are written in one multiSet
+   */
+  async saveRecords(records: PersistedTimeRecord[]): Promise<void> {
     try {
-      const recordKey = `${RECORDS_PREFIX}${record.id}`;
-      const jsonValue = JSON.stringify(record, (key, value) => {
-        if (key === 'createdAt') {
-          return new Date(value).toISOString();
-        }
-        return value;
-      });
-      
-      await AsyncStorage.setItem(recordKey, jsonValue);
-      await this.updateRecordIndex(record.id);
+      const recordIds = await this.getRecordIds();
+      const knownIds = new Set(recordIds);
+      const newIds = [...new Set(records.map(record => record.id))].filter(id => !knownIds.has(id));
+
+      const pairs: [string, string][] = records.map(record => [
+        `${RECORDS_PREFIX}${record.id}`,
+        serializeRecord(record)
+      ]);
+      if (newIds.length > 0) {
+        pairs.push([RECORDS_INDEX_KEY, JSON.stringify([...recordIds, ...newIds])]);
+      }
+      await AsyncStorage.multiSet(pairs);
     } catch (error) {
-      console.error('Error saving record:', error);
+      console.error('Error saving records:', error);
     }
   }
 
@@ -65,35 +75,36 @@ export class JsonStorageProvider implements IStorageProvider {
    * Delete a record by ID
    */
   async deleteRecord(id: string): Promise<void> {
+    await this.deleteRecords([id]);
+  }
+
+  /**
+   * Delete several records.
+   * The index is updated first, so an interrupted delete leaves at most
+   * unreferenced keys behind, never an index entry without a record.
+   */
+  async deleteRecords(ids: string[]): Promise<void> {
     try {
-      const recordKey = `${RECORDS_PREFIX}${id}`;
-      await AsyncStorage.removeItem(recordKey);
-      
-      // Update the index to remove this ID
+      const removedIds = new Set(ids);
       const recordIds = await this.getRecordIds();
-      const updatedIds = recordIds.filter(recordId => recordId !== id);
+      const updatedIds = recordIds.filter(recordId => !removedIds.has(recordId));
       await AsyncStorage.setItem(RECORDS_INDEX_KEY, JSON.stringify(updatedIds));
+      await AsyncStorage.multiRemove(ids.map(id => `${RECORDS_PREFIX}${id}`));
     } catch (error) {
-      console.error(`Error deleting record ${id}:`, error);
+      console.error(`Error deleting records ${ids.join(', ')}:`, error);
     }
   }
 
   /**
-   * Get all records
+   * Get all records, read in one multiGet
    */
-  async getAllRecords(): Promise<TimeRecord[]> {
+  async getAllRecords(): Promise<PersistedTimeRecord[]> {
     try {
       const recordIds = await this.getRecordIds();
-      const records: TimeRecord[] = [];
-      
-      for (const id of recordIds) {
-        const record = await this.getRecord(id);
-        if (record) {
-          records.push(record);
-        }
-      }
-      
-      return records;
+      const pairs = await AsyncStorage.multiGet(recordIds.map(id => `${RECORDS_PREFIX}${id}`));
+      return pairs
+        .filter((pair): pair is [string, string] => pair[1] !== null)
+        .map(([, jsonValue]) => deserializeRecord(jsonValue));
     } catch (error) {
       console.error('Error loading all records:', error);
       return [];
@@ -103,7 +114,7 @@ export class JsonStorageProvider implements IStorageProvider {
   /**
    * Get root records (records with no parent)
    */
-  async getRootRecords(): Promise<TimeRecord[]> {
+  async getRootRecords(): Promise<PersistedTimeRecord[]> {
     try {
       const allRecords = await this.getAllRecords();
       return allRecords.filter(record => record.parentId === null);
@@ -116,7 +127,7 @@ export class JsonStorageProvider implements IStorageProvider {
   /**
    * Get child records for a given parent ID
    */
-  async getChildRecords(parentId: string): Promise<TimeRecord[]> {
+  async getChildRecords(parentId: string): Promise<PersistedTimeRecord[]> {
     try {
       const allRecords = await this.getAllRecords();
       return allRecords.filter(record => record.parentId === parentId);
@@ -126,6 +137,77 @@ export class JsonStorageProvider implements IStorageProvider {
     }
   }
 
+  /**
+   * Get every record below a given record.
+   * AsyncStorage has no parent index, so all records are read once and walked in memory.
+   */
+  async getDescendantRecords(id: string): Promise<PersistedTimeRecord[]> {
+    try {
+      return collectDescendants(await this.getAllRecords(), id);
+    } catch (error) {
+      console.error(`Error loading descendants of ${id}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Get a stored app value
+   */
+  async getValue(key: string): Promise<string | null> {
+    try {
+      return await AsyncStorage.getItem(`${VALUES_PREFIX}${key}`);
+    } catch (error) {
+      console.error(`Error loading value ${key}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Save an app value
+   */
+  async saveValue(key: string, value: string): Promise<void> {
+    try {
+      await AsyncStorage.setItem(`${VALUES_PREFIX}${key}`, value);
+    } catch (error) {
+      console.error(`Error saving value ${key}:`, error);
+    }
+  }
+
+  /**
+   * Get the keys of every stored app value
+   */
+  async getValueKeys(): Promise<string[]> {
+    try {
+      const keys = await AsyncStorage.getAllKeys();
+      return keys.filter(key => key.startsWith(VALUES_PREFIX)).map(key => key.slice(VALUES_PREFIX.length));
+    } catch (error) {
+      console.error('Error loading value keys:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Set or clear the time a record was archived
+   */
+  async setArchivedAt(id: string, archivedAt: number | null): Promise<void> {
+    await this.updateRecord(id, { archivedAt: archivedAt ?? undefined });
+  }
+
+  /**
+   * Set or clear the time a record was moved to the trash
+   */
+  async setDeletedAt(id: string, deletedAt: number | null): Promise<void> {
+    await this.updateRecord(id, { deletedAt: deletedAt ?? undefined });
+  }
+
+  /**
+   * Get root records in the trash
+   */
+  async getDeletedRecords(): Promise<PersistedTimeRecord[]> {
+    const rootRecords = await this.getRootRecords();
+    return rootRecords.filter(record => record.deletedAt !== undefined);
+  }
+
   /**
    * Clear all data
    */
@@ -147,6 +229,44 @@ export class JsonStorageProvider implements IStorageProvider {
     }
   }
 
+  /**
+   * Upgrade every stored record to the current schema version
+   */
+  private async migrateRecords(): Promise<void> {
+    const storedVersion = await AsyncStorage.getItem(SCHEMA_VERSION_KEY);
+    const fromVersion = storedVersion ? parseInt(storedVersion, 10) : 0;
+    if (fromVersion >= CURRENT_SCHEMA_VERSION) {
+      return;
+    }
+
+    const recordIds = await this.getRecordIds();
+    const storedRecords: StoredRecord[] = [];
+    for (const id of recordIds) {
+      const jsonValue = await AsyncStorage.getItem(`${RECORDS_PREFIX}${id}`);
+      if (jsonValue) {
+        storedRecords.push(JSON.parse(jsonValue));
+      }
+    }
+
+    // A migration may split records, so the index is rebuilt from the result
+    const migrated = migrateRecords(storedRecords, fromVersion);
+    await AsyncStorage.multiSet([
+      ...migrated.map((record): [string, string] => [`${RECORDS_PREFIX}${record.id}`, JSON.stringify(record)]),
+      [RECORDS_INDEX_KEY, JSON.stringify(migrated.map(record => record.id))],
+      [SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION)],
+    ]);
+  }
+
+  /**
+   * Rewrite one stored record with some fields changed; missing records are skipped
+   */
+  private async updateRecord(id: string, changes: Partial<PersistedTimeRecord>): Promise<void> {
+    const record = await this.getRecord(id);
+    if (record) {
+      await this.saveRecords([{ ...record, ...changes }]);
+    }
+  }
+
   /**
    * Get all record IDs from the index
    */
@@ -159,19 +279,4 @@ export class JsonStorageProvider implements IStorageProvider {
       return [];
     }
   }
-
-  /**
-   * Update the record index to include an ID if it's not already there
-   */
-  private async updateRecordIndex(id: string): Promise<void> {
-    try {
-      const recordIds = await this.getRecordIds();
-      if (!recordIds.includes(id)) {
-        recordIds.push(id);
-        await AsyncStorage.setItem(RECORDS_INDEX_KEY, JSON.stringify(recordIds));
-      }
-    } catch (error) {
-      console.error('Error updating record index:', error);
-    }
-  }
 } 
\ No newline at end of file
@@ -0,0 +1,120 @@
+/**
+ * Schema version of the records written by this build.
+ * Records stored before versioning existed are treated as version 0.
+ */
+export const CURRENT_SCHEMA_VERSION = 5;
+
+/**
+ * A record as parsed from storage, before it is known to match the current schema
+ */
+export type StoredRecord = Record<string, unknown>;
+
+/**
+ * A single upgrade step from `version - 1` to `version`.
+ * A step may split one stored record into several.
+ * Steps must be idempotent: an interrupted upgrade is simply run again.
+ */
+export interface SchemaMigration {
+  version: number;
+  description: string;
+  migrate(record: StoredRecord): StoredRecord | StoredRecord[];
+}
+
+const UI_ONLY_FIELDS = ['isEditing', 'isEditingNote', 'isCollapsed'];
+
+// Label and color the ☕ button used for breaks before they were flagged
+const LEGACY_BREAK_LABEL = 'Break';
+const LEGACY_BREAK_COLOR = '#FFB6C1';
+
+/**
+ * Apply a migration step to a record and all of its nested children
+ */
+const mapTree = (record: StoredRecord, update: (record: StoredRecord) => StoredRecord): StoredRecord => {
+  const updated = update(record);
+  return {
+    ...updated,
+    children: Array.isArray(updated.children)
+      ? updated.children.map((child: StoredRecord) => mapTree(child, update))
+      : []
+  };
+};
+
+/**
+ * Split a nested record into one record per node, keeping sibling order
+ */
+const flattenTree = (record: StoredRecord, order: number): StoredRecord[] => {
+  const { children, ...node } = record;
+  const nested: StoredRecord[] = Array.isArray(children) ? children : [];
+  return [
+    { ...node, order },
+    ...nested.flatMap((child, index) => flattenTree({ ...child, parentId: record.id }, index))
+  ];
+};
+
+/**
+ * Ordered list of schema migrations, applied by every storage provider on initialize
+ */
+export const migrations: SchemaMigration[] = [
+  {
+    version: 1,
+    description: 'Add baseTime to records saved before it existed',
+    migrate: record => mapTree(record, item => ({
+      ...item,
+      time: typeof item.time === 'number' ? item.time : 0,
+      baseTime: typeof item.baseTime === 'number' ? item.baseTime : (item.time || 0)
+    }))
+  },
+  {
+    version: 2,
+    description: 'Backfill the interval log from the accumulated baseTime',
+    migrate: record => mapTree(record, item => {
+      if (Array.isArray(item.intervals)) {
+        return item;
+      }
+      // Only the total is known, so the interval is flagged instead of passed off as a session
+      const start = new Date(item.createdAt as string).getTime();
+      const baseTime = typeof item.baseTime === 'number' ? item.baseTime : 0;
+      return {
+        ...item,
+        intervals: baseTime > 0 ? [{ start, end: start + baseTime * 1000, synthetic: true }] : []
+      };
+    })
+  },
+  {
+    version: 3,
+    description: 'Drop UI-only state that older builds persisted',
+    migrate: record => mapTree(record, item => {
+      const persisted = { ...item };
+      UI_ONLY_FIELDS.forEach(field => delete persisted[field]);
+      return persisted;
+    })
+  },
+  {
+    version: 4,
+    description: 'Store nested children as records of their own',
+    migrate: record => flattenTree(record, typeof record.order === 'number' ? record.order : 0)
+  },
+  {
+    version: 5,
+    description: 'Flag break records explicitly',
+    migrate: record => ({
+      ...record,
+      isBreak: typeof record.isBreak === 'boolean'
+        ? record.isBreak
+        : record.label === LEGACY_BREAK_LABEL && record.avatarColor === LEGACY_BREAK_COLOR
+    })
+  },
+];
+
+/**
+ * Upgrade stored records from `fromVersion` to the current schema version
+ */
+export function migrateRecords(records: StoredRecord[], fromVersion: number): StoredRecord[] {
+  return migrations
+    .filter(migration => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version)
+    .reduce<StoredRecord[]>(
+      (current, migration) => current.flatMap<StoredRecord>(record => migration.migrate(record)),
+      records
+    );
+}
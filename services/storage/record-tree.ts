@@ -0,0 +1,106 @@
+import { PersistedTimeRecord, TimeRecord } from './interfaces';
+
+/**
+ * Strip children and transient UI state so only the persisted shape is written
+ * @param record - the in-memory record
+ * @param order - position of the record among its siblings
+ */
+export function toPersistedRecord(record: TimeRecord, order: number): PersistedTimeRecord {
+  return {
+    id: record.id,
+    time: record.time,
+    isRunning: record.isRunning,
+    label: record.label,
+    parentId: record.parentId,
+    order,
+    avatarColor: record.avatarColor,
+    createdAt: record.createdAt,
+    note: record.note,
+    isBreak: record.isBreak,
+    tagIds: record.tagIds,
+    history: record.history,
+    pomodoro: record.pomodoro,
+    estimate: record.estimate,
+    policy: record.policy,
+    archivedAt: record.archivedAt,
+    deletedAt: record.deletedAt,
+    scheduledAt: record.scheduledAt,
+    startTime: record.startTime,
+    baseTime: record.baseTime,
+    intervals: record.intervals,
+  };
+}
+
+/**
+ * Turn a stored record into an in-memory record without children
+ */
+export function toTimeRecord(record: PersistedTimeRecord): TimeRecord {
+  const { order, ...fields } = record;
+  return { ...fields, children: [] };
+}
+
+/**
+ * Flatten a record tree into one stored record per node
+ * @param record - top of the tree
+ * @param order - position of the top record among its siblings
+ */
+export function flattenRecordTree(record: TimeRecord, order: number = 0): PersistedTimeRecord[] {
+  return [
+    toPersistedRecord(record, order),
+    ...record.children.flatMap((child, index) =>
+      flattenRecordTree({ ...child, parentId: record.id }, index)
+    )
+  ];
+}
+
+/**
+ * Collect the stored records below a record in one pass over the given records
+ * @param records - every stored record
+ * @param id - top of the subtree, which is not included
+ */
+export function collectDescendants(records: PersistedTimeRecord[], id: string): PersistedTimeRecord[] {
+  const childrenByParent = new Map<string, PersistedTimeRecord[]>();
+  for (const record of records) {
+    if (record.parentId) {
+      childrenByParent.set(record.parentId, [...(childrenByParent.get(record.parentId) ?? []), record]);
+    }
+  }
+
+  const descendants: PersistedTimeRecord[] = [];
+  const visited = new Set([id]);
+  const pending = [id];
+  while (pending.length > 0) {
+    for (const child of childrenByParent.get(pending.pop()!) ?? []) {
+      if (!visited.has(child.id)) {
+        visited.add(child.id);
+        descendants.push(child);
+        pending.push(child.id);
+      }
+    }
+  }
+  return descendants;
+}
+
+/**
+ * Rebuild record trees from stored records.
+ * Records whose parent is not in the list become the tops of the returned trees.
+ */
+export function buildRecordTrees(records: PersistedTimeRecord[]): TimeRecord[] {
+  const sorted = [...records].sort((a, b) =>
+    (a.order ?? 0) - (b.order ?? 0) ||
+    new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+  const nodes = new Map(sorted.map(record => [record.id, toTimeRecord(record)]));
+  const trees: TimeRecord[] = [];
+
+  for (const record of sorted) {
+    const node = nodes.get(record.id)!;
+    const parent = record.parentId ? nodes.get(record.parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      trees.push(node);
+    }
+  }
+  return trees;
+}
@@ -0,0 +1,25 @@
+import { PersistedTimeRecord } from './interfaces';
+
+/**
+ * Convert a record to its stored JSON form
+ */
+export function serializeRecord(record: PersistedTimeRecord): string {
+  return JSON.stringify(record, (key, value) => {
+    if (key === 'createdAt') {
+      return new Date(value).toISOString();
+    }
+    return value;
+  });
+}
+
+/**
+ * Parse a stored JSON record, restoring dates
+ */
+export function deserializeRecord(jsonValue: string): PersistedTimeRecord {
+  return JSON.parse(jsonValue, (key, value) => {
+    if (key === 'createdAt') {
+      return new Date(value);
+    }
+    return value;
+  });
+}
@@ -0,0 +1,46 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { IStorageProvider } from './interfaces';
+
+const SQLITE_MIGRATION_KEY = 'sqlite_migration_completed_at';
+
+/**
+ * Copy every record and app value (settings, tags, templates, …) from the
+ * AsyncStorage provider into SQLite.
+ * Runs once per install; the AsyncStorage copy is left untouched so a
+ * failed migration can simply be retried on the next start.
+ */
+export async function migrateToSqlite(
+  source: IStorageProvider,
+  target: IStorageProvider
+): Promise<void> {
+  const completedAt = await AsyncStorage.getItem(SQLITE_MIGRATION_KEY);
+  if (completedAt) {
+    return;
+  }
+
+  const records = await source.getAllRecords();
+  await target.saveRecords(records);
+  const keys = await source.getValueKeys();
+  for (const key of keys) {
+    const value = await source.getValue(key);
+    if (value !== null) {
+      await target.saveValue(key, value);
+    }
+  }
+
+  // Providers log write errors instead of throwing, so check the copy before marking it done
+  const copied = await target.getAllRecords();
+  if (copied.length < records.length) {
+    throw new Error(`SQLite migration copied ${copied.length} of ${records.length} records`);
+  }
+  const missing = [];
+  for (const key of keys) {
+    if (await target.getValue(key) === null) {
+      missing.push(key);
+    }
+  }
+  if (missing.length > 0) {
+    throw new Error(`SQLite migration did not copy the values ${missing.join(', ')}`);
+  }
+  await AsyncStorage.setItem(SQLITE_MIGRATION_KEY, new Date().toISOString());
+}
@@ -0,0 +1,333 @@
+import * as SQLite from 'expo-sqlite';
+import { IStorageProvider, PersistedTimeRecord } from './interfaces';
+import { deserializeRecord, serializeRecord } from './serialization';
+import { CURRENT_SCHEMA_VERSION, migrateRecords } from './migrations';
+
+const DATABASE_NAME = 'time_records.db';
+const RECORDS_TABLE = 'time_records';
+const VALUES_TABLE = 'app_values';
+
+interface RecordRow {
+  data: string;
+}
+
+/**
+ * SQLite storage provider.
+ * Each record is a row keyed by ID; parent_id and created_at are real
+ * columns so root and child lookups use an index instead of a full scan.
+ */
+export class SqliteStorageProvider implements IStorageProvider {
+  private database: Promise<SQLite.SQLiteDatabase> | null = null;
+
+  constructor(private readonly databaseName: string = DATABASE_NAME) {}
+
+  /**
+   * Initialize the storage provider
+   */
+  async initialize(): Promise<void> {
+    const db = await this.getDatabase();
+    await db.execAsync(`
+      PRAGMA journal_mode = WAL;
+      CREATE TABLE IF NOT EXISTS ${RECORDS_TABLE} (
+        id TEXT PRIMARY KEY NOT NULL,
+        parent_id TEXT,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_${RECORDS_TABLE}_parent_id ON ${RECORDS_TABLE} (parent_id);
+      CREATE TABLE IF NOT EXISTS ${VALUES_TABLE} (
+        key TEXT PRIMARY KEY NOT NULL,
+        value TEXT NOT NULL
+      );
+    `);
+    await this.migrateRecords(db);
+  }
+
+  /**
+   * Get a record by its ID
+   */
+  async getRecord(id: string): Promise<PersistedTimeRecord | null> {
+    try {
+      const db = await this.getDatabase();
+      const row = await db.getFirstAsync<RecordRow>(
+        `SELECT data FROM ${RECORDS_TABLE} WHERE id = ?`,
+        id
+      );
+      return row ? deserializeRecord(row.data) : null;
+    } catch (error) {
+      console.error(`Error loading record ${id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Save a record
+   */
+  async saveRecord(record: PersistedTimeRecord): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      await this.writeRecord(db, record);
+    } catch (error) {
+      console.error('Error saving record:', error);
+    }
+  }
+
+  /**
+   * Save several records in a single transaction
+   */
+  async saveRecords(records: PersistedTimeRecord[]): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      await db.withTransactionAsync(async () => {
+        for (const record of records) {
+          await this.writeRecord(db, record);
+        }
+      });
+    } catch (error) {
+      console.error('Error saving records:', error);
+    }
+  }
+
+  /**
+   * Delete a record by ID
+   */
+  async deleteRecord(id: string): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      await db.runAsync(`DELETE FROM ${RECORDS_TABLE} WHERE id = ?`, id);
+    } catch (error) {
+      console.error(`Error deleting record ${id}:`, error);
+    }
+  }
+
+  /**
+   * Delete several records in a single transaction
+   */
+  async deleteRecords(ids: string[]): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      await db.withTransactionAsync(async () => {
+        for (const id of ids) {
+          await db.runAsync(`DELETE FROM ${RECORDS_TABLE} WHERE id = ?`, id);
+        }
+      });
+    } catch (error) {
+      console.error(`Error deleting records ${ids.join(', ')}:`, error);
+    }
+  }
+
+  /**
+   * Get all records
+   */
+  async getAllRecords(): Promise<PersistedTimeRecord[]> {
+    try {
+      return await this.queryRecords(`SELECT data FROM ${RECORDS_TABLE} ORDER BY created_at`);
+    } catch (error) {
+      console.error('Error loading all records:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get root records (records with no parent)
+   */
+  async getRootRecords(): Promise<PersistedTimeRecord[]> {
+    try {
+      return await this.queryRecords(
+        `SELECT data FROM ${RECORDS_TABLE} WHERE parent_id IS NULL ORDER BY created_at`
+      );
+    } catch (error) {
+      console.error('Error loading root records:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get child records for a given parent ID
+   */
+  async getChildRecords(parentId: string): Promise<PersistedTimeRecord[]> {
+    try {
+      return await this.queryRecords(
+        `SELECT data FROM ${RECORDS_TABLE} WHERE parent_id = ? ORDER BY created_at`,
+        parentId
+      );
+    } catch (error) {
+      console.error(`Error loading children for ${parentId}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Get every record below a given record in one recursive query over the parent index
+   */
+  async getDescendantRecords(id: string): Promise<PersistedTimeRecord[]> {
+    try {
+      // UNION rather than UNION ALL, so a parent cycle in corrupted data cannot loop forever
+      return await this.queryRecords(
+        `WITH RECURSIVE subtree(id) AS (
+          SELECT id FROM ${RECORDS_TABLE} WHERE parent_id = ?
+          UNION
+          SELECT r.id FROM ${RECORDS_TABLE} r JOIN subtree s ON r.parent_id = s.id
+        )
+        SELECT data FROM ${RECORDS_TABLE} WHERE id IN (SELECT id FROM subtree) AND id != ?`,
+        id,
+        id
+      );
+    } catch (error) {
+      console.error(`Error loading descendants of ${id}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Get a stored app value
+   */
+  async getValue(key: string): Promise<string | null> {
+    try {
+      const db = await this.getDatabase();
+      const row = await db.getFirstAsync<{ value: string }>(
+        `SELECT value FROM ${VALUES_TABLE} WHERE key = ?`,
+        key
+      );
+      return row ? row.value : null;
+    } catch (error) {
+      console.error(`Error loading value ${key}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Save an app value
+   */
+  async saveValue(key: string, value: string): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      await db.runAsync(
+        `INSERT OR REPLACE INTO ${VALUES_TABLE} (key, value) VALUES (?, ?)`,
+        key,
+        value
+      );
+    } catch (error) {
+      console.error(`Error saving value ${key}:`, error);
+    }
+  }
+
+  /**
+   * Get the keys of every stored app value
+   */
+  async getValueKeys(): Promise<string[]> {
+    try {
+      const db = await this.getDatabase();
+      const rows = await db.getAllAsync<{ key: string }>(`SELECT key FROM ${VALUES_TABLE}`);
+      return rows.map(row => row.key);
+    } catch (error) {
+      console.error('Error loading value keys:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Set or clear the time a record was archived
+   */
+  async setArchivedAt(id: string, archivedAt: number | null): Promise<void> {
+    await this.setDataField(id, 'archivedAt', archivedAt);
+  }
+
+  /**
+   * Set or clear the time a record was moved to the trash
+   */
+  async setDeletedAt(id: string, deletedAt: number | null): Promise<void> {
+    await this.setDataField(id, 'deletedAt', deletedAt);
+  }
+
+  /**
+   * Get root records in the trash
+   */
+  async getDeletedRecords(): Promise<PersistedTimeRecord[]> {
+    try {
+      return await this.queryRecords(
+        `SELECT data FROM ${RECORDS_TABLE} WHERE parent_id IS NULL AND json_extract(data, '$.deletedAt') IS NOT NULL ORDER BY created_at`
+      );
+    } catch (error) {
+      console.error('Error loading deleted records:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Clear all data
+   */
+  async clearAllData(): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      await db.runAsync(`DELETE FROM ${RECORDS_TABLE}`);
+    } catch (error) {
+      console.error('Error clearing storage:', error);
+    }
+  }
+
+  /**
+   * Upgrade every stored record to the current schema version,
+   * tracked in SQLite's user_version pragma
+   */
+  private async migrateRecords(db: SQLite.SQLiteDatabase): Promise<void> {
+    const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+    const fromVersion = row?.user_version ?? 0;
+    if (fromVersion >= CURRENT_SCHEMA_VERSION) {
+      return;
+    }
+
+    const rows = await db.getAllAsync<RecordRow>(`SELECT data FROM ${RECORDS_TABLE}`);
+    const migrated = migrateRecords(rows.map(row => JSON.parse(row.data)), fromVersion);
+    // A migration may split records, so the rows are rewritten from the result
+    await db.withTransactionAsync(async () => {
+      await db.runAsync(`DELETE FROM ${RECORDS_TABLE}`);
+      for (const record of migrated) {
+        await this.writeRecord(db, record as unknown as PersistedTimeRecord);
+      }
+    });
+    await db.execAsync(`PRAGMA user_version = ${CURRENT_SCHEMA_VERSION}`);
+  }
+
+  /**
+   * Open the database once and reuse the connection
+   */
+  private getDatabase(): Promise<SQLite.SQLiteDatabase> {
+    if (!this.database) {
+      this.database = SQLite.openDatabaseAsync(this.databaseName);
+    }
+    return this.database;
+  }
+
+  private async writeRecord(db: SQLite.SQLiteDatabase, record: PersistedTimeRecord): Promise<void> {
+    await db.runAsync(
+      `INSERT OR REPLACE INTO ${RECORDS_TABLE} (id, parent_id, created_at, data) VALUES (?, ?, ?, ?)`,
+      record.id,
+      record.parentId,
+      new Date(record.createdAt).toISOString(),
+      serializeRecord(record)
+    );
+  }
+
+  /**
+   * Change one field inside the stored JSON of a record without reading it back
+   */
+  private async setDataField(id: string, field: 'archivedAt' | 'deletedAt', value: number | null): Promise<void> {
+    try {
+      const db = await this.getDatabase();
+      if (value === null) {
+        await db.runAsync(`UPDATE ${RECORDS_TABLE} SET data = json_remove(data, '$.${field}') WHERE id = ?`, id);
+      } else {
+        await db.runAsync(`UPDATE ${RECORDS_TABLE} SET data = json_set(data, '$.${field}', ?) WHERE id = ?`, value, id);
+      }
+    } catch (error) {
+      console.error(`Error updating ${field} of record ${id}:`, error);
+    }
+  }
+
+  private async queryRecords(source: string, ...params: string[]): Promise<PersistedTimeRecord[]> {
+    const db = await this.getDatabase();
+    const rows = await db.getAllAsync<RecordRow>(source, ...params);
+    return rows.map(row => deserializeRecord(row.data));
+  }
+}
@@ -1,12 +1,19 @@
-import { IStorageProvider, IStorageService, TimeRecord } from './interfaces';
+import { IStorageProvider, IStorageService, PersistedTimeRecord, TimeRecord } from './interfaces';
 import { JsonStorageProvider } from './json-storage-provider';
+import { buildRecordTrees, flattenRecordTree, toTimeRecord } from './record-tree';
+import { WriteQueue } from './write-queue';
 
 /**
  * Storage service implementation that manages the interaction
- * with the current storage provider
+ * with the current storage provider.
+ * All writes go through a queue so they never interleave, and reads
+ * wait for the writes queued before them. Nothing reaches the provider
+ * before initialization, including a provider switch, has finished.
  */
 export class StorageService implements IStorageService {
   private storageProvider: IStorageProvider;
+  private writeQueue = new WriteQueue();
+  private ready: Promise<void> = Promise.resolve();
 
   constructor(provider?: IStorageProvider) {
     // Default to JSON storage if no provider is specified
@@ -14,68 +21,171 @@ export class StorageService implements IStorageService {
   }
 
   /**
-   * Initialize the storage service
+   * Initialize the provider, then run `setup`, e.g. a migration to another provider.
+   * Reads and writes made in the meantime wait and go to the provider in use afterwards;
+   * if initialization fails they still go through, to the provider that is set.
    */
-  async initialize(): Promise<void> {
-    await this.storageProvider.initialize();
+  initialize(setup?: () => Promise<void>): Promise<void> {
+    const initialization = this.storageProvider.initialize().then(() => setup?.());
+    this.ready = initialization.catch(() => undefined);
+    return initialization;
   }
 
   /**
-   * Load a record by ID
+   * Load a record by ID, with its subtree rebuilt from the stored children
    */
   async loadRecord(id: string): Promise<TimeRecord | null> {
-    return this.storageProvider.getRecord(id);
+    await this.settled();
+    const record = await this.storageProvider.getRecord(id);
+    if (!record) {
+      return null;
+    }
+    const descendants = await this.loadDescendants(id);
+    return buildRecordTrees([record, ...descendants])[0];
   }
 
   /**
-   * Save a record
+   * Save a record and its subtree, one stored record per node.
+   * Saves of the same record that are still waiting in the queue are
+   * coalesced into the latest one.
    */
   async saveRecord(record: TimeRecord): Promise<void> {
-    await this.storageProvider.saveRecord(record);
+    await this.enqueueLatest(record.id, () => this.writeTrees([record]));
   }
 
   /**
-   * Delete a record
+   * Delete a record together with all of its descendants
    */
   async deleteRecord(id: string): Promise<void> {
-    await this.storageProvider.deleteRecord(id);
+    await this.enqueue(async () => {
+      const descendants = await this.loadDescendants(id);
+      await this.storageProvider.deleteRecords([id, ...descendants.map(node => node.id)]);
+    });
   }
 
   /**
-   * Load all records
+   * Load every root record with its full tree, leaving out the trash
    */
   async loadRecords(): Promise<TimeRecord[]> {
-    return this.storageProvider.getAllRecords();
+    await this.settled();
+    const records = await this.storageProvider.getAllRecords();
+    return buildRecordTrees(records).filter(record => record.parentId === null && record.deletedAt === undefined);
   }
 
   /**
-   * Load root records (records with no parent)
+   * Load root records (records with no parent) outside the trash, without their children
    */
   async loadRootRecords(): Promise<TimeRecord[]> {
-    return this.storageProvider.getRootRecords();
+    await this.settled();
+    const records = await this.storageProvider.getRootRecords();
+    return records.filter(record => record.deletedAt === undefined).map(record => toTimeRecord(record));
   }
 
   /**
-   * Load child records for a given parent
+   * Load the direct children of a given parent, without their own children
    */
   async loadChildRecords(parentId: string): Promise<TimeRecord[]> {
-    return this.storageProvider.getChildRecords(parentId);
+    await this.settled();
+    const records = await this.storageProvider.getChildRecords(parentId);
+    return buildRecordTrees(records);
   }
 
   /**
-   * Save multiple records
+   * Save multiple records and their subtrees in one provider batch, so a
+   * record moved from one tree to another is never stored in neither
    */
   async saveRecords(records: TimeRecord[]): Promise<void> {
-    for (const record of records) {
-      await this.saveRecord(record);
+    await this.enqueue(() => this.writeTrees(records));
+  }
+
+  /**
+   * Hide a root record from the home list; it still counts in reports
+   */
+  async archiveRecord(id: string, archivedAt: number): Promise<void> {
+    await this.enqueue(() => this.storageProvider.setArchivedAt(id, archivedAt));
+  }
+
+  /**
+   * Show an archived root record on the home list again
+   */
+  async unarchiveRecord(id: string): Promise<void> {
+    await this.enqueue(() => this.storageProvider.setArchivedAt(id, null));
+  }
+
+  /**
+   * Move a root record and its subtree to the trash
+   */
+  async trashRecord(id: string, deletedAt: number): Promise<void> {
+    await this.enqueue(() => this.storageProvider.setDeletedAt(id, deletedAt));
+  }
+
+  /**
+   * Take a root record out of the trash
+   */
+  async restoreRecord(id: string): Promise<void> {
+    await this.enqueue(() => this.storageProvider.setDeletedAt(id, null));
+  }
+
+  /**
+   * Load the root records in the trash with their full trees, most recently deleted first
+   */
+  async loadTrashedRecords(): Promise<TimeRecord[]> {
+    await this.settled();
+    const roots = await this.storageProvider.getDeletedRecords();
+    const trees = await Promise.all(roots.map(async root =>
+      buildRecordTrees([root, ...await this.loadDescendants(root.id)])[0]
+    ));
+    return trees.sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0));
+  }
+
+  /**
+   * Permanently delete the records that went into the trash before the given time
+   * @returns the number of root records removed
+   */
+  async purgeTrash(deletedBefore: number): Promise<number> {
+    let removed = 0;
+    await this.enqueue(async () => {
+      const expired = (await this.storageProvider.getDeletedRecords())
+        .filter(record => record.deletedAt! < deletedBefore);
+      for (const root of expired) {
+        const descendants = await this.loadDescendants(root.id);
+        await this.storageProvider.deleteRecords([root.id, ...descendants.map(node => node.id)]);
+      }
+      removed = expired.length;
+    });
+    return removed;
+  }
+
+  /**
+   * Load an app value, falling back when it was never saved or cannot be read
+   */
+  async loadValue<T>(key: string, fallback: T): Promise<T> {
+    await this.settled();
+    const json = await this.storageProvider.getValue(key);
+    if (json === null) {
+      return fallback;
     }
+    try {
+      return JSON.parse(json) as T;
+    } catch (error) {
+      console.error(`Error parsing value ${key}:`, error);
+      return fallback;
+    }
+  }
+
+  /**
+   * Save an app value; pending saves of the same key are coalesced
+   */
+  async saveValue<T>(key: string, value: T): Promise<void> {
+    const json = JSON.stringify(value);
+    await this.enqueueLatest(`value:${key}`, () => this.storageProvider.saveValue(key, json));
   }
 
   /**
    * Clear all storage
    */
   async clearStorage(): Promise<void> {
-    await this.storageProvider.clearAllData();
+    await this.enqueue(() => this.storageProvider.clearAllData());
   }
 
   /**
@@ -91,4 +201,59 @@ export class StorageService implements IStorageService {
   getProvider(): IStorageProvider {
     return this.storageProvider;
   }
+
+  /**
+   * Wait until initialization and every write queued so far have finished
+   */
+  private async settled(): Promise<void> {
+    await this.ready;
+    await this.writeQueue.idle();
+  }
+
+  /**
+   * Queue a write that runs once initialization has finished
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    return this.writeQueue.enqueue(async () => {
+      await this.ready;
+      await task();
+    });
+  }
+
+  /**
+   * Queue a coalesced write that runs once initialization has finished
+   */
+  private enqueueLatest(key: string, task: () => Promise<void>): Promise<void> {
+    return this.writeQueue.enqueueLatest(key, async () => {
+      await this.ready;
+      await task();
+    });
+  }
+
+  /**
+   * Write trees in one batch and remove stored descendants that are no longer in any of them
+   */
+  private async writeTrees(records: TimeRecord[]): Promise<void> {
+    const nodes: PersistedTimeRecord[] = [];
+    const previous: PersistedTimeRecord[] = [];
+    for (const record of records) {
+      const stored = await this.storageProvider.getRecord(record.id);
+      nodes.push(...flattenRecordTree(record, stored?.order ?? 0));
+      previous.push(...await this.loadDescendants(record.id));
+    }
+    const keptIds = new Set(nodes.map(node => node.id));
+
+    await this.storageProvider.saveRecords(nodes);
+    const removedIds = [...new Set(previous.map(node => node.id))].filter(id => !keptIds.has(id));
+    if (removedIds.length > 0) {
+      await this.storageProvider.deleteRecords(removedIds);
+    }
+  }
+
+  /**
+   * Collect the stored records below a record in one provider call
+   */
+  private async loadDescendants(id: string): Promise<PersistedTimeRecord[]> {
+    return this.storageProvider.getDescendantRecords(id);
+  }
 } 
\ No newline at end of file
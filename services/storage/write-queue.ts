@@ -0,0 +1,53 @@
+interface PendingWrite {
+  task: () => Promise<void>;
+  promise: Promise<void>;
+}
+
+/**
+ * Runs storage writes one at a time, in the order they were queued.
+ * Writes queued under the same key while still waiting are coalesced,
+ * so only the latest one is executed.
+ */
+export class WriteQueue {
+  private tail: Promise<void> = Promise.resolve();
+  private pending = new Map<string, PendingWrite>();
+
+  /**
+   * Run a write after every previously queued write has finished
+   */
+  enqueue(task: () => Promise<void>): Promise<void> {
+    const result = this.tail.then(task);
+    // A failed write must not block the ones queued after it
+    this.tail = result.catch(error => {
+      console.error('Queued storage write failed:', error);
+    });
+    return result;
+  }
+
+  /**
+   * Queue a write for a key; a later write for the same key replaces it
+   * as long as it has not started yet
+   */
+  enqueueLatest(key: string, task: () => Promise<void>): Promise<void> {
+    const existing = this.pending.get(key);
+    if (existing) {
+      existing.task = task;
+      return existing.promise;
+    }
+
+    const entry: PendingWrite = { task, promise: Promise.resolve() };
+    entry.promise = this.enqueue(() => {
+      this.pending.delete(key);
+      return entry.task();
+    });
+    this.pending.set(key, entry);
+    return entry.promise;
+  }
+
+  /**
+   * Resolve once every write queued so far has finished
+   */
+  idle(): Promise<void> {
+    return this.tail;
+  }
+}
@@ -0,0 +1,19 @@
+import { IStorageService } from '../storage/interfaces';
+import { Tag } from './tags';
+
+const TAGS_KEY = 'tags';
+
+/**
+ * Load every tag definition
+ */
+export async function loadTags(storage: IStorageService): Promise<Tag[]> {
+  return storage.loadValue<Tag[]>(TAGS_KEY, []);
+}
+
+/**
+ * Replace the stored tag definitions.
+ * Records keep the IDs of deleted tags; they are skipped when tags are resolved.
+ */
+export async function saveTags(storage: IStorageService, tags: Tag[]): Promise<void> {
+  await storage.saveValue(TAGS_KEY, tags);
+}
@@ -0,0 +1,61 @@
+import { TimeRecord } from '../storage/interfaces';
+
+/**
+ * A user-defined tag; records refer to it by ID
+ */
+export interface Tag {
+  id: string;
+  name: string;
+  color: string;
+}
+
+/**
+ * Colors offered for new tags, with the meanings the avatar palette suggested
+ */
+export const TAG_COLORS = [
+  '#FF6B6B', // 红色 - 高优先级或重要项目
+  '#4ECDC4', // 青色 - 一般任务
+  '#45B7D1', // 蓝色 - 协作项目
+  '#96CEB4', // 绿色 - 已完成或进行中的任务
+  '#FFEEAD', // 黄色 - 需要注意的项目
+  '#D4A5A5', // 粉色 - 个人任务
+  '#9B59B6', // 紫色 - 创意项目
+  '#3498DB', // 深蓝色 - 技术相关任务
+];
+
+/**
+ * Create a tag with a trimmed name
+ */
+export function createTag(id: string, name: string, color: string): Tag {
+  return { id, name: name.trim(), color };
+}
+
+/**
+ * Whether the record itself carries the tag
+ */
+export function hasTag(record: TimeRecord, tagId: string): boolean {
+  return record.tagIds?.includes(tagId) ?? false;
+}
+
+/**
+ * Whether the record or anything below it carries the tag
+ */
+export function subtreeHasTag(record: TimeRecord, tagId: string): boolean {
+  return hasTag(record, tagId) || record.children.some(child => subtreeHasTag(child, tagId));
+}
+
+/**
+ * Add the tag to the record, or remove it if it is already there
+ */
+export function toggleTagId(tagIds: string[] | undefined, tagId: string): string[] {
+  const current = tagIds ?? [];
+  return current.includes(tagId) ? current.filter(id => id !== tagId) : [...current, tagId];
+}
+
+/**
+ * Look up the tags of a record, skipping IDs of tags that were deleted
+ */
+export function resolveTags(tagIds: string[] | undefined, tags: Tag[]): Tag[] {
+  const byId = new Map(tags.map(tag => [tag.id, tag]));
+  return (tagIds ?? []).flatMap(id => byId.get(id) ?? []);
+}
@@ -0,0 +1,111 @@
+import { TimeRecord } from '../../storage/interfaces';
+import { applyTimerCommand, createTimeRecord, getElapsedTime } from '../../timer/timer-tree';
+import { countTemplateNodes, createTemplate, instantiateTemplate } from '../templates';
+
+const T0 = Date.UTC(2025, 0, 15, 9, 0, 0);
+const MINUTE = 60_000;
+
+const record = (id: string, parentId: string | null, children: TimeRecord[] = [], isBreak = false): TimeRecord => ({
+  ...createTimeRecord({ id, label: id, parentId, avatarColor: `#${id}`, createdAt: new Date(T0), isBreak }),
+  children,
+});
+
+/**
+ * Standup → Dev (with a note, an estimate, timer rules and a tag) → Review, plus a Break
+ */
+const day = (): TimeRecord => {
+  const tree = record('day', null, [
+    record('standup', 'day'),
+    {
+      ...record('dev', 'day', [record('review', 'dev')]),
+      note: 'Main task',
+      estimate: 3 * 3600,
+      policy: { children: 'parallel', countBreaks: false },
+      tagIds: ['focus'],
+    },
+    record('Break', 'day', [], true),
+  ]);
+  // Record some time and leave the Dev timer running
+  const worked = applyTimerCommand(
+    applyTimerCommand([tree], { type: 'start', recordId: 'standup' }, T0),
+    { type: 'start', recordId: 'dev' },
+    T0 + 15 * MINUTE
+  );
+  return applyTimerCommand(worked, { type: 'startPomodoro', recordId: 'dev', settings: {
+    workMinutes: 25, breakMinutes: 5, longBreakMinutes: 15, cyclesPerLongBreak: 4,
+  } }, T0 + 20 * MINUTE)[0];
+};
+
+describe('createTemplate', () => {
+  it('keeps labels, colors, notes, estimates, timer rules, tags and structure', () => {
+    const template = createTemplate('t1', 'Workday', day(), T0);
+
+    expect(template).toMatchObject({ id: 't1', name: 'Workday', createdAt: T0 });
+    expect(template.root).toEqual({
+      label: 'day',
+      avatarColor: '#day',
+      children: [
+        { label: 'standup', avatarColor: '#standup', children: [] },
+        {
+          label: 'dev',
+          avatarColor: '#dev',
+          note: 'Main task',
+          estimate: 3 * 3600,
+          policy: { children: 'parallel', countBreaks: false },
+          tagIds: ['focus'],
+          children: [{ label: 'review', avatarColor: '#review', children: [] }],
+        },
+        { label: 'Break', avatarColor: '#Break', isBreak: true, children: [] },
+      ],
+    });
+    expect(countTemplateNodes(template.root)).toBe(5);
+  });
+
+  it('falls back to the record label for a blank name', () => {
+    expect(createTemplate('t1', '  ', day(), T0).name).toBe('day');
+  });
+});
+
+describe('instantiateTemplate', () => {
+  it('creates a stopped tree without time and with fresh IDs', () => {
+    const template = createTemplate('t1', 'Workday', day(), T0);
+    const createdAt = new Date(T0 + 24 * 60 * MINUTE);
+
+    const tree = instantiateTemplate(template, 'new', createdAt);
+
+    const flatten = (node: TimeRecord): TimeRecord[] => [node, ...node.children.flatMap(flatten)];
+    const nodes = flatten(tree);
+    expect(nodes.map(node => [node.id, node.parentId, node.label])).toEqual([
+      ['new', null, 'day'],
+      ['new-1', 'new', 'standup'],
+      ['new-2', 'new', 'dev'],
+      ['new-3', 'new-2', 'review'],
+      ['new-4', 'new', 'Break'],
+    ]);
+    nodes.forEach(node => {
+      expect(node.isRunning).toBe(false);
+      expect(node.intervals).toEqual([]);
+      expect(getElapsedTime(node, T0 + 48 * 60 * MINUTE)).toBe(0);
+      expect(node.pomodoro).toBeUndefined();
+      expect(node.createdAt).toEqual(createdAt);
+    });
+    expect(nodes[2]).toMatchObject({
+      note: 'Main task',
+      estimate: 3 * 3600,
+      policy: { children: 'parallel', countBreaks: false },
+      tagIds: ['focus'],
+    });
+    expect(nodes[4].isBreak).toBe(true);
+  });
+
+  it('creates independent trees from the same template', () => {
+    const template = createTemplate('t1', 'Workday', day(), T0);
+
+    const first = instantiateTemplate(template, 'a', new Date(T0));
+    const second = instantiateTemplate(template, 'b', new Date(T0));
+
+    expect(first.children.map(child => child.id)).toEqual(['a-1', 'a-2', 'a-4']);
+    expect(second.children.map(child => child.id)).toEqual(['b-1', 'b-2', 'b-4']);
+    expect(first.children[1].tagIds).not.toBe(second.children[1].tagIds);
+  });
+});
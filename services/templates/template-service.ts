@@ -0,0 +1,18 @@
+import { IStorageService } from '../storage/interfaces';
+import { RecordTemplate } from './templates';
+
+const TEMPLATES_KEY = 'templates';
+
+/**
+ * Load every saved template
+ */
+export async function loadTemplates(storage: IStorageService): Promise<RecordTemplate[]> {
+  return storage.loadValue<RecordTemplate[]>(TEMPLATES_KEY, []);
+}
+
+/**
+ * Replace the stored templates
+ */
+export async function saveTemplates(storage: IStorageService, templates: RecordTemplate[]): Promise<void> {
+  await storage.saveValue(TEMPLATES_KEY, templates);
+}
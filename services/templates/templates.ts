@@ -0,0 +1,83 @@
+import { TimeRecord, TimerPolicy } from '../storage/interfaces';
+import { createTimeRecord } from '../timer/timer-tree';
+
+/**
+ * One record of a template: what is copied into new records, without any time
+ */
+export interface TemplateNode {
+  label: string;
+  avatarColor: string;
+  note?: string;
+  estimate?: number;
+  policy?: TimerPolicy;
+  isBreak?: boolean;
+  tagIds?: string[];
+  children: TemplateNode[];
+}
+
+/**
+ * A saved record structure that new root records can be created from
+ */
+export interface RecordTemplate {
+  id: string;
+  name: string;
+  createdAt: number;
+  root: TemplateNode;
+}
+
+const toTemplateNode = (record: TimeRecord): TemplateNode => ({
+  label: record.label,
+  avatarColor: record.avatarColor,
+  note: record.note || undefined,
+  estimate: record.estimate,
+  policy: record.policy && { ...record.policy },
+  isBreak: record.isBreak || undefined,
+  tagIds: record.tagIds?.length ? [...record.tagIds] : undefined,
+  children: record.children.map(toTemplateNode),
+});
+
+/**
+ * Save a record and its subtree as a template.
+ * Labels, colors, notes, estimates, timer rules, tags and structure are kept; time, running
+ * state, Pomodoro state and history are not.
+ */
+export function createTemplate(id: string, name: string, record: TimeRecord, now: number): RecordTemplate {
+  return { id, name: name.trim() || record.label, createdAt: now, root: toTemplateNode(record) };
+}
+
+/**
+ * Number of records a template creates
+ */
+export function countTemplateNodes(node: TemplateNode): number {
+  return 1 + node.children.reduce((total, child) => total + countTemplateNodes(child), 0);
+}
+
+/**
+ * Create a new, stopped root record tree from a template.
+ * The root gets `rootId`; the records below it get `${rootId}-1`, `${rootId}-2`, …
+ * in depth-first order, so the IDs are unique as long as the root ID is.
+ */
+export function instantiateTemplate(template: RecordTemplate, rootId: string, createdAt: Date): TimeRecord {
+  let nextIndex = 0;
+  const build = (node: TemplateNode, parentId: string | null): TimeRecord => {
+    const id = nextIndex === 0 ? rootId : `${rootId}-${nextIndex}`;
+    nextIndex++;
+    const record = createTimeRecord({
+      id,
+      label: node.label,
+      parentId,
+      avatarColor: node.avatarColor,
+      createdAt,
+      isBreak: node.isBreak,
+      tagIds: node.tagIds && [...node.tagIds],
+    });
+    return {
+      ...record,
+      note: node.note ?? record.note,
+      estimate: node.estimate,
+      policy: node.policy && { ...node.policy },
+      children: node.children.map(child => build(child, id)),
+    };
+  };
+  return build(template.root, null);
+}
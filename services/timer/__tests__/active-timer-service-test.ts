@@ -0,0 +1,84 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_SETTINGS } from '../../settings/settings';
+import { saveSettings } from '../../settings/settings-service';
+import { TimeRecord } from '../../storage/interfaces';
+import { JsonStorageProvider } from '../../storage/json-storage-provider';
+import { StorageService } from '../../storage/storage-service';
+import { getActiveTimers } from '../active-timers';
+import { saveTimerTree } from '../active-timer-service';
+import { advanceStoredPomodoros } from '../pomodoro-service';
+import { applyTimerCommand, createTimeRecord } from '../timer-tree';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const T0 = Date.UTC(2025, 0, 1, 9, 0, 0);
+const MINUTE = 60_000;
+
+const record = (id: string, parentId: string | null, children: TimeRecord[] = []): TimeRecord => ({
+  ...createTimeRecord({ id, label: id, parentId, avatarColor: '#000', createdAt: new Date(T0) }),
+  children,
+});
+
+const start = (tree: TimeRecord, recordId: string, now: number) =>
+  applyTimerCommand([tree], { type: 'start', recordId }, now)[0];
+
+/**
+ * Storage with `other` running since T0 and `client` stopped
+ */
+const createStorage = async (singleActiveTimer: boolean) => {
+  await AsyncStorage.clear();
+  const storage = new StorageService(new JsonStorageProvider());
+  await storage.initialize();
+  await saveSettings(storage, { ...DEFAULT_SETTINGS, singleActiveTimer });
+  await storage.saveRecords([start(record('other', null), 'other', T0), record('client', null, [record('design', 'client')])]);
+  return storage;
+};
+
+const runningRoots = async (storage: StorageService) =>
+  getActiveTimers(await storage.loadRecords()).map(timer => timer.rootId);
+
+describe('saveTimerTree', () => {
+  it('stops the other trees once a timer starts while only one may run', async () => {
+    const storage = await createStorage(true);
+    const client = (await storage.loadRecord('client'))!;
+
+    await saveTimerTree(storage, start(client, 'design', T0 + 10 * MINUTE), client, T0 + 10 * MINUTE);
+
+    expect(await runningRoots(storage)).toEqual(['client']);
+    expect((await storage.loadRecord('other'))!.time).toBe(10 * 60);
+  });
+
+  it('leaves the other trees running when nothing was started', async () => {
+    const storage = await createStorage(true);
+    const running = start((await storage.loadRecord('client'))!, 'design', T0 + 10 * MINUTE);
+    await storage.saveRecord(running);
+
+    await saveTimerTree(storage, { ...running, note: 'notes' }, running, T0 + 20 * MINUTE);
+
+    expect((await runningRoots(storage)).sort()).toEqual(['client', 'other']);
+  });
+
+  it('leaves the other trees running when several timers may run', async () => {
+    const storage = await createStorage(false);
+    const client = (await storage.loadRecord('client'))!;
+
+    await saveTimerTree(storage, start(client, 'design', T0 + 10 * MINUTE), client, T0 + 10 * MINUTE);
+
+    expect((await runningRoots(storage)).sort()).toEqual(['client', 'other']);
+  });
+});
+
+describe('advanceStoredPomodoros', () => {
+  it('applies the one-timer rule to a break it starts', async () => {
+    const storage = await createStorage(true);
+    const settings = DEFAULT_SETTINGS.pomodoro;
+    const focused = applyTimerCommand([(await storage.loadRecord('client'))!], { type: 'startPomodoro', recordId: 'design', settings }, T0)[0];
+    await storage.saveRecord(focused);
+
+    await advanceStoredPomodoros(storage, T0 + 27 * MINUTE);
+
+    expect(await runningRoots(storage)).toEqual(['client']);
+  });
+});
@@ -0,0 +1,76 @@
+import { TimeRecord } from '../../storage/interfaces';
+import { getActiveTimers, getStartedTimers, stopTree } from '../active-timers';
+import { advancePomodoro } from '../pomodoro';
+import { applyTimerCommand, createTimeRecord, findRecordById, getElapsedTime } from '../timer-tree';
+
+const T0 = Date.UTC(2025, 0, 1, 9, 0, 0);
+const MINUTE = 60_000;
+
+const record = (id: string, parentId: string | null, children: TimeRecord[] = []): TimeRecord => ({
+  ...createTimeRecord({ id, label: id, parentId, avatarColor: '#000', createdAt: new Date(T0) }),
+  children,
+});
+
+const start = (tree: TimeRecord, recordId: string, now: number) =>
+  applyTimerCommand([tree], { type: 'start', recordId }, now)[0];
+
+describe('getActiveTimers', () => {
+  it('lists the started records of every tree, newest first', () => {
+    const client = start(record('client', null, [record('design', 'client'), record('review', 'client')]), 'design', T0);
+    const internal = start(record('internal', null), 'internal', T0 + 5 * MINUTE);
+    const idle = record('idle', null, [record('todo', 'idle')]);
+
+    const timers = getActiveTimers([client, internal, idle]);
+
+    expect(timers.map(timer => [timer.rootId, timer.record.id])).toEqual([
+      ['internal', 'internal'],
+      ['client', 'design'],
+    ]);
+    expect(timers[1].labels).toEqual(['client', 'design']);
+  });
+
+  it('lists each running child of a parallel parent', () => {
+    const tree = { ...record('day', null, [record('meeting', 'day'), record('onCall', 'day')]), policy: { children: 'parallel' as const, countBreaks: true } };
+
+    const running = start(start(tree, 'meeting', T0), 'onCall', T0 + MINUTE);
+
+    expect(getActiveTimers([running]).map(timer => timer.record.id)).toEqual(['onCall', 'meeting']);
+  });
+
+  it('lists a running break below a paused task instead of the project above it', () => {
+    const settings = { workMinutes: 25, breakMinutes: 5, longBreakMinutes: 15, cyclesPerLongBreak: 4 };
+    const focused = applyTimerCommand([record('client', null, [record('design', 'client')])], { type: 'startPomodoro', recordId: 'design', settings }, T0);
+
+    const [onBreak] = advancePomodoro(focused, T0 + 27 * MINUTE);
+
+    expect(getActiveTimers([onBreak]).map(timer => timer.labels)).toEqual([['client', 'design', 'Break']]);
+  });
+});
+
+describe('getStartedTimers', () => {
+  it('lists only the timers that were not running before', () => {
+    const before = start(record('client', null, [record('design', 'client'), record('review', 'client')]), 'design', T0);
+    const switched = start(before, 'review', T0 + MINUTE);
+
+    expect(getStartedTimers([before], [switched]).map(timer => timer.record.id)).toEqual(['review']);
+    expect(getStartedTimers([switched], [{ ...switched, note: 'edited' }])).toEqual([]);
+  });
+});
+
+describe('stopTree', () => {
+  it('closes every running session at the given time', () => {
+    const running = start(record('client', null, [record('design', 'client')]), 'design', T0);
+
+    const stopped = stopTree(running, T0 + 25 * MINUTE);
+
+    expect(getActiveTimers([stopped])).toEqual([]);
+    expect(findRecordById([stopped], 'design')!.intervals).toEqual([{ start: T0, end: T0 + 25 * MINUTE }]);
+    expect(getElapsedTime(stopped, T0 + 60 * MINUTE)).toBe(25 * 60);
+  });
+
+  it('returns a tree without running timers unchanged', () => {
+    const tree = record('client', null);
+
+    expect(stopTree(tree, T0)).toBe(tree);
+  });
+});
@@ -0,0 +1,91 @@
+import { TimeRecord } from '../../storage/interfaces';
+import {
+  EMPTY_HISTORY,
+  MAX_HISTORY_LENGTH,
+  recordCommand,
+  redoCommand,
+  undoCommand,
+} from '../command-history';
+import { applyTimerCommand, createTimeRecord, findRecordById, getElapsedTime, TimerCommand } from '../timer-tree';
+
+const T0 = Date.UTC(2025, 0, 1, 9, 0, 0);
+
+const buildTree = (): TimeRecord[] => [{
+  ...createTimeRecord({ id: 'root', label: 'root', parentId: null, avatarColor: '#000', createdAt: new Date(T0) }),
+  children: [createTimeRecord({ id: 'a', label: 'a', parentId: 'root', avatarColor: '#000', createdAt: new Date(T0) })],
+}];
+
+const get = (records: TimeRecord[], id: string) => findRecordById(records, id)!;
+
+/**
+ * Apply a command and remember it, like the detail screen does
+ */
+const run = (state: { records: TimeRecord[]; history: typeof EMPTY_HISTORY }, command: TimerCommand, now: number) => ({
+  records: applyTimerCommand(state.records, command, now),
+  history: recordCommand(state.history, command, state.records),
+});
+
+describe('undoCommand', () => {
+  it('restores a timer stopped by mistake with its elapsed time', () => {
+    let state = run({ records: buildTree(), history: EMPTY_HISTORY }, { type: 'start', recordId: 'a' }, T0);
+    state = run(state, { type: 'stop', recordId: 'a' }, T0 + 60_000);
+
+    const step = undoCommand(state.history)!;
+
+    expect(get(step.records, 'a').isRunning).toBe(true);
+    expect(getElapsedTime(get(step.records, 'a'), T0 + 90_000)).toBe(90);
+  });
+
+  it('drops the time recorded by a start made by mistake', () => {
+    const state = run({ records: buildTree(), history: EMPTY_HISTORY }, { type: 'start', recordId: 'a' }, T0);
+
+    const step = undoCommand(state.history)!;
+
+    expect(get(step.records, 'a').isRunning).toBe(false);
+    expect(getElapsedTime(get(step.records, 'a'), T0 + 90_000)).toBe(0);
+  });
+
+  it('removes an added child', () => {
+    const state = run({ records: buildTree(), history: EMPTY_HISTORY }, { type: 'addChild', parentId: 'root', id: 'b', avatarColor: '#000' }, T0);
+
+    const step = undoCommand(state.history)!;
+
+    expect(findRecordById(step.records, 'b')).toBeNull();
+  });
+
+  it('does nothing without history', () => {
+    expect(undoCommand(EMPTY_HISTORY)).toBeNull();
+  });
+});
+
+describe('redoCommand', () => {
+  it('applies the undone command again and keeps it undoable', () => {
+    const state = run({ records: buildTree(), history: EMPTY_HISTORY }, { type: 'rename', recordId: 'a', label: 'Design' }, T0);
+    const undone = undoCommand(state.history)!;
+
+    const redone = redoCommand(undone.history, undone.records, T0)!;
+
+    expect(get(redone.records, 'a').label).toBe('Design');
+    expect(redone.history.future).toEqual([]);
+    expect(get(undoCommand(redone.history)!.records, 'a').label).toBe('a');
+  });
+
+  it('is cleared by a new command', () => {
+    const state = run({ records: buildTree(), history: EMPTY_HISTORY }, { type: 'start', recordId: 'a' }, T0);
+    const undone = undoCommand(state.history)!;
+
+    const next = run(undone, { type: 'toggleCollapse', recordId: 'root' }, T0);
+
+    expect(next.history.future).toEqual([]);
+    expect(redoCommand(next.history, next.records, T0)).toBeNull();
+  });
+});
+
+it(`keeps at most ${MAX_HISTORY_LENGTH} commands`, () => {
+  let state = { records: buildTree(), history: EMPTY_HISTORY };
+  for (let index = 0; index < MAX_HISTORY_LENGTH + 5; index++) {
+    state = run(state, { type: 'toggleCollapse', recordId: 'root' }, T0);
+  }
+
+  expect(state.history.past).toHaveLength(MAX_HISTORY_LENGTH);
+});
@@ -0,0 +1,50 @@
+import { TimeRecord } from '../../storage/interfaces';
+import { getBudgetProgress, getRolledUpEstimate } from '../estimates';
+import { applyTimerCommand, createTimeRecord, findRecordById } from '../timer-tree';
+
+const T0 = Date.UTC(2025, 0, 1, 9, 0, 0);
+const MINUTE = 60 * 1000;
+
+const record = (id: string, parentId: string | null, children: TimeRecord[] = [], estimate?: number): TimeRecord => ({
+  ...createTimeRecord({ id, label: id, parentId, avatarColor: '#000', createdAt: new Date(T0) }),
+  children,
+  estimate,
+});
+
+describe('getRolledUpEstimate', () => {
+  it('sums the estimates of the children', () => {
+    const root = record('root', null, [
+      record('a', 'root', [record('a1', 'a', [], 600), record('a2', 'a', [], 300)]),
+      record('b', 'root', [], 1200),
+      record('c', 'root'),
+    ]);
+
+    expect(getRolledUpEstimate(root)).toBe(2100);
+    expect(getRolledUpEstimate(findRecordById([root], 'a')!)).toBe(900);
+    expect(getRolledUpEstimate(findRecordById([root], 'c')!)).toBeNull();
+  });
+
+  it('prefers the estimate set on the record itself', () => {
+    const root = record('root', null, [record('a', 'root', [], 600)], 3600);
+
+    expect(getRolledUpEstimate(root)).toBe(3600);
+  });
+});
+
+describe('getBudgetProgress', () => {
+  it('compares tracked time with the estimate', () => {
+    const tree = applyTimerCommand([record('root', null, [], 30 * 60)], { type: 'start', recordId: 'root' }, T0);
+
+    expect(getBudgetProgress(tree[0], T0 + 15 * MINUTE)).toEqual({
+      estimateSeconds: 1800,
+      actualSeconds: 900,
+      ratio: 0.5,
+      isOverBudget: false,
+    });
+    expect(getBudgetProgress(tree[0], T0 + 45 * MINUTE)?.isOverBudget).toBe(true);
+  });
+
+  it('is null without an estimate', () => {
+    expect(getBudgetProgress(record('root', null), T0)).toBeNull();
+  });
+});
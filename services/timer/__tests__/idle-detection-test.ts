@@ -0,0 +1,92 @@
+import { TimeRecord } from '../../storage/interfaces';
+import { findIdleTimer } from '../idle-detection';
+import { applyTimerCommand, createTimeRecord, findRecordById } from '../timer-tree';
+
+const T0 = Date.UTC(2025, 0, 1, 9, 0, 0);
+const HOUR = 60 * 60 * 1000;
+
+const buildTree = (): TimeRecord[] => [{
+  ...createTimeRecord({ id: 'root', label: 'root', parentId: null, avatarColor: '#000', createdAt: new Date(T0) }),
+  children: [createTimeRecord({ id: 'a', label: 'a', parentId: 'root', avatarColor: '#000', createdAt: new Date(T0) })],
+}];
+
+const get = (records: TimeRecord[], id: string) => findRecordById(records, id)!;
+
+describe('findIdleTimer', () => {
+  it('reports the deepest running record once its session passes the threshold', () => {
+    const tree = applyTimerCommand(buildTree(), { type: 'start', recordId: 'a' }, T0);
+
+    expect(findIdleTimer(tree, 120, T0 + HOUR)).toBeNull();
+    expect(findIdleTimer(tree, 120, T0 + 3 * HOUR)).toEqual({
+      rootId: 'root',
+      recordId: 'a',
+      label: 'a',
+      sessionStart: T0,
+      runningSeconds: 3 * 60 * 60,
+    });
+  });
+
+  it('does not report a session that was already decided on', () => {
+    let tree = applyTimerCommand(buildTree(), { type: 'start', recordId: 'a' }, T0);
+    tree = applyTimerCommand(tree, { type: 'resolveIdle', recordId: 'a', decision: 'keep' }, T0 + 3 * HOUR);
+
+    expect(findIdleTimer(tree, 120, T0 + 4 * HOUR)).toBeNull();
+  });
+
+  it('reports a break running below a paused parent', () => {
+    const [root] = buildTree();
+    const coffee = createTimeRecord({ id: 'coffee', label: 'Coffee', parentId: 'root', avatarColor: '#000', createdAt: new Date(T0), isBreak: true });
+    const tree = applyTimerCommand(
+      [{ ...root, policy: { children: 'exclusive', countBreaks: false }, children: [...root.children, coffee] }],
+      { type: 'start', recordId: 'coffee' },
+      T0
+    );
+
+    expect(get(tree, 'root').isRunning).toBe(false);
+    expect(findIdleTimer(tree, 120, T0 + 5 * HOUR)).toMatchObject({ rootId: 'root', recordId: 'coffee', runningSeconds: 5 * 60 * 60 });
+  });
+});
+
+describe('resolveIdle', () => {
+  const running = () => applyTimerCommand(buildTree(), { type: 'start', recordId: 'a' }, T0);
+
+  it('keeps the timer running and notes the decision', () => {
+    const tree = applyTimerCommand(running(), { type: 'resolveIdle', recordId: 'a', decision: 'keep' }, T0 + 3 * HOUR);
+
+    expect(get(tree, 'a').isRunning).toBe(true);
+    expect(get(tree, 'a').history).toEqual([
+      { type: 'idle', decidedAt: T0 + 3 * HOUR, sessionStart: T0, decision: 'keep' },
+    ]);
+  });
+
+  it('discards the whole session on the record and its ancestors', () => {
+    const tree = applyTimerCommand(running(), { type: 'resolveIdle', recordId: 'a', decision: 'discard' }, T0 + 3 * HOUR);
+
+    expect(get(tree, 'a').isRunning).toBe(false);
+    expect(get(tree, 'a').time).toBe(0);
+    expect(get(tree, 'root').time).toBe(0);
+    expect(get(tree, 'a').history?.[0].decision).toBe('discard');
+  });
+
+  it('keeps the session up to the chosen moment', () => {
+    const tree = applyTimerCommand(
+      running(),
+      { type: 'resolveIdle', recordId: 'a', decision: 'keepUntil', keptUntil: T0 + HOUR },
+      T0 + 3 * HOUR
+    );
+
+    expect(get(tree, 'a').time).toBe(60 * 60);
+    expect(get(tree, 'root').time).toBe(60 * 60);
+    expect(get(tree, 'a').history?.[0]).toMatchObject({ decision: 'keepUntil', keptUntil: T0 + HOUR });
+  });
+
+  it('ignores a moment outside the session', () => {
+    const tree = running();
+
+    expect(applyTimerCommand(
+      tree,
+      { type: 'resolveIdle', recordId: 'a', decision: 'keepUntil', keptUntil: T0 - HOUR },
+      T0 + 3 * HOUR
+    )).toBe(tree);
+  });
+});
@@ -0,0 +1,91 @@
+import { PomodoroSettings, TimeRecord } from '../../storage/interfaces';
+import { advancePomodoro, getPomodoroStatus } from '../pomodoro';
+import { applyTimerCommand, createTimeRecord, findRecordById, getElapsedTime } from '../timer-tree';
+
+const T0 = Date.UTC(2025, 0, 1, 9, 0, 0);
+const MINUTE = 60 * 1000;
+
+const SETTINGS: PomodoroSettings = { workMinutes: 25, breakMinutes: 5, longBreakMinutes: 15, cyclesPerLongBreak: 2 };
+
+const buildTree = (): TimeRecord[] => [
+  createTimeRecord({ id: 'task', label: 'task', parentId: null, avatarColor: '#000', createdAt: new Date(T0) }),
+];
+
+const get = (records: TimeRecord[], id: string) => findRecordById(records, id)!;
+
+const focused = () => applyTimerCommand(buildTree(), { type: 'startPomodoro', recordId: 'task', settings: SETTINGS }, T0);
+
+describe('advancePomodoro', () => {
+  it('leaves the tree alone while the work phase is running', () => {
+    const tree = focused();
+
+    expect(advancePomodoro(tree, T0 + 10 * MINUTE)).toBe(tree);
+    expect(getPomodoroStatus(get(tree, 'task'), T0 + 10 * MINUTE)).toEqual({
+      phase: 'work',
+      completedCycles: 0,
+      remainingSeconds: 15 * 60,
+      phaseEnd: T0 + 25 * MINUTE,
+    });
+  });
+
+  it('starts a Break child when the work phase ends and counts the cycle', () => {
+    const tree = advancePomodoro(focused(), T0 + 27 * MINUTE);
+    const task = get(tree, 'task');
+    const breakRecord = task.children[0];
+
+    expect(task.pomodoro).toMatchObject({ phase: 'break', phaseStart: T0 + 25 * MINUTE, completedCycles: 1 });
+    expect(breakRecord.isBreak).toBe(true);
+    expect(breakRecord.isRunning).toBe(true);
+    expect(breakRecord.startTime).toBe(T0 + 25 * MINUTE);
+    expect(task.pomodoro?.breakRecordId).toBe(breakRecord.id);
+    expect(task.isRunning).toBe(false);
+    expect(getElapsedTime(task, T0 + 27 * MINUTE)).toBe(25 * 60);
+  });
+
+  it('catches up with phases that ended while the app was closed', () => {
+    const tree = advancePomodoro(focused(), T0 + 5 * 60 * MINUTE);
+    const task = get(tree, 'task');
+
+    expect(task.pomodoro).toMatchObject({ phase: 'ready', phaseStart: T0 + 30 * MINUTE, completedCycles: 1 });
+    expect(task.isRunning).toBe(false);
+    expect(task.time).toBe(25 * 60);
+    expect(task.children[0].isRunning).toBe(false);
+    expect(task.children[0].time).toBe(5 * 60);
+  });
+
+  it('gives the long break every N cycles', () => {
+    let tree = advancePomodoro(focused(), T0 + 31 * MINUTE);
+    tree = applyTimerCommand(tree, { type: 'startPomodoro', recordId: 'task', settings: SETTINGS }, T0 + 31 * MINUTE);
+    tree = advancePomodoro(tree, T0 + 57 * MINUTE);
+
+    expect(get(tree, 'task').pomodoro).toMatchObject({ phase: 'longBreak', completedCycles: 2 });
+    expect(getPomodoroStatus(get(tree, 'task'), T0 + 57 * MINUTE)?.remainingSeconds).toBe(14 * 60);
+  });
+
+  it('does not count paused time towards the work phase', () => {
+    let tree = applyTimerCommand(focused(), { type: 'stop', recordId: 'task' }, T0 + 20 * MINUTE);
+    tree = applyTimerCommand(tree, { type: 'start', recordId: 'task' }, T0 + 60 * MINUTE);
+
+    expect(advancePomodoro(tree, T0 + 64 * MINUTE)).toBe(tree);
+    expect(get(advancePomodoro(tree, T0 + 66 * MINUTE), 'task').pomodoro?.phaseStart).toBe(T0 + 65 * MINUTE);
+  });
+});
+
+describe('Pomodoro commands', () => {
+  it('ends a running break when the next cycle starts early', () => {
+    let tree = advancePomodoro(focused(), T0 + 27 * MINUTE);
+    const breakId = get(tree, 'task').pomodoro!.breakRecordId!;
+    tree = applyTimerCommand(tree, { type: 'startPomodoro', recordId: 'task', settings: SETTINGS }, T0 + 28 * MINUTE);
+
+    expect(get(tree, breakId).isRunning).toBe(false);
+    expect(get(tree, 'task').isRunning).toBe(true);
+    expect(get(tree, 'task').pomodoro).toMatchObject({ phase: 'work', phaseStart: T0 + 28 * MINUTE, completedCycles: 1 });
+  });
+
+  it('leaves Pomodoro mode and keeps the work timer running', () => {
+    const tree = applyTimerCommand(focused(), { type: 'stopPomodoro', recordId: 'task' }, T0 + 10 * MINUTE);
+
+    expect(get(tree, 'task').pomodoro).toBeUndefined();
+    expect(get(tree, 'task').isRunning).toBe(true);
+  });
+});
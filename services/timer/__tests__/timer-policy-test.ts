@@ -0,0 +1,167 @@
+import { TimeRecord, TimerPolicy } from '../../storage/interfaces';
+import { applyTimerCommand, createTimeRecord, findRecordById, getElapsedTime, TimerCommand } from '../timer-tree';
+import { getRolledUpIntervals } from '../timer-policy';
+
+const T0 = Date.UTC(2025, 0, 1, 9, 0, 0);
+const MINUTE = 60_000;
+
+const PARALLEL: TimerPolicy = { children: 'parallel', countBreaks: true };
+const NO_BREAKS: TimerPolicy = { children: 'exclusive', countBreaks: false };
+
+const record = (id: string, parentId: string | null, children: TimeRecord[] = [], isBreak = false): TimeRecord => ({
+  ...createTimeRecord({ id, label: id, parentId, avatarColor: '#000', createdAt: new Date(T0), isBreak }),
+  children,
+});
+
+/**
+ * day (with the given policy)
+ * ├── meeting
+ * ├── onCall
+ * └── coffee (break)
+ */
+const buildTree = (policy?: TimerPolicy): TimeRecord[] => [{
+  ...record('day', null, [record('meeting', 'day'), record('onCall', 'day'), record('coffee', 'day', [], true)]),
+  policy,
+}];
+
+const get = (records: TimeRecord[], id: string) => findRecordById(records, id)!;
+
+/**
+ * Apply commands one minute apart, the first at T0
+ */
+const run = (records: TimeRecord[], commands: TimerCommand[]) =>
+  commands.reduce((current, command, index) => applyTimerCommand(current, command, T0 + index * MINUTE), records);
+
+describe('parallel children', () => {
+  it('keeps running siblings running', () => {
+    const tree = run(buildTree(PARALLEL), [
+      { type: 'start', recordId: 'meeting' },
+      { type: 'start', recordId: 'onCall' },
+    ]);
+
+    expect(get(tree, 'meeting').isRunning).toBe(true);
+    expect(get(tree, 'onCall').isRunning).toBe(true);
+    expect(get(tree, 'day').isRunning).toBe(true);
+  });
+
+  it('stops the parent only when its last running child stops', () => {
+    const tree = run(buildTree(PARALLEL), [
+      { type: 'start', recordId: 'meeting' },
+      { type: 'start', recordId: 'onCall' },
+      { type: 'stop', recordId: 'meeting' },
+    ]);
+    expect(get(tree, 'day').isRunning).toBe(true);
+
+    const stopped = applyTimerCommand(tree, { type: 'stop', recordId: 'onCall' }, T0 + 10 * MINUTE);
+    expect(get(stopped, 'day').isRunning).toBe(false);
+    // The parent counts the overlap once
+    expect(get(stopped, 'day').intervals).toEqual([{ start: T0, end: T0 + 10 * MINUTE }]);
+    expect(getElapsedTime(get(stopped, 'meeting'), T0 + 10 * MINUTE)).toBe(2 * 60);
+    expect(getElapsedTime(get(stopped, 'onCall'), T0 + 10 * MINUTE)).toBe(9 * 60);
+  });
+
+  it('keeps the time a running sibling covers when a timer is stopped earlier', () => {
+    const tree = run(buildTree(PARALLEL), [
+      { type: 'start', recordId: 'meeting' },
+      { type: 'start', recordId: 'onCall' },
+    ]);
+
+    const stopped = applyTimerCommand(tree, { type: 'stopAt', recordId: 'meeting', time: T0 + 30 * MINUTE }, T0 + 60 * MINUTE);
+
+    expect(get(stopped, 'meeting').intervals).toEqual([{ start: T0, end: T0 + 30 * MINUTE }]);
+    expect(get(stopped, 'onCall').isRunning).toBe(true);
+    expect(get(stopped, 'day').isRunning).toBe(true);
+    expect(getElapsedTime(get(stopped, 'day'), T0 + 60 * MINUTE)).toBe(60 * 60);
+  });
+
+  it('still stops siblings under an exclusive parent', () => {
+    const tree = run(buildTree(), [
+      { type: 'start', recordId: 'meeting' },
+      { type: 'start', recordId: 'onCall' },
+    ]);
+
+    expect(get(tree, 'meeting').isRunning).toBe(false);
+    expect(get(tree, 'onCall').isRunning).toBe(true);
+  });
+});
+
+describe('breaks that do not count', () => {
+  it('pause the parent and its other children while they run', () => {
+    const tree = run(buildTree(NO_BREAKS), [
+      { type: 'start', recordId: 'meeting' },
+      { type: 'start', recordId: 'coffee' },
+    ]);
+
+    expect(get(tree, 'coffee').isRunning).toBe(true);
+    expect(get(tree, 'meeting').isRunning).toBe(false);
+    expect(get(tree, 'day').isRunning).toBe(false);
+    expect(get(tree, 'day').intervals).toEqual([{ start: T0, end: T0 + MINUTE }]);
+  });
+
+  it('end when the parent or another child starts again', () => {
+    const paused = run(buildTree(NO_BREAKS), [
+      { type: 'start', recordId: 'meeting' },
+      { type: 'start', recordId: 'coffee' },
+    ]);
+
+    const resumed = applyTimerCommand(paused, { type: 'start', recordId: 'day' }, T0 + 5 * MINUTE);
+    expect(get(resumed, 'coffee').isRunning).toBe(false);
+    expect(get(resumed, 'day').isRunning).toBe(true);
+    expect(getElapsedTime(get(resumed, 'day'), T0 + 10 * MINUTE)).toBe(6 * 60);
+
+    // Parallel children do not keep a break running either
+    const parallel = applyTimerCommand(paused, { type: 'setPolicy', recordId: 'day', policy: { children: 'parallel', countBreaks: false } }, T0 + 2 * MINUTE);
+    const working = applyTimerCommand(parallel, { type: 'start', recordId: 'onCall' }, T0 + 5 * MINUTE);
+    expect(get(working, 'coffee').isRunning).toBe(false);
+    expect(get(working, 'onCall').isRunning).toBe(true);
+  });
+
+  it('stay out of the parent when edited or deleted', () => {
+    const tree = run(buildTree(NO_BREAKS), [
+      { type: 'addInterval', recordId: 'coffee', interval: { start: T0 - 20 * MINUTE, end: T0 - 10 * MINUTE } },
+    ]);
+    expect(get(tree, 'coffee').intervals).toHaveLength(1);
+    expect(get(tree, 'day').intervals).toEqual([]);
+    expect(getRolledUpIntervals(get(tree, 'day'), T0)).toEqual([]);
+
+    const deleted = applyTimerCommand(tree, { type: 'delete', recordId: 'coffee', foldIntoParent: true }, T0);
+    expect(get(deleted, 'day').intervals).toEqual([]);
+  });
+
+  it('count toward the parent by default', () => {
+    const tree = run(buildTree(), [
+      { type: 'start', recordId: 'meeting' },
+      { type: 'start', recordId: 'coffee' },
+    ]);
+
+    expect(get(tree, 'day').isRunning).toBe(true);
+    expect(get(tree, 'meeting').isRunning).toBe(false);
+  });
+});
+
+describe('setPolicy', () => {
+  it('keeps only the first running child when switching to exclusive', () => {
+    const tree = run(buildTree(PARALLEL), [
+      { type: 'start', recordId: 'meeting' },
+      { type: 'start', recordId: 'onCall' },
+      { type: 'setPolicy', recordId: 'day', policy: { children: 'exclusive', countBreaks: true } },
+    ]);
+
+    expect(get(tree, 'day').policy).toEqual({ children: 'exclusive', countBreaks: true });
+    expect(get(tree, 'meeting').isRunning).toBe(true);
+    expect(get(tree, 'onCall').isRunning).toBe(false);
+    expect(get(tree, 'day').isRunning).toBe(true);
+  });
+
+  it('pauses the parent of a running break it stops counting', () => {
+    const tree = run(buildTree(), [
+      { type: 'start', recordId: 'coffee' },
+      { type: 'setPolicy', recordId: 'day', policy: NO_BREAKS },
+    ]);
+
+    expect(get(tree, 'coffee').isRunning).toBe(true);
+    expect(get(tree, 'coffee').intervals).toEqual([]);
+    expect(get(tree, 'day').isRunning).toBe(false);
+    expect(get(tree, 'day').intervals).toEqual([{ start: T0, end: T0 + MINUTE }]);
+  });
+});
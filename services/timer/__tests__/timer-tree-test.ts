@@ -0,0 +1,366 @@
+import { TimeRecord } from '../../storage/interfaces';
+import {
+  applyTimerCommand,
+  attachRecord,
+  BREAK_COLOR,
+  BREAK_LABEL,
+  createTimeRecord,
+  detachRecord,
+  findRecordById,
+  getElapsedTime,
+  validateIntervalEdit,
+} from '../timer-tree';
+
+const T0 = Date.UTC(2025, 0, 1, 9, 0, 0);
+
+const record = (id: string, parentId: string | null, children: TimeRecord[] = []): TimeRecord => ({
+  ...createTimeRecord({ id, label: id, parentId, avatarColor: '#000', createdAt: new Date(T0) }),
+  children,
+});
+
+/**
+ * root
+ * ├── a
+ * │   ├── a1
+ * │   └── a2
+ * └── b
+ */
+const buildTree = (): TimeRecord[] => [
+  record('root', null, [
+    record('a', 'root', [record('a1', 'a'), record('a2', 'a')]),
+    record('b', 'root'),
+  ]),
+];
+
+const get = (records: TimeRecord[], id: string) => findRecordById(records, id)!;
+
+describe('start', () => {
+  it('starts the record and all of its ancestors', () => {
+    const tree = applyTimerCommand(buildTree(), { type: 'start', recordId: 'a1' }, T0);
+
+    expect(get(tree, 'a1').isRunning).toBe(true);
+    expect(get(tree, 'a').isRunning).toBe(true);
+    expect(get(tree, 'root').isRunning).toBe(true);
+    expect(get(tree, 'a1').startTime).toBe(T0);
+  });
+
+  it('stops running siblings and keeps their elapsed time', () => {
+    let tree = applyTimerCommand(buildTree(), { type: 'start', recordId: 'a1' }, T0);
+    tree = applyTimerCommand(tree, { type: 'start', recordId: 'a2' }, T0 + 30_000);
+
+    expect(get(tree, 'a1').isRunning).toBe(false);
+    expect(get(tree, 'a1').time).toBe(30);
+    expect(get(tree, 'a2').isRunning).toBe(true);
+    expect(get(tree, 'a').isRunning).toBe(true);
+  });
+
+  it('stops siblings of ancestors together with their subtree', () => {
+    let tree = applyTimerCommand(buildTree(), { type: 'start', recordId: 'a1' }, T0);
+    tree = applyTimerCommand(tree, { type: 'start', recordId: 'b' }, T0 + 10_000);
+
+    expect(get(tree, 'a').isRunning).toBe(false);
+    expect(get(tree, 'a1').isRunning).toBe(false);
+    expect(get(tree, 'a').time).toBe(10);
+    expect(get(tree, 'a1').time).toBe(10);
+    expect(get(tree, 'b').isRunning).toBe(true);
+  });
+
+  it('does not reset an ancestor that is already running', () => {
+    let tree = applyTimerCommand(buildTree(), { type: 'start', recordId: 'a1' }, T0);
+    tree = applyTimerCommand(tree, { type: 'start', recordId: 'a2' }, T0 + 5_000);
+
+    expect(get(tree, 'root').startTime).toBe(T0);
+    expect(getElapsedTime(get(tree, 'root'), T0 + 20_000)).toBe(20);
+  });
+});
+
+describe('stop', () => {
+  it('stops the record, its descendants and its ancestors', () => {
+    let tree = applyTimerCommand(buildTree(), { type: 'start', recordId: 'a1' }, T0);
+    tree = applyTimerCommand(tree, { type: 'stop', recordId: 'a' }, T0 + 45_000);
+
+    expect(get(tree, 'a').isRunning).toBe(false);
+    expect(get(tree, 'a1').isRunning).toBe(false);
+    expect(get(tree, 'root').isRunning).toBe(false);
+    expect(get(tree, 'a1').time).toBe(45);
+    expect(get(tree, 'a').baseTime).toBe(45);
+    expect(get(tree, 'a').startTime).toBeUndefined();
+  });
+
+  it('accumulates time across several runs', () => {
+    let tree = applyTimerCommand(buildTree(), { type: 'toggle', recordId: 'b' }, T0);
+    tree = applyTimerCommand(tree, { type: 'toggle', recordId: 'b' }, T0 + 10_000);
+    tree = applyTimerCommand(tree, { type: 'toggle', recordId: 'b' }, T0 + 60_000);
+    tree = applyTimerCommand(tree, { type: 'toggle', recordId: 'b' }, T0 + 65_000);
+
+    expect(get(tree, 'b').time).toBe(15);
+    expect(get(tree, 'root').time).toBe(15);
+  });
+});
+
+describe('intervals', () => {
+  it('appends one interval per start/stop session', () => {
+    let tree = applyTimerCommand(buildTree(), { type: 'start', recordId: 'b' }, T0);
+    tree = applyTimerCommand(tree, { type: 'stop', recordId: 'b' }, T0 + 10_000);
+    tree = applyTimerCommand(tree, { type: 'start', recordId: 'b' }, T0 + 60_000);
+    tree = applyTimerCommand(tree, { type: 'stop', recordId: 'b' }, T0 + 65_000);
+
+    expect(get(tree, 'b').intervals).toEqual([
+      { start: T0, end: T0 + 10_000 },
+      { start: T0 + 60_000, end: T0 + 65_000 },
+    ]);
+    expect(get(tree, 'b').baseTime).toBe(15);
+  });
+
+  it('closes an interval for every record that gets stopped', () => {
+    let tree = applyTimerCommand(buildTree(), { type: 'start', recordId: 'a1' }, T0);
+    tree = applyTimerCommand(tree, { type: 'start', recordId: 'b' }, T0 + 10_000);
+
+    expect(get(tree, 'a1').intervals).toEqual([{ start: T0, end: T0 + 10_000 }]);
+    expect(get(tree, 'a').intervals).toEqual([{ start: T0, end: T0 + 10_000 }]);
+    expect(get(tree, 'root').intervals).toEqual([]);
+    expect(get(tree, 'b').intervals).toEqual([]);
+  });
+
+  it('derives the running time from the intervals and the open session', () => {
+    let tree = applyTimerCommand(buildTree(), { type: 'start', recordId: 'b' }, T0);
+    tree = applyTimerCommand(tree, { type: 'stop', recordId: 'b' }, T0 + 10_000);
+    tree = applyTimerCommand(tree, { type: 'start', recordId: 'b' }, T0 + 20_000);
+
+    expect(getElapsedTime(get(tree, 'b'), T0 + 25_000)).toBe(15);
+  });
+});
+
+describe('delete', () => {
+  // a1 runs for 30s, then b for 20s
+  const buildTracked = () => {
+    let tree = applyTimerCommand(buildTree(), { type: 'start', recordId: 'a1' }, T0);
+    tree = applyTimerCommand(tree, { type: 'start', recordId: 'b' }, T0 + 30_000);
+    return applyTimerCommand(tree, { type: 'stop', recordId: 'b' }, T0 + 50_000);
+  };
+
+  it('removes the subtree and its time from the ancestors', () => {
+    const tree = applyTimerCommand(buildTracked(), { type: 'delete', recordId: 'a', foldIntoParent: false }, T0 + 60_000);
+
+    expect(findRecordById(tree, 'a')).toBeNull();
+    expect(findRecordById(tree, 'a1')).toBeNull();
+    expect(get(tree, 'root').time).toBe(20);
+  });
+
+  it('keeps the time on the parent when folding', () => {
+    const tree = applyTimerCommand(buildTracked(), { type: 'delete', recordId: 'a1', foldIntoParent: true }, T0 + 60_000);
+
+    expect(get(tree, 'a').children.map(child => child.id)).toEqual(['a2']);
+    expect(get(tree, 'a').time).toBe(30);
+    expect(get(tree, 'root').time).toBe(50);
+  });
+
+  it('takes the time out of the open session of a running parent', () => {
+    let tree = applyTimerCommand(buildTree(), { type: 'start', recordId: 'a1' }, T0);
+    tree = applyTimerCommand(tree, { type: 'start', recordId: 'a2' }, T0 + 10_000);
+    tree = applyTimerCommand(tree, { type: 'delete', recordId: 'a1', foldIntoParent: false }, T0 + 15_000);
+
+    expect(get(tree, 'a').isRunning).toBe(true);
+    expect(getElapsedTime(get(tree, 'a'), T0 + 15_000)).toBe(5);
+    expect(getElapsedTime(get(tree, 'root'), T0 + 20_000)).toBe(10);
+  });
+});
+
+describe('manual intervals', () => {
+  const MINUTE = 60_000;
+  const NOW = T0 + 120 * MINUTE;
+
+  /**
+   * a1 ran from T0 to T0 + 10 min
+   */
+  const buildTimedTree = () => {
+    const tree = applyTimerCommand(buildTree(), { type: 'start', recordId: 'a1' }, T0);
+    return applyTimerCommand(tree, { type: 'stop', recordId: 'a1' }, T0 + 10 * MINUTE);
+  };
+
+  it('adds forgotten time to the record and its ancestors', () => {
+    const tree = applyTimerCommand(
+      buildTimedTree(),
+      { type: 'addInterval', recordId: 'a2', interval: { start: T0 + 30 * MINUTE, end: T0 + 45 * MINUTE } },
+      NOW
+    );
+
+    expect(get(tree, 'a2').baseTime).toBe(15 * 60);
+    expect(get(tree, 'a2').time).toBe(15 * 60);
+    expect(get(tree, 'a').time).toBe(25 * 60);
+    expect(get(tree, 'root').time).toBe(25 * 60);
+  });
+
+  it('shortens an interval and the ancestors with it', () => {
+    const tree = applyTimerCommand(
+      buildTimedTree(),
+      { type: 'updateInterval', recordId: 'a1', index: 0, interval: { start: T0, end: T0 + 4 * MINUTE } },
+      NOW
+    );
+
+    expect(get(tree, 'a1').time).toBe(4 * 60);
+    expect(get(tree, 'a').time).toBe(4 * 60);
+    expect(get(tree, 'root').time).toBe(4 * 60);
+  });
+
+  it('deletes an interval but keeps ancestor time still covered by a sibling', () => {
+    let tree = applyTimerCommand(
+      buildTimedTree(),
+      { type: 'addInterval', recordId: 'a2', interval: { start: T0 + 5 * MINUTE, end: T0 + 15 * MINUTE } },
+      NOW
+    );
+    tree = applyTimerCommand(tree, { type: 'deleteInterval', recordId: 'a1', index: 0 }, NOW);
+
+    expect(get(tree, 'a1').time).toBe(0);
+    expect(get(tree, 'a').time).toBe(10 * 60);
+    expect(get(tree, 'root').time).toBe(10 * 60);
+  });
+
+  it('rejects empty, future and overlapping intervals', () => {
+    const a1 = get(buildTimedTree(), 'a1');
+
+    expect(validateIntervalEdit(a1, null, { start: T0 + MINUTE, end: T0 + MINUTE }, NOW)).toBe('empty');
+    expect(validateIntervalEdit(a1, null, { start: NOW - MINUTE, end: NOW + MINUTE }, NOW)).toBe('future');
+    expect(validateIntervalEdit(a1, null, { start: T0 + 5 * MINUTE, end: T0 + 20 * MINUTE }, NOW)).toBe('overlap');
+    expect(validateIntervalEdit(a1, 0, { start: T0 + 5 * MINUTE, end: T0 + 20 * MINUTE }, NOW)).toBeNull();
+    expect(validateIntervalEdit(a1, null, { start: T0 + 10 * MINUTE, end: T0 + 20 * MINUTE }, NOW)).toBeNull();
+  });
+
+  it('rejects removing time recorded by a subtask', () => {
+    const tree = buildTimedTree();
+
+    expect(validateIntervalEdit(get(tree, 'a'), 0, null, NOW)).toBe('subtasks');
+    expect(
+      applyTimerCommand(tree, { type: 'deleteInterval', recordId: 'a', index: 0 }, NOW)
+    ).toBe(tree);
+  });
+
+  it('rejects an interval overlapping the running session', () => {
+    const tree = applyTimerCommand(buildTree(), { type: 'start', recordId: 'b' }, T0);
+
+    expect(validateIntervalEdit(get(tree, 'b'), null, { start: T0 - MINUTE, end: T0 + MINUTE }, NOW)).toBe('overlap');
+  });
+
+  it('stops a forgotten timer at the given time', () => {
+    let tree = applyTimerCommand(buildTree(), { type: 'start', recordId: 'a1' }, T0);
+    tree = applyTimerCommand(tree, { type: 'start', recordId: 'a2' }, T0 + 30 * MINUTE);
+    tree = applyTimerCommand(tree, { type: 'stopAt', recordId: 'a', time: T0 + 20 * MINUTE }, NOW);
+
+    expect(get(tree, 'a').isRunning).toBe(false);
+    expect(get(tree, 'root').isRunning).toBe(false);
+    expect(get(tree, 'a2').isRunning).toBe(false);
+    expect(get(tree, 'a1').time).toBe(20 * 60);
+    expect(get(tree, 'a2').time).toBe(0);
+    expect(get(tree, 'a').time).toBe(20 * 60);
+    expect(get(tree, 'root').time).toBe(20 * 60);
+  });
+
+  it('ignores a stop time before the session started or in the future', () => {
+    const tree = applyTimerCommand(buildTree(), { type: 'start', recordId: 'a1' }, T0);
+
+    expect(applyTimerCommand(tree, { type: 'stopAt', recordId: 'a1', time: T0 - MINUTE }, NOW)).toBe(tree);
+    expect(applyTimerCommand(tree, { type: 'stopAt', recordId: 'a1', time: NOW + MINUTE }, NOW)).toBe(tree);
+  });
+});
+
+describe('tree edits', () => {
+  it('adds children and breaks under the parent', () => {
+    let tree = applyTimerCommand(buildTree(), { type: 'addChild', parentId: 'b', id: 'b1', avatarColor: '#123' }, T0);
+    tree = applyTimerCommand(tree, { type: 'addBreak', parentId: 'b', id: 'b2' }, T0);
+
+    expect(get(tree, 'b').children.map(child => child.id)).toEqual(['b1', 'b2']);
+    expect(get(tree, 'b1').parentId).toBe('b');
+    expect(get(tree, 'b2').label).toBe(BREAK_LABEL);
+    expect(get(tree, 'b2').avatarColor).toBe(BREAK_COLOR);
+    expect(get(tree, 'b2').isBreak).toBe(true);
+    expect(get(tree, 'b1').isBreak).toBe(false);
+  });
+
+  it('renames a record and leaves edit mode', () => {
+    const tree = applyTimerCommand(
+      [{ ...buildTree()[0], isEditing: true }],
+      { type: 'rename', recordId: 'root', label: 'Project' },
+      T0
+    );
+
+    expect(get(tree, 'root').label).toBe('Project');
+    expect(get(tree, 'root').isEditing).toBe(false);
+  });
+
+  it('moves a record under a new parent at the given index', () => {
+    const tree = applyTimerCommand(buildTree(), { type: 'move', recordId: 'b', parentId: 'a', index: 0 }, T0);
+
+    expect(get(tree, 'root').children.map(child => child.id)).toEqual(['a']);
+    expect(get(tree, 'a').children.map(child => child.id)).toEqual(['b', 'a1', 'a2']);
+    expect(get(tree, 'b').parentId).toBe('a');
+  });
+
+  it('stops a running record before moving it', () => {
+    let tree = applyTimerCommand(buildTree(), { type: 'start', recordId: 'a1' }, T0);
+    tree = applyTimerCommand(tree, { type: 'move', recordId: 'a1', parentId: 'b' }, T0 + 20_000);
+
+    expect(get(tree, 'a1').isRunning).toBe(false);
+    expect(get(tree, 'a1').time).toBe(20);
+    expect(get(tree, 'b').children.map(child => child.id)).toEqual(['a1']);
+  });
+
+  it('moves the time of the subtree from the old parent to the new one', () => {
+    let tree = applyTimerCommand(buildTree(), { type: 'start', recordId: 'a1' }, T0);
+    tree = applyTimerCommand(tree, { type: 'start', recordId: 'a2' }, T0 + 60 * 60_000);
+    tree = applyTimerCommand(tree, { type: 'stop', recordId: 'a2' }, T0 + 70 * 60_000);
+    tree = applyTimerCommand(tree, { type: 'move', recordId: 'a1', parentId: 'b' }, T0 + 80 * 60_000);
+
+    expect(get(tree, 'a').time).toBe(10 * 60);
+    expect(get(tree, 'b').time).toBe(60 * 60);
+    expect(get(tree, 'root').time).toBe(70 * 60);
+  });
+
+  it('leaves the new parent without the time of a break it does not count', () => {
+    const breakRecord = { ...record('pause', 'a'), isBreak: true, intervals: [{ start: T0, end: T0 + 5 * 60_000 }] };
+    const tree = [{ ...record('a', null, [breakRecord]), intervals: [{ start: T0, end: T0 + 5 * 60_000 }] }, {
+      ...record('b', null), policy: { children: 'exclusive' as const, countBreaks: false },
+    }];
+
+    const moved = applyTimerCommand(tree, { type: 'move', recordId: 'pause', parentId: 'b' }, T0 + 10 * 60_000);
+
+    expect(get(moved, 'a').time).toBe(0);
+    expect(get(moved, 'b').time).toBe(0);
+  });
+
+  it('keeps a running record running when it is reordered among its siblings', () => {
+    let tree = applyTimerCommand(buildTree(), { type: 'start', recordId: 'a2' }, T0);
+    tree = applyTimerCommand(tree, { type: 'move', recordId: 'a2', parentId: 'a', index: 0 }, T0 + 5_000);
+
+    expect(get(tree, 'a').children.map(child => child.id)).toEqual(['a2', 'a1']);
+    expect(get(tree, 'a2').isRunning).toBe(true);
+    expect(get(tree, 'a2').startTime).toBe(T0);
+  });
+
+  it('refuses to move a record under its own descendant', () => {
+    const original = buildTree();
+    const tree = applyTimerCommand(original, { type: 'move', recordId: 'a', parentId: 'a1' }, T0);
+
+    expect(tree).toBe(original);
+  });
+
+  it('detaches a subtree and attaches it to another tree with its time', () => {
+    const running = applyTimerCommand(buildTree(), { type: 'start', recordId: 'a1' }, T0);
+    const { records, detached } = detachRecord(running, 'a', T0 + 10_000)!;
+    const other = attachRecord([record('other', null)], detached, 'other', T0 + 10_000);
+
+    expect(get(records, 'root').children.map(child => child.id)).toEqual(['b']);
+    expect(get(records, 'root').time).toBe(0);
+    expect(get(other, 'a').parentId).toBe('other');
+    expect(get(other, 'a1').isRunning).toBe(false);
+    expect(get(other, 'other').time).toBe(10);
+  });
+
+  it('does not mutate the input tree', () => {
+    const original = buildTree();
+    const snapshot = JSON.stringify(original);
+    applyTimerCommand(original, { type: 'start', recordId: 'a1' }, T0);
+    applyTimerCommand(original, { type: 'addBreak', parentId: 'a', id: 'x' }, T0);
+
+    expect(JSON.stringify(original)).toBe(snapshot);
+  });
+});
@@ -0,0 +1,47 @@
+import { loadSettings } from '../settings/settings-service';
+import { IStorageService, TimeRecord } from '../storage/interfaces';
+import { getStartedTimers, stopTree } from './active-timers';
+
+/**
+ * Stop the timers of every stored tree except one, e.g. when a timer starts
+ * while only one timer may run. Each stopped tree is saved with its finished
+ * sessions, so no time is lost.
+ * @returns the number of trees that were stopped
+ */
+export async function stopOtherTrees(storage: IStorageService, keptRootId: string, now: number): Promise<number> {
+  const trees = await storage.loadRecords();
+  let stopped = 0;
+  for (const tree of trees) {
+    if (tree.id === keptRootId) {
+      continue;
+    }
+    const updated = stopTree(tree, now);
+    if (updated !== tree) {
+      await storage.saveRecord(updated);
+      stopped++;
+    }
+  }
+  return stopped;
+}
+
+/**
+ * Save a tree after the timer changed it. When the change started a timer
+ * and only one timer may run, the timers of every other tree are stopped;
+ * changes that start nothing, such as a new note, leave them alone.
+ * @param previous - the tree as it was last saved, null for a new tree
+ */
+export async function saveTimerTree(
+  storage: IStorageService,
+  tree: TimeRecord,
+  previous: TimeRecord | null,
+  now: number
+): Promise<void> {
+  await storage.saveRecord(tree);
+  if (getStartedTimers(previous ? [previous] : [], [tree]).length === 0) {
+    return;
+  }
+  const { singleActiveTimer } = await loadSettings(storage);
+  if (singleActiveTimer) {
+    await stopOtherTrees(storage, tree.id, now);
+  }
+}
@@ -0,0 +1,47 @@
+import { TimeRecord } from '../storage/interfaces';
+import { applyTimerCommand } from './timer-tree';
+
+/**
+ * A timer that is running right now, somewhere in one of the stored trees
+ */
+export interface ActiveTimer {
+  rootId: string;
+  record: TimeRecord;
+  labels: string[];  // 从根记录到该记录的标题
+}
+
+/**
+ * The running records that are not just following a running descendant, most
+ * recently started first. These are the timers the user started, e.g. the
+ * task rather than the project above it, or the break of a paused Pomodoro task.
+ */
+export function getActiveTimers(trees: TimeRecord[]): ActiveTimer[] {
+  const collect = (record: TimeRecord, rootId: string, labels: string[]): ActiveTimer[] => {
+    const path = [...labels, record.label];
+    const below = record.children.flatMap(child => collect(child, rootId, path));
+    return record.isRunning && below.length === 0
+      ? [{ rootId, record, labels: path }]
+      : below;
+  };
+  return trees
+    .flatMap(tree => collect(tree, tree.id, []))
+    .sort((a, b) => (b.record.startTime ?? 0) - (a.record.startTime ?? 0));
+}
+
+/**
+ * Timers running in `after` that were not running in `before`, e.g. the ones a command started
+ */
+export function getStartedTimers(before: TimeRecord[], after: TimeRecord[]): ActiveTimer[] {
+  const running = new Set(getActiveTimers(before).map(timer => timer.record.id));
+  return getActiveTimers(after).filter(timer => !running.has(timer.record.id));
+}
+
+/**
+ * Stop every timer of a tree at `now`, closing their sessions so the time is kept
+ * @returns the same tree when nothing was running
+ */
+export function stopTree(tree: TimeRecord, now: number): TimeRecord {
+  return getActiveTimers([tree]).length > 0
+    ? applyTimerCommand([tree], { type: 'stop', recordId: tree.id }, now)[0]
+    : tree;
+}
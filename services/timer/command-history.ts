@@ -0,0 +1,71 @@
+import { TimeRecord } from '../storage/interfaces';
+import { applyTimerCommand, TimerCommand } from './timer-tree';
+
+export const MAX_HISTORY_LENGTH = 50;
+
+/**
+ * A command together with the tree as it was before the command ran
+ */
+export interface HistoryEntry {
+  command: TimerCommand;
+  before: TimeRecord[];
+}
+
+/**
+ * Undo and redo stacks of the detail screen
+ */
+export interface CommandHistory {
+  past: HistoryEntry[];
+  future: TimerCommand[];
+}
+
+export const EMPTY_HISTORY: CommandHistory = { past: [], future: [] };
+
+/**
+ * The tree after an undo or redo, with the updated history
+ */
+export interface HistoryStep {
+  records: TimeRecord[];
+  history: CommandHistory;
+}
+
+/**
+ * Remember a command that was just applied; a new command drops the redo stack
+ */
+export function recordCommand(history: CommandHistory, command: TimerCommand, before: TimeRecord[]): CommandHistory {
+  return {
+    past: [...history.past, { command, before }].slice(-MAX_HISTORY_LENGTH),
+    future: [],
+  };
+}
+
+/**
+ * Go back to the tree from before the last command.
+ * Running state is restored from the snapshot: start times and intervals are
+ * absolute, so a timer stopped by mistake resumes as if it had never stopped,
+ * and time recorded by a start made by mistake is dropped.
+ */
+export function undoCommand(history: CommandHistory): HistoryStep | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) {
+    return null;
+  }
+  return {
+    records: entry.before,
+    history: { past: history.past.slice(0, -1), future: [entry.command, ...history.future] },
+  };
+}
+
+/**
+ * Apply the last undone command again, at the current time
+ */
+export function redoCommand(history: CommandHistory, records: TimeRecord[], now: number): HistoryStep | null {
+  const [command, ...future] = history.future;
+  if (!command) {
+    return null;
+  }
+  return {
+    records: applyTimerCommand(records, command, now),
+    history: { past: [...history.past, { command, before: records }].slice(-MAX_HISTORY_LENGTH), future },
+  };
+}
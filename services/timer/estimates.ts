@@ -0,0 +1,43 @@
+import { TimeRecord } from '../storage/interfaces';
+import { getElapsedTime } from './timer-tree';
+
+/**
+ * Tracked time of a record compared with its estimate
+ */
+export interface BudgetProgress {
+  estimateSeconds: number;
+  actualSeconds: number;
+  ratio: number;          // actual / estimate
+  isOverBudget: boolean;
+}
+
+/**
+ * Estimate of a record in seconds: its own estimate, or else the sum of the
+ * rolled-up estimates of its children. Null when nothing in the subtree is estimated.
+ */
+export function getRolledUpEstimate(record: TimeRecord): number | null {
+  if (record.estimate !== undefined) {
+    return record.estimate;
+  }
+  const childEstimates = record.children
+    .map(getRolledUpEstimate)
+    .filter((estimate): estimate is number => estimate !== null);
+  return childEstimates.length > 0 ? childEstimates.reduce((total, estimate) => total + estimate, 0) : null;
+}
+
+/**
+ * Progress of a record against its rolled-up estimate, or null without an estimate
+ */
+export function getBudgetProgress(record: TimeRecord, now: number): BudgetProgress | null {
+  const estimateSeconds = getRolledUpEstimate(record);
+  if (estimateSeconds === null || estimateSeconds <= 0) {
+    return null;
+  }
+  const actualSeconds = getElapsedTime(record, now);
+  return {
+    estimateSeconds,
+    actualSeconds,
+    ratio: actualSeconds / estimateSeconds,
+    isOverBudget: actualSeconds > estimateSeconds,
+  };
+}
@@ -0,0 +1,54 @@
+import { TimeRecord } from '../storage/interfaces';
+
+/**
+ * A running session that went on longer than the idle threshold
+ */
+export interface IdleTimer {
+  rootId: string;
+  recordId: string;
+  label: string;
+  sessionStart: number;
+  runningSeconds: number;
+}
+
+const hasRunningDescendant = (record: TimeRecord): boolean =>
+  record.children.some(child => child.isRunning || hasRunningDescendant(child));
+
+/**
+ * Find a record whose current session has been running past the threshold,
+ * e.g. because the app was left in the background with the timer on.
+ * The deepest running record is reported, as that is the one the user started.
+ * Sessions that were already decided on are not reported again.
+ * @param records - top level records of the trees to check
+ * @param thresholdMinutes - session length that counts as idle
+ * @param now - current timestamp in milliseconds
+ */
+export function findIdleTimer(records: TimeRecord[], thresholdMinutes: number, now: number): IdleTimer | null {
+  // Paused records are walked too, a break can run below a paused task
+  const visit = (record: TimeRecord, rootId: string): IdleTimer | null => {
+    for (const child of record.children) {
+      const found = visit(child, rootId);
+      if (found) {
+        return found;
+      }
+    }
+    if (!record.isRunning || hasRunningDescendant(record) || !record.startTime) {
+      return null;
+    }
+    const sessionStart = record.startTime;
+    const decided = (record.history ?? []).some(entry => entry.type === 'idle' && entry.sessionStart === sessionStart);
+    const runningSeconds = Math.floor((now - sessionStart) / 1000);
+    if (decided || runningSeconds < thresholdMinutes * 60) {
+      return null;
+    }
+    return { rootId, recordId: record.id, label: record.label, sessionStart, runningSeconds };
+  };
+
+  for (const record of records) {
+    const found = visit(record, record.id);
+    if (found) {
+      return found;
+    }
+  }
+  return null;
+}
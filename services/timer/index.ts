@@ -0,0 +1,10 @@
+export * from './timer-tree';
+export * from './intervals';
+export * from './command-history';
+export * from './idle-detection';
+export * from './pomodoro';
+export * from './pomodoro-service';
+export * from './estimates';
+export * from './timer-policy';
+export * from './active-timers';
+export * from './active-timer-service';
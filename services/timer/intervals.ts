@@ -0,0 +1,123 @@
+import { TimeInterval, TimeRecord } from '../storage/interfaces';
+
+/**
+ * A half-open time range [start, end) in milliseconds
+ */
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Finished intervals of a record plus its open session, if it is running
+ */
+export function getRecordIntervals(record: TimeRecord, now: number): TimeInterval[] {
+  if (record.isRunning && record.startTime && now > record.startTime) {
+    return [...record.intervals, { start: record.startTime, end: now }];
+  }
+  return record.intervals;
+}
+
+/**
+ * Like getRecordIntervals, without intervals backfilled from an old total.
+ * Use it wherever time is placed on the calendar (reports, session exports),
+ * since those intervals have no real start and end.
+ */
+export function getSessionIntervals(record: TimeRecord, now: number): TimeInterval[] {
+  return getRecordIntervals(record, now).filter(interval => !interval.synthetic);
+}
+
+/**
+ * Session intervals of every descendant of a record
+ */
+export function getDescendantSessionIntervals(record: TimeRecord, now: number): TimeInterval[] {
+  return record.children.flatMap(child => [
+    ...getSessionIntervals(child, now),
+    ...getDescendantSessionIntervals(child, now),
+  ]);
+}
+
+/**
+ * Intervals of every descendant of a record, including running sessions
+ */
+export function getDescendantIntervals(record: TimeRecord, now: number): TimeInterval[] {
+  return record.children.flatMap(child => [
+    ...getRecordIntervals(child, now),
+    ...getDescendantIntervals(child, now),
+  ]);
+}
+
+/**
+ * Whether two intervals share any moment; touching ends do not count
+ */
+export function intervalsOverlap(a: TimeInterval, b: TimeInterval): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Sort intervals and join the ones that overlap or touch
+ */
+export function mergeIntervals(intervals: TimeInterval[]): TimeInterval[] {
+  const sorted = intervals
+    .filter(interval => interval.end > interval.start)
+    .sort((a, b) => a.start - b.start);
+
+  return sorted.reduce<TimeInterval[]>((merged, interval) => {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      // Joined with a real session, the result is real
+      merged[merged.length - 1] = last.synthetic && interval.synthetic
+        ? { ...last, end: Math.max(last.end, interval.end) }
+        : { start: last.start, end: Math.max(last.end, interval.end) };
+    } else {
+      merged.push({ ...interval });
+    }
+    return merged;
+  }, []);
+}
+
+/**
+ * Cut intervals down to the part that falls inside the range
+ */
+export function clipIntervals(intervals: TimeInterval[], range: TimeRange): TimeInterval[] {
+  return intervals
+    .map(interval => ({
+      ...interval,
+      start: Math.max(interval.start, range.start),
+      end: Math.min(interval.end, range.end),
+    }))
+    .filter(interval => interval.end > interval.start);
+}
+
+/**
+ * Remove every moment covered by `removed` from `intervals`
+ */
+export function subtractIntervals(intervals: TimeInterval[], removed: TimeInterval[]): TimeInterval[] {
+  const cuts = mergeIntervals(removed);
+  return mergeIntervals(intervals).flatMap(interval => {
+    const remaining: TimeInterval[] = [];
+    let cursor = interval.start;
+    for (const cut of cuts) {
+      if (cut.end <= cursor || cut.start >= interval.end) {
+        continue;
+      }
+      if (cut.start > cursor) {
+        remaining.push({ ...interval, start: cursor, end: cut.start });
+      }
+      cursor = Math.max(cursor, cut.end);
+    }
+    if (cursor < interval.end) {
+      remaining.push({ ...interval, start: cursor, end: interval.end });
+    }
+    return remaining;
+  });
+}
+
+/**
+ * Covered time of a list of intervals in whole seconds, counting overlaps once
+ */
+export function coveredSeconds(intervals: TimeInterval[]): number {
+  const milliseconds = mergeIntervals(intervals)
+    .reduce((total, interval) => total + interval.end - interval.start, 0);
+  return Math.floor(milliseconds / 1000);
+}
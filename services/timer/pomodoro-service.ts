@@ -0,0 +1,23 @@
+import { IStorageService } from '../storage/interfaces';
+import { saveTimerTree } from './active-timer-service';
+import { advancePomodoro } from './pomodoro';
+
+/**
+ * Catch up every stored tree in Pomodoro mode and save the trees that changed,
+ * e.g. when the app starts after it was closed in the middle of a cycle.
+ * A started break follows the one-timer-at-a-time setting like any other timer.
+ */
+export async function advanceStoredPomodoros(storage: IStorageService, now: number): Promise<void> {
+  const roots = await storage.loadRootRecords();
+  for (const root of roots) {
+    // Loaded one at a time, since a started break may stop the timers of the other trees
+    const tree = await storage.loadRecord(root.id);
+    if (!tree) {
+      continue;
+    }
+    const [advanced] = advancePomodoro([tree], now);
+    if (advanced !== tree) {
+      await saveTimerTree(storage, advanced, tree, now);
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import { PomodoroPhase, PomodoroState, TimeRecord } from '../storage/interfaces';
+import { clipIntervals, getRecordIntervals, mergeIntervals } from './intervals';
+import { applyTimerCommand, findRecordById, pauseRecord, updateRecordById } from './timer-tree';
+
+const MINUTE = 60 * 1000;
+
+/**
+ * What the Pomodoro panel of a record shows
+ */
+export interface PomodoroStatus {
+  phase: PomodoroPhase;
+  completedCycles: number;
+  remainingSeconds: number | null;  // null while ready
+  phaseEnd: number | null;          // null while ready or while work is paused
+}
+
+/**
+ * Length of the current break in milliseconds; every N-th cycle gets the long break
+ */
+function getBreakLength(state: PomodoroState): number {
+  return (state.phase === 'longBreak' ? state.settings.longBreakMinutes : state.settings.breakMinutes) * MINUTE;
+}
+
+/**
+ * Work time the record has covered since the work phase started, in milliseconds.
+ * Pausing the record pauses the phase.
+ */
+function getWorkedMilliseconds(record: TimeRecord, state: PomodoroState, now: number): number {
+  return mergeIntervals(clipIntervals(getRecordIntervals(record, now), { start: state.phaseStart, end: now }))
+    .reduce((total, interval) => total + interval.end - interval.start, 0);
+}
+
+/**
+ * The moment the work phase reached its length, or null if it has not yet
+ */
+function getWorkEnd(record: TimeRecord, state: PomodoroState, now: number): number | null {
+  const target = state.settings.workMinutes * MINUTE;
+  let covered = 0;
+  for (const interval of mergeIntervals(clipIntervals(getRecordIntervals(record, now), { start: state.phaseStart, end: now }))) {
+    const length = interval.end - interval.start;
+    if (covered + length >= target) {
+      return interval.start + target - covered;
+    }
+    covered += length;
+  }
+  return null;
+}
+
+/**
+ * Current phase of a record in Pomodoro mode and the time left in it
+ */
+export function getPomodoroStatus(record: TimeRecord, now: number): PomodoroStatus | null {
+  const state = record.pomodoro;
+  if (!state) {
+    return null;
+  }
+  const { phase, completedCycles } = state;
+  if (phase === 'ready') {
+    return { phase, completedCycles, remainingSeconds: null, phaseEnd: null };
+  }
+  if (phase === 'work') {
+    const remaining = Math.max(0, state.settings.workMinutes * MINUTE - getWorkedMilliseconds(record, state, now));
+    return {
+      phase,
+      completedCycles,
+      remainingSeconds: Math.ceil(remaining / 1000),
+      phaseEnd: record.isRunning ? now + remaining : null,
+    };
+  }
+  const phaseEnd = state.phaseStart + getBreakLength(state);
+  return { phase, completedCycles, remainingSeconds: Math.ceil(Math.max(0, phaseEnd - now) / 1000), phaseEnd };
+}
+
+const setPomodoroState = (records: TimeRecord[], recordId: string, pomodoro: PomodoroState) =>
+  updateRecordById(records, recordId, record => ({ ...record, pomodoro }));
+
+/**
+ * Move a record one phase forward if its current phase is over, or return null.
+ * Every change happens at the moment the phase ended, not at `now`.
+ */
+function advanceRecord(records: TimeRecord[], record: TimeRecord, now: number): TimeRecord[] | null {
+  const state = record.pomodoro;
+  if (!state || state.phase === 'ready') {
+    return null;
+  }
+
+  if (state.phase === 'work') {
+    const end = getWorkEnd(record, state, now);
+    if (end === null) {
+      return null;
+    }
+    const completedCycles = state.completedCycles + 1;
+    // The work timer was stopped by hand after the phase ended: count the cycle without a break
+    if (!record.isRunning) {
+      return setPomodoroState(records, record.id, { ...state, phase: 'ready', phaseStart: end, completedCycles });
+    }
+    const breakRecordId = `${record.id}-break-${end}`;
+    const started = applyTimerCommand(
+      applyTimerCommand(records, { type: 'addBreak', parentId: record.id, id: breakRecordId }, end),
+      { type: 'start', recordId: breakRecordId },
+      end
+    );
+    // Starting the break started its parent as well; work is paused until the next cycle
+    const withBreak = pauseRecord(started, record.id, end);
+    return setPomodoroState(withBreak, record.id, {
+      ...state,
+      phase: completedCycles % state.settings.cyclesPerLongBreak === 0 ? 'longBreak' : 'break',
+      phaseStart: end,
+      completedCycles,
+      breakRecordId,
+    });
+  }
+
+  const end = state.phaseStart + getBreakLength(state);
+  if (end > now) {
+    return null;
+  }
+  const breakRecord = state.breakRecordId ? findRecordById(records, state.breakRecordId) : null;
+  let stopped = records;
+  if (breakRecord?.isRunning) {
+    stopped = applyTimerCommand(records, { type: 'stopAt', recordId: breakRecord.id, time: end }, now);
+    // The break was restarted by hand after the phase ended, so it cannot be cut back to the end
+    if (stopped === records) {
+      stopped = applyTimerCommand(records, { type: 'stop', recordId: breakRecord.id }, now);
+    }
+  }
+  return setPomodoroState(stopped, record.id, { ...state, phase: 'ready', phaseStart: end, breakRecordId: undefined });
+}
+
+const collectPomodoroIds = (records: TimeRecord[]): string[] => records.flatMap(record => [
+  ...(record.pomodoro ? [record.id] : []),
+  ...collectPomodoroIds(record.children),
+]);
+
+/**
+ * Catch every record in Pomodoro mode up with the current time.
+ * When a work phase ends, the work timer pauses, a Break child is started and the cycle is counted;
+ * when a break ends, the timers stop and the record waits for the next cycle.
+ * Phases are computed from stored timestamps, so a cycle that ended while the
+ * app was closed is applied at the moment it really ended.
+ * @returns the same array when nothing changed
+ */
+export function advancePomodoro(records: TimeRecord[], now: number): TimeRecord[] {
+  return collectPomodoroIds(records).reduce((current, recordId) => {
+    // At most work → break → ready; the next work phase is started by the user
+    for (let step = 0; step < 2; step++) {
+      const record = findRecordById(current, recordId);
+      const next = record ? advanceRecord(current, record, now) : null;
+      if (!next) {
+        break;
+      }
+      current = next;
+    }
+    return current;
+  }, records);
+}
@@ -0,0 +1,31 @@
+import { TimeInterval, TimeRecord, TimerPolicy } from '../storage/interfaces';
+import { getRecordIntervals } from './intervals';
+
+/**
+ * One child at a time, and breaks count toward the parent
+ */
+export const DEFAULT_TIMER_POLICY: TimerPolicy = { children: 'exclusive', countBreaks: true };
+
+/**
+ * Timer rules of a record, falling back to the defaults
+ */
+export function getTimerPolicy(record: TimeRecord): TimerPolicy {
+  return record.policy ?? DEFAULT_TIMER_POLICY;
+}
+
+/**
+ * Whether the time of a child rolls up into its parent.
+ * Everything does, except breaks under a parent that does not count them.
+ */
+export function countsTowardParent(parent: TimeRecord, child: TimeRecord): boolean {
+  return !child.isBreak || getTimerPolicy(parent).countBreaks;
+}
+
+/**
+ * Intervals of every descendant whose time rolls up into the record, including running sessions
+ */
+export function getRolledUpIntervals(record: TimeRecord, now: number): TimeInterval[] {
+  return record.children
+    .filter(child => countsTowardParent(record, child))
+    .flatMap(child => [...getRecordIntervals(child, now), ...getRolledUpIntervals(child, now)]);
+}
@@ -0,0 +1,742 @@
+import { IdleDecision, PomodoroSettings, RecordHistoryEntry, TimeInterval, TimeRecord, TimerPolicy } from '../storage/interfaces';
+import {
+  clipIntervals,
+  getRecordIntervals,
+  intervalsOverlap,
+  mergeIntervals,
+  subtractIntervals,
+} from './intervals';
+import { countsTowardParent, getRolledUpIntervals, getTimerPolicy } from './timer-policy';
+
+export const BREAK_LABEL = 'Break';
+export const BREAK_COLOR = '#FFB6C1';
+export const DEFAULT_CHILD_LABEL = 'todo';
+
+/**
+ * Commands understood by the timer tree
+ */
+export type TimerCommand =
+  | { type: 'start'; recordId: string }
+  | { type: 'stop'; recordId: string }
+  | { type: 'toggle'; recordId: string }
+  | { type: 'addChild'; parentId: string; id: string; avatarColor: string; label?: string }
+  | { type: 'addBreak'; parentId: string; id: string }
+  | { type: 'rename'; recordId: string; label: string }
+  | { type: 'setNote'; recordId: string; note: string }
+  | { type: 'setTags'; recordId: string; tagIds: string[] }
+  | { type: 'toggleCollapse'; recordId: string }
+  | { type: 'move'; recordId: string; parentId: string | null; index?: number }
+  | { type: 'delete'; recordId: string; foldIntoParent: boolean }
+  | { type: 'addInterval'; recordId: string; interval: TimeInterval }
+  | { type: 'updateInterval'; recordId: string; index: number; interval: TimeInterval }
+  | { type: 'deleteInterval'; recordId: string; index: number }
+  | { type: 'stopAt'; recordId: string; time: number }
+  | { type: 'resolveIdle'; recordId: string; decision: IdleDecision; keptUntil?: number }
+  | { type: 'startPomodoro'; recordId: string; settings: PomodoroSettings }
+  | { type: 'stopPomodoro'; recordId: string }
+  | { type: 'setEstimate'; recordId: string; estimate?: number }
+  | { type: 'setPolicy'; recordId: string; policy: TimerPolicy };
+
+/**
+ * Why a manual interval edit was rejected
+ * - empty: the interval ends before it starts
+ * - future: the interval ends after now
+ * - overlap: the interval overlaps another interval of the record or its running session
+ * - subtasks: the edit would remove time recorded by a subtask
+ */
+export type IntervalError = 'empty' | 'future' | 'overlap' | 'subtasks';
+
+/**
+ * Options for creating a new record
+ */
+export interface CreateRecordOptions {
+  id: string;
+  label: string;
+  parentId: string | null;
+  avatarColor: string;
+  createdAt: Date;
+  isBreak?: boolean;
+  tagIds?: string[];
+}
+
+/**
+ * Create an empty, stopped record
+ */
+export function createTimeRecord(options: CreateRecordOptions): TimeRecord {
+  return {
+    id: options.id,
+    time: 0,
+    baseTime: 0,
+    intervals: [],
+    isRunning: false,
+    label: options.label,
+    children: [],
+    parentId: options.parentId,
+    isCollapsed: false,
+    avatarColor: options.avatarColor,
+    createdAt: options.createdAt,
+    isEditing: false,
+    note: '',
+    isBreak: options.isBreak ?? false,
+    tagIds: options.tagIds ?? [],
+    isEditingNote: false,
+  };
+}
+
+/**
+ * Find a record anywhere in the tree
+ */
+export function findRecordById(records: TimeRecord[], targetId: string): TimeRecord | null {
+  for (const record of records) {
+    if (record.id === targetId) return record;
+    const found = findRecordById(record.children, targetId);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Get the chain of records from the top level down to the target (inclusive)
+ */
+export function findRecordPath(records: TimeRecord[], targetId: string): TimeRecord[] | null {
+  for (const record of records) {
+    if (record.id === targetId) return [record];
+    const path = findRecordPath(record.children, targetId);
+    if (path) return [record, ...path];
+  }
+  return null;
+}
+
+/**
+ * Apply an update to a single record in the tree, leaving the rest untouched
+ */
+export function updateRecordById(
+  records: TimeRecord[],
+  recordId: string,
+  update: (record: TimeRecord) => TimeRecord
+): TimeRecord[] {
+  return records.map(record => {
+    if (record.id === recordId) {
+      return update(record);
+    }
+    if (record.children.length === 0) {
+      return record;
+    }
+    return {
+      ...record,
+      children: updateRecordById(record.children, recordId, update)
+    };
+  });
+}
+
+/**
+ * Length of a finished interval in whole seconds
+ */
+export function getIntervalSeconds(interval: TimeInterval): number {
+  return Math.max(0, Math.floor((interval.end - interval.start) / 1000));
+}
+
+/**
+ * Total time of a list of finished intervals in seconds
+ */
+export function sumIntervals(intervals: TimeInterval[]): number {
+  return intervals.reduce((total, interval) => total + getIntervalSeconds(interval), 0);
+}
+
+/**
+ * Current time of a single record in seconds, including the running segment
+ */
+export function getElapsedTime(record: TimeRecord, now: number): number {
+  const running = record.isRunning && record.startTime ? Math.floor((now - record.startTime) / 1000) : 0;
+  return sumIntervals(record.intervals) + running;
+}
+
+/**
+ * Recompute `time` for every running record in the tree
+ */
+export function refreshElapsedTime(record: TimeRecord, now: number): TimeRecord {
+  return {
+    ...record,
+    time: record.isRunning && record.startTime ? getElapsedTime(record, now) : record.time,
+    children: record.children.map(child => refreshElapsedTime(child, now))
+  };
+}
+
+function startRecord(record: TimeRecord, now: number): TimeRecord {
+  if (record.isRunning) {
+    return record;
+  }
+  const baseTime = sumIntervals(record.intervals);
+  return { ...record, isRunning: true, startTime: now, baseTime, time: baseTime };
+}
+
+function stopRecord(record: TimeRecord, now: number): TimeRecord {
+  if (!record.isRunning) {
+    return record;
+  }
+  const start = record.startTime ?? now;
+  // Timing only appends: a finished session is added, existing ones are left as they are
+  const intervals = now > start ? [...record.intervals, { start, end: now }] : record.intervals;
+  const baseTime = sumIntervals(intervals);
+  return { ...record, isRunning: false, startTime: undefined, intervals, baseTime, time: baseTime };
+}
+
+/**
+ * Stop a record and every record below it
+ */
+function stopSubtree(record: TimeRecord, now: number): TimeRecord {
+  return {
+    ...stopRecord(record, now),
+    children: record.children.map(child => stopSubtree(child, now))
+  };
+}
+
+/**
+ * Start a record and all of its ancestors.
+ * Siblings on that path are stopped with their subtree unless their parent
+ * runs its children in parallel; top level records are always exclusive.
+ * Breaks that a started record does not count are stopped, since it runs again.
+ * @param parent - the record whose children `records` are, null at the top level
+ */
+function startPath(records: TimeRecord[], path: string[], now: number, parent: TimeRecord | null = null): TimeRecord[] {
+  const [currentId, ...rest] = path;
+  const keepsRunning = (sibling: TimeRecord) =>
+    parent !== null && getTimerPolicy(parent).children === 'parallel' && countsTowardParent(parent, sibling);
+  return records.map(record => {
+    if (record.id !== currentId) {
+      return keepsRunning(record) ? record : stopSubtree(record, now);
+    }
+    const started = startRecord(record, now);
+    return {
+      ...started,
+      children: rest.length > 0
+        ? startPath(record.children, rest, now, record)
+        : record.children.map(child => countsTowardParent(record, child) ? child : stopSubtree(child, now))
+    };
+  });
+}
+
+const hasCountedRunningChild = (record: TimeRecord) =>
+  record.children.some(child => child.isRunning && countsTowardParent(record, child));
+
+/**
+ * Stop a record with its descendants. Its ancestors follow it and stop too,
+ * unless another child whose time they count is still running.
+ * @param stopTarget - how the record itself is stopped, with its whole subtree by default
+ */
+function stopPath(
+  records: TimeRecord[],
+  path: string[],
+  now: number,
+  stopTarget: (record: TimeRecord) => TimeRecord = record => stopSubtree(record, now)
+): TimeRecord[] {
+  const [currentId, ...rest] = path;
+  return records.map(record => {
+    if (record.id !== currentId) {
+      return record;
+    }
+    if (rest.length === 0) {
+      return stopTarget(record);
+    }
+    const updated = { ...record, children: stopPath(record.children, rest, now, stopTarget) };
+    return hasCountedRunningChild(updated) ? updated : stopRecord(updated, now);
+  });
+}
+
+/**
+ * Start a record along its path.
+ * A break that its parent does not count pauses the parent instead: the
+ * parent and its other children stop, and so do the ancestors that have
+ * nothing else running.
+ */
+function startTimer(records: TimeRecord[], recordId: string, now: number): TimeRecord[] {
+  const path = findRecordPath(records, recordId);
+  if (!path) {
+    return records;
+  }
+  const ids = path.map(record => record.id);
+  // The innermost uncounted break decides which parent pauses
+  let breakIndex = path.length - 1;
+  while (breakIndex > 0 && countsTowardParent(path[breakIndex - 1], path[breakIndex])) {
+    breakIndex--;
+  }
+  if (breakIndex === 0) {
+    return startPath(records, ids, now);
+  }
+  const breakId = ids[breakIndex];
+  const paused = stopPath(records, ids.slice(0, breakIndex), now, parent => ({
+    ...stopRecord(parent, now),
+    children: parent.children.map(child => child.id === breakId ? child : stopSubtree(child, now))
+  }));
+  return updateRecordById(paused, ids[breakIndex - 1], parent => ({
+    ...parent,
+    children: startPath(parent.children, ids.slice(breakIndex), now, parent)
+  }));
+}
+
+/**
+ * IDs of the ancestors that count the time of the last record on the path,
+ * from its parent upwards
+ */
+function getRollupAncestorIds(path: TimeRecord[]): string[] {
+  const ids: string[] = [];
+  for (let index = path.length - 1; index > 0 && countsTowardParent(path[index - 1], path[index]); index--) {
+    ids.push(path[index - 1].id);
+  }
+  return ids;
+}
+
+/**
+ * Replace the interval log of a record and recompute its times
+ */
+function withIntervals(record: TimeRecord, intervals: TimeInterval[], now: number): TimeRecord {
+  const baseTime = sumIntervals(intervals);
+  const updated = { ...record, intervals, baseTime, time: baseTime };
+  return updated.isRunning ? { ...updated, time: getElapsedTime(updated, now) } : updated;
+}
+
+/**
+ * Change the interval log of the given ancestors, in order.
+ * Running ancestors are split at `now` first so their open session is included.
+ */
+function updateAncestorIntervals(
+  records: TimeRecord[],
+  ancestorIds: string[],
+  now: number,
+  update: (ancestor: TimeRecord) => TimeInterval[]
+): TimeRecord[] {
+  return ancestorIds.reduce((current, ancestorId) => updateRecordById(current, ancestorId, ancestor => {
+    const stopped = stopRecord(ancestor, now);
+    const updated = withIntervals(stopped, update(stopped), now);
+    return ancestor.isRunning ? startRecord(updated, now) : updated;
+  }), records);
+}
+
+/**
+ * Add time to the interval logs of the given ancestors
+ */
+function addAncestorTime(records: TimeRecord[], ancestorIds: string[], intervals: TimeInterval[], now: number): TimeRecord[] {
+  return updateAncestorIntervals(records, ancestorIds, now, ancestor =>
+    mergeIntervals([...ancestor.intervals, ...intervals])
+  );
+}
+
+/**
+ * Take time out of the interval logs of the given ancestors, except where
+ * a record still below them covers it.
+ * Ancestors go from the parent upwards, so each one sees the corrected logs below it.
+ */
+function removeAncestorTime(records: TimeRecord[], ancestorIds: string[], intervals: TimeInterval[], now: number): TimeRecord[] {
+  return updateAncestorIntervals(records, ancestorIds, now, ancestor =>
+    subtractIntervals(ancestor.intervals, subtractIntervals(intervals, getRolledUpIntervals(ancestor, now)))
+  );
+}
+
+/**
+ * Time a stopped record and its subtree account for in their ancestors
+ */
+const getSubtreeIntervals = (record: TimeRecord, now: number): TimeInterval[] =>
+  [...record.intervals, ...getRolledUpIntervals(record, now)];
+
+/**
+ * Delete a record with its subtree.
+ * Folding keeps the deleted time on every ancestor; otherwise the ancestors
+ * lose the time that only the deleted subtree accounted for.
+ */
+function deleteRecord(records: TimeRecord[], recordId: string, foldIntoParent: boolean, now: number): TimeRecord[] {
+  const path = findRecordPath(records, recordId);
+  if (!path) {
+    return records;
+  }
+  const deletedIntervals = getSubtreeIntervals(stopSubtree(path[path.length - 1], now), now);
+  const remaining = removeRecord(records, recordId);
+  const ancestorIds = getRollupAncestorIds(path);
+
+  return foldIntoParent
+    ? addAncestorTime(remaining, ancestorIds, deletedIntervals, now)
+    : removeAncestorTime(remaining, ancestorIds, deletedIntervals, now);
+}
+
+/**
+ * Check a manual change to the interval log of a record.
+ * @param record - the record being edited, with its children
+ * @param index - position of the interval being replaced or deleted, null when adding
+ * @param interval - the new interval, null when deleting
+ * @param now - current timestamp in milliseconds
+ * @returns the reason the change is rejected, or null when it is valid
+ */
+export function validateIntervalEdit(
+  record: TimeRecord,
+  index: number | null,
+  interval: TimeInterval | null,
+  now: number
+): IntervalError | null {
+  if (interval) {
+    if (interval.end <= interval.start) {
+      return 'empty';
+    }
+    if (interval.end > now) {
+      return 'future';
+    }
+    const others = getRecordIntervals(record, now).filter((_, position) => position !== index);
+    if (others.some(other => intervalsOverlap(other, interval))) {
+      return 'overlap';
+    }
+  }
+  const previous = index === null ? undefined : record.intervals[index];
+  if (previous) {
+    const removed = subtractIntervals([previous], interval ? [interval] : []);
+    const subtaskIntervals = getRolledUpIntervals(record, now);
+    if (removed.some(part => subtaskIntervals.some(other => intervalsOverlap(part, other)))) {
+      return 'subtasks';
+    }
+  }
+  return null;
+}
+
+/**
+ * Replace, add or delete one interval of a record and carry the change up the tree.
+ * Ancestors gain the added time; they lose removed time that no other
+ * descendant still accounts for. Invalid edits leave the tree unchanged.
+ */
+function editInterval(
+  records: TimeRecord[],
+  recordId: string,
+  index: number | null,
+  interval: TimeInterval | null,
+  now: number
+): TimeRecord[] {
+  const path = findRecordPath(records, recordId);
+  const record = path?.[path.length - 1];
+  if (!path || !record || (index !== null && !record.intervals[index])) {
+    return records;
+  }
+  if (validateIntervalEdit(record, index, interval, now)) {
+    return records;
+  }
+  const added = interval ? [interval] : [];
+  const removed = index === null ? [] : subtractIntervals([record.intervals[index]], added);
+  const intervals = index === null
+    ? [...record.intervals, ...added].sort((a, b) => a.start - b.start)
+    : [...record.intervals.slice(0, index), ...added, ...record.intervals.slice(index + 1)];
+  const edited = updateRecordById(records, recordId, current => withIntervals(current, intervals, now));
+  // From the parent upwards, so each ancestor sees the corrected logs below it
+  const ancestorIds = getRollupAncestorIds(path);
+
+  return updateAncestorIntervals(edited, ancestorIds, now, ancestor => {
+    const stillCovered = getRolledUpIntervals(ancestor, now);
+    const kept = subtractIntervals(ancestor.intervals, subtractIntervals(removed, stillCovered));
+    return mergeIntervals([...kept, ...added]);
+  });
+}
+
+/**
+ * Stop a running record as if it had been stopped at `time`, e.g. a timer
+ * left running overnight. Time recorded after `time` by the record and its
+ * subtree is dropped, and so is the ancestors' time that nothing else still covers.
+ */
+function stopRecordAt(records: TimeRecord[], recordId: string, time: number, now: number): TimeRecord[] {
+  const path = findRecordPath(records, recordId);
+  const record = path?.[path.length - 1];
+  if (!path || !record?.isRunning || !record.startTime || time < record.startTime || time > now) {
+    return records;
+  }
+  const before = { start: 0, end: time };
+  const after = { start: time, end: now };
+  const cutSubtree = (current: TimeRecord): TimeRecord => ({
+    ...withIntervals(current, clipIntervals(current.intervals, before), now),
+    children: current.children.map(cutSubtree)
+  });
+
+  const stopped = updateRecordById(stopPath(records, path.map(item => item.id), now), recordId, cutSubtree);
+  return removeAncestorTime(stopped, getRollupAncestorIds(path), [after], now);
+}
+
+/**
+ * Change the timer rules of a record and bring its running children in line:
+ * a break it no longer counts pauses it, and an exclusive record keeps only
+ * its first running child.
+ */
+function setTimerPolicy(records: TimeRecord[], recordId: string, policy: TimerPolicy, now: number): TimeRecord[] {
+  const updated = updateRecordById(records, recordId, record => ({ ...record, policy }));
+  const record = findRecordById(updated, recordId);
+  if (!record) {
+    return records;
+  }
+  const running = record.children.filter(child => child.isRunning);
+  const kept = running.find(child => !countsTowardParent(record, child))
+    ?? (policy.children === 'exclusive' && running.length > 1 ? running[0] : null);
+  return kept ? startTimer(updated, kept.id, now) : updated;
+}
+
+/**
+ * Apply the decision about a session that ran past the idle threshold and
+ * note it in the record's history. Discarding drops the whole session.
+ */
+function resolveIdleSession(
+  records: TimeRecord[],
+  recordId: string,
+  decision: IdleDecision,
+  keptUntil: number | undefined,
+  now: number
+): TimeRecord[] {
+  const record = findRecordById(records, recordId);
+  if (!record?.isRunning || !record.startTime) {
+    return records;
+  }
+  const sessionStart = record.startTime;
+  const stopTime = decision === 'discard' ? sessionStart : decision === 'keepUntil' ? keptUntil : null;
+  if (stopTime === undefined) {
+    return records;
+  }
+  const resolved = stopTime === null ? records : stopRecordAt(records, recordId, stopTime, now);
+  if (resolved === records && stopTime !== null) {
+    return records;
+  }
+  const entry: RecordHistoryEntry = decision === 'keepUntil'
+    ? { type: 'idle', decidedAt: now, sessionStart, decision, keptUntil }
+    : { type: 'idle', decidedAt: now, sessionStart, decision };
+  return updateRecordById(resolved, recordId, current => ({
+    ...current,
+    history: [...(current.history ?? []), entry]
+  }));
+}
+
+/**
+ * Stop only the record itself at `time`, leaving its children running,
+ * e.g. the work timer of a Pomodoro record while its break runs.
+ * A session that started after `time` is left running.
+ */
+export function pauseRecord(records: TimeRecord[], recordId: string, time: number): TimeRecord[] {
+  return updateRecordById(records, recordId, record =>
+    record.isRunning && (record.startTime ?? time) <= time ? stopRecord(record, time) : record
+  );
+}
+
+/**
+ * Stop the break of a Pomodoro record if it is still running
+ */
+function stopPomodoroBreak(records: TimeRecord[], record: TimeRecord, now: number): TimeRecord[] {
+  const breakId = record.pomodoro?.breakRecordId;
+  const breakRecord = breakId ? findRecordById(records, breakId) : null;
+  return breakRecord?.isRunning ? applyTimerCommand(records, { type: 'stop', recordId: breakRecord.id }, now) : records;
+}
+
+/**
+ * Start a Pomodoro work phase on a record, ending a break that is still running.
+ * Completed cycles are kept when the record is already in Pomodoro mode.
+ */
+function startPomodoro(records: TimeRecord[], recordId: string, settings: PomodoroSettings, now: number): TimeRecord[] {
+  const record = findRecordById(records, recordId);
+  if (!record) {
+    return records;
+  }
+  const started = applyTimerCommand(stopPomodoroBreak(records, record, now), { type: 'start', recordId }, now);
+  return updateRecordById(started, recordId, current => ({
+    ...current,
+    pomodoro: {
+      settings,
+      phase: 'work',
+      phaseStart: now,
+      completedCycles: record.pomodoro?.completedCycles ?? 0,
+    }
+  }));
+}
+
+/**
+ * Leave Pomodoro mode. A running break is stopped; a running work timer keeps going.
+ */
+function stopPomodoro(records: TimeRecord[], recordId: string, now: number): TimeRecord[] {
+  const record = findRecordById(records, recordId);
+  if (!record?.pomodoro) {
+    return records;
+  }
+  return updateRecordById(stopPomodoroBreak(records, record, now), recordId, current => ({ ...current, pomodoro: undefined }));
+}
+
+function removeRecord(records: TimeRecord[], recordId: string): TimeRecord[] {
+  return records
+    .filter(record => record.id !== recordId)
+    .map(record => ({ ...record, children: removeRecord(record.children, recordId) }));
+}
+
+function insertAt(records: TimeRecord[], record: TimeRecord, index?: number): TimeRecord[] {
+  const position = index === undefined ? records.length : Math.max(0, Math.min(index, records.length));
+  return [...records.slice(0, position), record, ...records.slice(position)];
+}
+
+/**
+ * Insert a record under a parent (or at the top level when `parentId` is null), leaving all times as they are
+ */
+function insertRecord(records: TimeRecord[], record: TimeRecord, parentId: string | null, index?: number): TimeRecord[] {
+  const inserted = { ...record, parentId };
+  if (parentId === null) {
+    return insertAt(records, inserted, index);
+  }
+  return updateRecordById(records, parentId, parent => ({
+    ...parent,
+    children: insertAt(parent.children, inserted, index)
+  }));
+}
+
+/**
+ * Take a record with its subtree out of the tree, e.g. to move it to another stored tree.
+ * A running record is stopped first, then its old ancestors lose the time
+ * that only the detached subtree accounted for.
+ */
+export function detachRecord(
+  records: TimeRecord[],
+  recordId: string,
+  now: number
+): { records: TimeRecord[]; detached: TimeRecord } | null {
+  const path = findRecordPath(records, recordId);
+  if (!path) {
+    return null;
+  }
+  const current = path[path.length - 1].isRunning ? stopPath(records, path.map(item => item.id), now) : records;
+  const detached = findRecordById(current, recordId)!;
+  const remaining = removeAncestorTime(
+    removeRecord(current, recordId), getRollupAncestorIds(path), getSubtreeIntervals(detached, now), now
+  );
+  return { records: remaining, detached };
+}
+
+/**
+ * Insert a detached record under a parent (or at the top level when `parentId` is null).
+ * Its new ancestors gain the time of the subtree they count.
+ */
+export function attachRecord(
+  records: TimeRecord[],
+  record: TimeRecord,
+  parentId: string | null,
+  now: number,
+  index?: number
+): TimeRecord[] {
+  const attached = insertRecord(records, record, parentId, index);
+  const path = findRecordPath(attached, record.id);
+  return path
+    ? addAncestorTime(attached, getRollupAncestorIds(path), getSubtreeIntervals(record, now), now)
+    : attached;
+}
+
+function moveRecord(
+  records: TimeRecord[],
+  recordId: string,
+  parentId: string | null,
+  now: number,
+  index?: number
+): TimeRecord[] {
+  const record = findRecordById(records, recordId);
+  if (!record) {
+    return records;
+  }
+  // A record cannot be moved under itself or one of its descendants
+  if (parentId !== null && (parentId === recordId || findRecordById(record.children, parentId))) {
+    return records;
+  }
+  if (parentId !== null && !findRecordById(records, parentId)) {
+    return records;
+  }
+
+  // Reordering among siblings keeps the record running and its ancestors' time as it is
+  if (record.parentId === parentId) {
+    return insertRecord(removeRecord(records, recordId), record, parentId, index);
+  }
+  const { records: remaining, detached } = detachRecord(records, recordId, now)!;
+  return attachRecord(remaining, detached, parentId, now, index);
+}
+
+/**
+ * Apply a command to the record tree and return the new tree.
+ * The input is never mutated; unknown record IDs leave the tree unchanged.
+ * @param records - top level records of the tree
+ * @param command - the command to apply
+ * @param now - current timestamp in milliseconds
+ */
+export function applyTimerCommand(
+  records: TimeRecord[],
+  command: TimerCommand,
+  now: number = Date.now()
+): TimeRecord[] {
+  switch (command.type) {
+    case 'start':
+      return startTimer(records, command.recordId, now);
+    case 'stop': {
+      const path = findRecordPath(records, command.recordId);
+      return path ? stopPath(records, path.map(record => record.id), now) : records;
+    }
+    case 'toggle': {
+      const record = findRecordById(records, command.recordId);
+      if (!record) {
+        return records;
+      }
+      return applyTimerCommand(
+        records,
+        { type: record.isRunning ? 'stop' : 'start', recordId: command.recordId },
+        now
+      );
+    }
+    case 'addChild':
+    case 'addBreak': {
+      const isBreak = command.type === 'addBreak';
+      const child = createTimeRecord({
+        id: command.id,
+        label: isBreak ? BREAK_LABEL : command.label ?? DEFAULT_CHILD_LABEL,
+        parentId: command.parentId,
+        avatarColor: isBreak ? BREAK_COLOR : command.avatarColor,
+        createdAt: new Date(now),
+        isBreak,
+      });
+      return updateRecordById(records, command.parentId, parent => ({
+        ...parent,
+        children: [...parent.children, child]
+      }));
+    }
+    case 'rename':
+      return updateRecordById(records, command.recordId, record => ({
+        ...record,
+        label: command.label,
+        isEditing: false
+      }));
+    case 'setNote':
+      return updateRecordById(records, command.recordId, record => ({
+        ...record,
+        note: command.note
+      }));
+    case 'setTags':
+      return updateRecordById(records, command.recordId, record => ({
+        ...record,
+        tagIds: command.tagIds
+      }));
+    case 'toggleCollapse':
+      return updateRecordById(records, command.recordId, record => ({
+        ...record,
+        isCollapsed: !record.isCollapsed
+      }));
+    case 'move':
+      return moveRecord(records, command.recordId, command.parentId, now, command.index);
+    case 'delete':
+      return deleteRecord(records, command.recordId, command.foldIntoParent, now);
+    case 'addInterval':
+      return editInterval(records, command.recordId, null, command.interval, now);
+    case 'updateInterval':
+      return editInterval(records, command.recordId, command.index, command.interval, now);
+    case 'deleteInterval':
+      return editInterval(records, command.recordId, command.index, null, now);
+    case 'stopAt':
+      return stopRecordAt(records, command.recordId, command.time, now);
+    case 'resolveIdle':
+      return resolveIdleSession(records, command.recordId, command.decision, command.keptUntil, now);
+    case 'startPomodoro':
+      return startPomodoro(records, command.recordId, command.settings, now);
+    case 'stopPomodoro':
+      return stopPomodoro(records, command.recordId, now);
+    case 'setEstimate':
+      return updateRecordById(records, command.recordId, record => ({
+        ...record,
+        estimate: command.estimate
+      }));
+    case 'setPolicy':
+      return setTimerPolicy(records, command.recordId, command.policy, now);
+  }
+}
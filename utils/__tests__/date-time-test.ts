@@ -0,0 +1,15 @@
+import { formatDateTime, parseDateTime } from '../date-time';
+
+describe('formatDateTime and parseDateTime', () => {
+  it('round-trip a local time to the minute', () => {
+    const timestamp = new Date(2025, 0, 5, 7, 3).getTime();
+
+    expect(formatDateTime(timestamp)).toBe('2025-01-05 07:03');
+    expect(parseDateTime(' 2025-1-5 7:03 ')).toBe(timestamp);
+  });
+
+  it.each(['2025-02-30 10:00', '2025-01-01 25:00', '2025-01-01 10:60', '2025-01-01', 'yesterday'])(
+    'rejects %s',
+    text => expect(parseDateTime(text)).toBeNull()
+  );
+});
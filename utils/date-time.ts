@@ -0,0 +1,26 @@
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+/**
+ * 把时间戳格式化为本地时间 YYYY-MM-DD HH:mm
+ */
+export function formatDateTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * 解析本地时间 YYYY-MM-DD HH:mm，格式或日期无效时返回 null
+ */
+export function parseDateTime(text: string): number | null {
+  const match = text.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})\s+(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day, hours, minutes] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day, hours, minutes);
+  // 拒绝 2 月 30 日、25 点这类会被 Date 自动进位的值
+  if (date.getMonth() !== month - 1 || date.getDate() !== day || date.getHours() !== hours || minutes > 59) {
+    return null;
+  }
+  return date.getTime();
+}